@@ -0,0 +1,92 @@
+// Operator actions the UI can trigger. Each maps to one gateway RPC (or, with `local`, to something
+// done on the monitor's own connection) and names the snapshot kind it changes, if any, so that
+// snapshot can be re-polled as soon as the gateway confirms.
+export const ACTIONS = {
+  'cron.enable': { method: 'cron.update', refresh: 'cron', params: (id) => ({ id, patch: { enabled: true } }) },
+  'cron.disable': { method: 'cron.update', refresh: 'cron', params: (id) => ({ id, patch: { enabled: false } }) },
+  'cron.run': { method: 'cron.run', refresh: 'cron', params: (id) => ({ id, mode: 'force' }) },
+  'session.abort': {
+    method: 'chat.abort',
+    refresh: 'sessions',
+    params: (key, { runId } = {}) => ({ sessionKey: key, ...(runId ? { runId: String(runId) } : {}) })
+  },
+  'session.reset': { method: 'sessions.reset', refresh: 'sessions', params: (key) => ({ key }) },
+  'session.delete': { method: 'sessions.delete', refresh: 'sessions', params: (key) => ({ key }) },
+  'approval.approve': {
+    method: 'exec.approval.resolve',
+    refresh: null,
+    params: (id, { always } = {}) => ({ id, decision: always ? 'allow-always' : 'allow-once' })
+  },
+  'approval.deny': { method: 'exec.approval.resolve', refresh: null, params: (id) => ({ id, decision: 'deny' }) },
+  'device.approve': { method: 'device.pair.approve', refresh: null, params: (requestId) => ({ requestId }) },
+  'device.reject': { method: 'device.pair.reject', refresh: null, params: (requestId) => ({ requestId }) },
+  'device.revoke': {
+    method: 'device.token.revoke',
+    refresh: null,
+    params: (deviceId, { role } = {}) => ({ deviceId, role: role ? String(role) : 'operator' })
+  },
+  'identity.rotate': { local: (gateway) => gateway.gw.rotateIdentity(), refresh: null, params: () => null }
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+// Runs actions against a gateway runtime ({ id, gw, poller }) and writes every attempt, including
+// refused ones, to the audit log.
+export class ActionRunner {
+  constructor({ insertAudit, onAudit = null, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+    this.insertAudit = insertAudit;
+    // onAudit(entry) after each audit row is stored (used to push it to live clients).
+    this.onAudit = onAudit;
+    this.timeoutMs = timeoutMs;
+  }
+
+  // actor: { username, role, ip }. -> { ok, error, result, audit }
+  async run({ action, gateway, target, options = {}, actor }) {
+    const def = ACTIONS[action];
+    if (!def) throw new Error(`unknown action: ${action}`);
+    const params = def.params(target, options);
+    const started = Date.now();
+    let result = null;
+    let error = null;
+    try {
+      result = def.local
+        ? await def.local(gateway, params)
+        : await gateway.gw.request(def.method, params, { timeoutMs: this.timeoutMs });
+    } catch (err) {
+      error = String(err?.message ?? err);
+    }
+    const audit = this.record({
+      ts: started,
+      actor,
+      gatewayId: gateway.id,
+      action,
+      target,
+      params,
+      ok: !error,
+      error,
+      durationMs: Date.now() - started
+    });
+    if (!error && def.refresh) void gateway.poller.refresh(def.refresh);
+    return { ok: !error, error, result, audit };
+  }
+
+  record({ ts = Date.now(), actor, gatewayId = null, action, target = null, params = null, ok, error = null, durationMs = null }) {
+    const entry = {
+      ts,
+      actor: actor?.username ?? 'local',
+      role: actor?.role ?? null,
+      ip: actor?.ip ?? null,
+      gatewayId,
+      action,
+      target,
+      params,
+      ok: Boolean(ok),
+      error,
+      durationMs
+    };
+    const id = this.insertAudit(entry);
+    const stored = { id, ...entry };
+    this.onAudit?.(stored);
+    return stored;
+  }
+}
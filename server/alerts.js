@@ -0,0 +1,430 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { DEFAULT_GATEWAY_ID } from './gateways.js';
+
+const SEVERITY_RANK = { info: 0, warning: 1, critical: 2 };
+
+const DEFAULT_CONFIG = {
+  evaluateSeconds: 15,
+  cooldownMinutes: 15,
+  rules: [],
+  sinks: [{ type: 'log' }]
+};
+
+function positive(v) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function cronNextRun(job) {
+  return Number(job?.nextRunAtMs ?? job?.state?.nextRunAtMs ?? 0) || null;
+}
+
+// Gateway usage-cost output varies by version; pull out a daily total and per-model costs. With a
+// `daily` list, the total is today's entry (0 when there is none yet).
+export function spendFromUsageCost(raw, now = Date.now()) {
+  if (!raw || typeof raw !== 'object') return null;
+  const d = new Date(now);
+  const today = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  const todayCost = Array.isArray(raw.daily) ? (raw.daily.find((e) => e?.date === today)?.totalCost ?? 0) : undefined;
+  const total = Number(raw.totalCost ?? raw.total?.cost ?? raw.cost ?? raw.total ?? todayCost);
+  const source = raw.breakdown ?? raw.byModel ?? raw.models ?? raw.items ?? null;
+  const entries = Array.isArray(source)
+    ? source
+    : source && typeof source === 'object'
+      ? Object.entries(source).map(([model, v]) => (v && typeof v === 'object' ? { model, ...v } : { model, cost: v }))
+      : [];
+  const byModel = entries
+    .map((e) => ({ model: e.model ?? e.modelId ?? e.id ?? null, cost: Number(e.totalCost ?? e.cost) }))
+    .filter((e) => e.model && Number.isFinite(e.cost));
+  return { totalUsd: Number.isFinite(total) ? total : null, byModel };
+}
+
+// Each evaluator returns the instances currently violating the rule ({ key, value, message, detail }),
+// or null when its input is not available yet (existing alerts are then left as they are).
+// `ctx` is one gateway's inputs; rules are evaluated once per monitored gateway.
+const EVALUATORS = {
+  gateway_disconnected(rule, ctx) {
+    if (!ctx.gateway) return null;
+    if (ctx.gateway.connected) return [];
+    return [{
+      key: 'gateway',
+      value: null,
+      message: `Gateway disconnected${ctx.gateway.error ? `: ${ctx.gateway.error}` : ''}`,
+      detail: { url: ctx.gateway.url ?? null, error: ctx.gateway.error ?? null }
+    }];
+  },
+
+  session_pressure(rule, ctx) {
+    if (!Array.isArray(ctx.sessions)) return null;
+    const threshold = positive(rule.threshold) ?? 90;
+    return ctx.sessions
+      .filter((s) => s?.key && (!rule.sessionMatch || String(s.key).includes(rule.sessionMatch)))
+      .filter((s) => Number(s?.drift?.pressure) >= threshold)
+      .map((s) => ({
+        key: s.key,
+        value: Number(s.drift.pressure),
+        message: `${s.key} context at ${s.drift.pressure}% (threshold ${threshold}%)`,
+        detail: { sessionKey: s.key, model: s.model ?? null, totalTokens: s.totalTokens ?? null, contextTokens: s.contextTokens ?? null }
+      }));
+  },
+
+  cron_overdue(rule, ctx, now) {
+    if (!Array.isArray(ctx.cron)) return null;
+    const graceMs = (positive(rule.graceMinutes) ?? 5) * 60_000;
+    return ctx.cron
+      .filter((j) => j?.enabled !== false && cronNextRun(j) && now - cronNextRun(j) > graceMs)
+      .map((j) => {
+        const name = j.name ?? j.id ?? j.jobId ?? 'job';
+        const lateMs = now - cronNextRun(j);
+        return {
+          key: String(j.id ?? j.jobId ?? name),
+          value: Math.round(lateMs / 60_000),
+          message: `Cron job ${name} is ${Math.round(lateMs / 60_000)}m overdue`,
+          detail: { jobId: j.id ?? j.jobId ?? null, name, nextRunAtMs: cronNextRun(j) }
+        };
+      });
+  },
+
+  event_rate(rule, ctx, now, engine) {
+    const windowMs = (positive(rule.windowSeconds) ?? 300) * 1000;
+    const count = engine._rateCount(rule.id, ctx.gatewayId, now - windowMs);
+    const threshold = positive(rule.threshold) ?? 100;
+    if (count <= threshold) return [];
+    const what = [rule.eventType, rule.event, rule.tool, rule.summary].filter(Boolean).join(' ') || 'events';
+    return [{
+      key: 'rate',
+      value: count,
+      message: `${count} ${what} in ${Math.round(windowMs / 1000)}s (threshold ${threshold})`,
+      detail: { count, windowSeconds: windowMs / 1000, threshold }
+    }];
+  },
+
+  approval_waiting(rule, ctx, now) {
+    if (!Array.isArray(ctx.approvals)) return null;
+    const waitMs = (positive(rule.minutes) ?? 5) * 60_000;
+    return ctx.approvals
+      .filter((a) => a.expiresAt > now && now - a.createdAt > waitMs)
+      .map((a) => ({
+        key: a.id,
+        value: Math.round((now - a.createdAt) / 60_000),
+        message: `Approval for ${a.command ?? 'a command'} has waited ${Math.round((now - a.createdAt) / 60_000)}m`,
+        detail: { approvalId: a.id, command: a.command, agentId: a.agentId, sessionKey: a.sessionKey }
+      }));
+  },
+
+  daily_spend(rule, ctx, now, engine) {
+    if (!ctx.spend) return null;
+    const caps = engine.metadata ?? {};
+    const out = [];
+    const totalCap = positive(rule.capUsd) ?? positive(caps.defaults?.dailySpendCapUsd);
+    if (totalCap && Number(ctx.spend.totalUsd) > totalCap) {
+      out.push({
+        key: 'total',
+        value: ctx.spend.totalUsd,
+        message: `Daily spend $${ctx.spend.totalUsd.toFixed(2)} is over the $${totalCap.toFixed(2)} cap`,
+        detail: { capUsd: totalCap, spendUsd: ctx.spend.totalUsd }
+      });
+    }
+    for (const { model, cost } of ctx.spend.byModel ?? []) {
+      const cap = positive(caps.models?.[model]?.dailySpendCapUsd);
+      if (!cap || cost <= cap) continue;
+      out.push({
+        key: model,
+        value: cost,
+        message: `Daily spend on ${model} $${cost.toFixed(2)} is over the $${cap.toFixed(2)} cap`,
+        detail: { model, capUsd: cap, spendUsd: cost }
+      });
+    }
+    return out;
+  }
+};
+
+export const ALERT_RULE_TYPES = Object.keys(EVALUATORS);
+
+function matchesRateRule(rule, row) {
+  if (rule.eventType && row.type !== rule.eventType) return false;
+  if (rule.event && row.event !== rule.event) return false;
+  if (rule.tool && row.tool !== rule.tool) return false;
+  if (rule.summary && row.summary !== rule.summary) return false;
+  return true;
+}
+
+// Alert keys for the default gateway keep their pre-multi-gateway form so firing alerts survive upgrades.
+function alertKeyPrefix(ruleId, gatewayId) {
+  return gatewayId === DEFAULT_GATEWAY_ID ? `${ruleId}:` : `${ruleId}@${gatewayId}:`;
+}
+
+export class AlertEngine {
+  constructor({ store, config, metadata = null, onChange = null, gateways = [{ id: DEFAULT_GATEWAY_ID, name: 'local' }] }) {
+    this.store = store;
+    this.metadata = metadata;
+    this.onChange = onChange;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rules = (Array.isArray(this.config.rules) ? this.config.rules : [])
+      .filter((r) => r && r.enabled !== false && EVALUATORS[r.type])
+      .map((r, i) => ({ severity: 'warning', ...r, id: String(r.id ?? `${r.type}-${i}`) }));
+    this.sinks = (Array.isArray(this.config.sinks) ? this.config.sinks : []).map((s) => ({
+      config: s,
+      lastOkAt: null,
+      lastError: null,
+      lastErrorAt: null
+    }));
+
+    this.gatewayNames = new Map(gateways.map((g) => [g.id, g.name]));
+    this.contexts = new Map(gateways.map((g) => [g.id, { gatewayId: g.id, gateway: null, sessions: null, cron: null, spend: null, approvals: null }]));
+    this.pending = new Map();
+    this.rates = new Map();
+    this.lastNotified = new Map();
+    // Alerts still firing when the server last stopped carry on rather than re-notifying.
+    this.firing = new Map();
+    for (const a of store.listAlerts({ status: 'firing', limit: 1000 })) {
+      this.firing.set(a.alertKey, a);
+      if (a.notifiedAt) this.lastNotified.set(a.alertKey, a.notifiedAt);
+    }
+    this.timer = null;
+  }
+
+  // Reads server/alerts.json; MONITOR_ALERTS_CONFIG points at an alternative file.
+  static loadConfig(rootDir) {
+    const p = process.env.MONITOR_ALERTS_CONFIG || join(rootDir, 'server', 'alerts.json');
+    try {
+      return JSON.parse(readFileSync(p, 'utf8'));
+    } catch {
+      return DEFAULT_CONFIG;
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    const everyMs = (positive(this.config.evaluateSeconds) ?? 15) * 1000;
+    this.timer = setInterval(() => this.evaluate(), everyMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  hasRule(type) {
+    return this.rules.some((r) => r.type === type);
+  }
+
+  // Merge fresh inputs for one gateway (status, sessions/cron lists, spend, approvals) and re-evaluate.
+  update(partial, gatewayId = DEFAULT_GATEWAY_ID) {
+    const ctx = this.contexts.get(gatewayId);
+    if (!ctx) return;
+    Object.assign(ctx, partial);
+    this.evaluate();
+  }
+
+  observeEvent(row) {
+    const gatewayId = row.gatewayId ?? DEFAULT_GATEWAY_ID;
+    const ctx = this.contexts.get(gatewayId);
+    const rateRules = this.rules.filter((r) => r.type === 'event_rate' && matchesRateRule(r, row));
+    if (!ctx || !rateRules.length) return;
+    for (const rule of rateRules) {
+      const k = `${rule.id}@${gatewayId}`;
+      const list = this.rates.get(k) ?? [];
+      list.push(row.ts);
+      // Only the count above the threshold matters; keep memory bounded during a storm.
+      if (list.length > 10_000) list.splice(0, list.length - 10_000);
+      this.rates.set(k, list);
+    }
+    this._evaluateRules(rateRules, ctx, row.ts);
+  }
+
+  _rateCount(ruleId, gatewayId, since) {
+    const list = this.rates.get(`${ruleId}@${gatewayId}`);
+    if (!list) return 0;
+    let i = 0;
+    while (i < list.length && list[i] < since) i++;
+    if (i) list.splice(0, i);
+    return list.length;
+  }
+
+  evaluate(now = Date.now()) {
+    for (const ctx of this.contexts.values()) this._evaluateRules(this.rules, ctx, now);
+  }
+
+  _evaluateRules(rules, ctx, now) {
+    const { gatewayId } = ctx;
+    for (const rule of rules) {
+      let hits;
+      try {
+        hits = EVALUATORS[rule.type](rule, ctx, now, this);
+      } catch {
+        continue;
+      }
+      if (!hits) continue;
+
+      const forMs = (Number(rule.forSeconds) || 0) * 1000;
+      const prefix = alertKeyPrefix(rule.id, gatewayId);
+      const active = new Set();
+      for (const hit of hits) {
+        const alertKey = `${prefix}${hit.key}`;
+        active.add(alertKey);
+        const since = this.pending.get(alertKey) ?? now;
+        this.pending.set(alertKey, since);
+        if (now - since < forMs) continue;
+        const existing = this.firing.get(alertKey);
+        if (existing) this._refresh(existing, hit, now);
+        else this._fire(rule, gatewayId, alertKey, hit, since, now);
+      }
+
+      for (const key of [...this.pending.keys()]) {
+        if (key.startsWith(prefix) && !active.has(key)) this.pending.delete(key);
+      }
+      for (const alert of [...this.firing.values()]) {
+        if (alert.ruleId === rule.id && alert.gatewayId === gatewayId && !active.has(alert.alertKey)) {
+          this._resolve(rule, alert, now);
+        }
+      }
+    }
+  }
+
+  _fire(rule, gatewayId, alertKey, hit, since, now) {
+    const alert = {
+      gatewayId,
+      ruleId: rule.id,
+      alertKey,
+      severity: rule.severity,
+      status: 'firing',
+      message: hit.message,
+      value: hit.value ?? null,
+      firedAt: since,
+      lastSeenAt: now,
+      resolvedAt: null,
+      notifiedAt: null,
+      detail: hit.detail ?? null
+    };
+    const cooldownMs = (positive(rule.cooldownMinutes) ?? positive(this.config.cooldownMinutes) ?? 0) * 60_000;
+    const last = this.lastNotified.get(alertKey);
+    const notify = !last || now - last >= cooldownMs;
+    if (notify) {
+      alert.notifiedAt = now;
+      this.lastNotified.set(alertKey, now);
+    }
+    alert.id = this.store.insertAlert(alert);
+    this.firing.set(alertKey, alert);
+    this._changed(alert);
+    if (notify) void this._deliver(alert, rule);
+  }
+
+  _refresh(alert, hit, now) {
+    const changed = alert.message !== hit.message || alert.value !== (hit.value ?? null);
+    // Avoid a write per evaluation while an alert stays up; touch lastSeenAt at most once a minute.
+    if (!changed && now - alert.lastSeenAt < 60_000) return;
+    alert.message = hit.message;
+    alert.value = hit.value ?? null;
+    alert.detail = hit.detail ?? alert.detail;
+    alert.lastSeenAt = now;
+    this.store.updateAlert(alert);
+    if (changed) this._changed(alert);
+  }
+
+  _resolve(rule, alert, now) {
+    alert.status = 'resolved';
+    alert.resolvedAt = now;
+    alert.lastSeenAt = now;
+    this.store.updateAlert(alert);
+    this.firing.delete(alert.alertKey);
+    this._changed(alert);
+    if (alert.notifiedAt && rule.notifyResolved !== false) void this._deliver(alert, rule);
+  }
+
+  _changed(alert) {
+    try { this.onChange?.({ ...alert }); } catch {}
+  }
+
+  async _deliver(alert, rule) {
+    // With several gateways, say which one the alert is about.
+    const where = alert.gatewayId && this.gatewayNames.size > 1 ? ` [${this.gatewayNames.get(alert.gatewayId) ?? alert.gatewayId}]` : '';
+    const body = {
+      source: 'openclaw-monitor',
+      status: alert.status,
+      text: `[${alert.status === 'firing' ? alert.severity.toUpperCase() : 'RESOLVED'}] ${rule?.name ?? alert.ruleId}${where}: ${alert.message}`,
+      alert
+    };
+    return Promise.all(this.sinks.map(async (sink) => {
+      const minRank = SEVERITY_RANK[sink.config.minSeverity] ?? 0;
+      if ((SEVERITY_RANK[alert.severity] ?? 0) < minRank) return { type: sink.config.type, skipped: true };
+      try {
+        await sendToSink(sink.config, body);
+        sink.lastOkAt = Date.now();
+        return { type: sink.config.type, ok: true };
+      } catch (err) {
+        sink.lastError = String(err?.message ?? err);
+        sink.lastErrorAt = Date.now();
+        return { type: sink.config.type, ok: false, error: sink.lastError };
+      }
+    }));
+  }
+
+  // Push a synthetic critical alert through every sink; nothing is stored.
+  sendTest(now = Date.now()) {
+    return this._deliver({
+      id: null,
+      gatewayId: null,
+      ruleId: 'test',
+      alertKey: 'test:test',
+      severity: 'critical',
+      status: 'firing',
+      message: 'Test notification from the OpenClaw monitor',
+      value: null,
+      firedAt: now,
+      lastSeenAt: now,
+      resolvedAt: null,
+      notifiedAt: now,
+      detail: null
+    }, { name: 'test' });
+  }
+
+  status() {
+    return {
+      rules: this.rules.map((r) => ({
+        ...r,
+        firing: [...this.firing.values()].filter((a) => a.ruleId === r.id).length
+      })),
+      sinks: this.sinks.map((s) => ({
+        type: s.config.type,
+        target: s.config.type === 'webhook' ? redactUrl(s.config.url) : null,
+        minSeverity: s.config.minSeverity ?? null,
+        lastOkAt: s.lastOkAt,
+        lastError: s.lastError,
+        lastErrorAt: s.lastErrorAt
+      })),
+      firing: [...this.firing.values()].sort((a, b) => b.firedAt - a.firedAt)
+    };
+  }
+}
+
+// Webhook URLs often embed a secret (Slack, Discord); only show scheme + host.
+function redactUrl(u) {
+  try {
+    const url = new URL(u);
+    return `${url.protocol}//${url.host}/…`;
+  } catch {
+    return null;
+  }
+}
+
+async function sendToSink(sink, body) {
+  if (sink.type === 'log') {
+    console.log(`[alert] ${body.text}`);
+    return;
+  }
+  if (sink.type === 'webhook') {
+    if (!sink.url) throw new Error('webhook sink has no url');
+    const res = await fetch(sink.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(sink.headers ?? {}) },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(positive(sink.timeoutMs) ?? 10_000)
+    });
+    if (!res.ok) throw new Error(`webhook responded ${res.status}`);
+    return;
+  }
+  throw new Error(`unknown sink type: ${sink.type}`);
+}
@@ -0,0 +1,111 @@
+// Pending exec approvals, rebuilt from the gateway's `exec.approval.requested` / `.resolved` events.
+//
+// The gateway only pushes these as events, so the queue lives in memory and is replayed from stored
+// events on start. Requests past their `expiresAtMs` are dropped on read.
+
+export const APPROVAL_REQUESTED = 'exec.approval.requested';
+export const APPROVAL_RESOLVED = 'exec.approval.resolved';
+
+const DEFAULT_TTL_MS = 30 * 60_000;
+const RECENT_LIMIT = 50;
+
+// Gateway versions differ in where the command and context sit; flatten what the UI shows.
+function describeRequest(payload) {
+  const req = payload?.request ?? payload ?? {};
+  const argv = Array.isArray(req.argv) ? req.argv.join(' ') : null;
+  return {
+    command: req.command ?? argv ?? req.tool ?? null,
+    cwd: req.cwd ?? null,
+    host: req.host ?? null,
+    agentId: req.agentId ?? payload?.agentId ?? null,
+    sessionKey: req.sessionKey ?? payload?.sessionKey ?? null
+  };
+}
+
+export function approvalSummary(eventName, payload) {
+  if (eventName === APPROVAL_REQUESTED) {
+    const { command } = describeRequest(payload);
+    return command ? `approval requested: ${command}` : 'approval requested';
+  }
+  return `approval ${payload?.decision ?? 'resolved'}`;
+}
+
+export class ApprovalQueue {
+  constructor({ onChange = null } = {}) {
+    // onChange(gatewayId) whenever a gateway's pending list changes.
+    this.onChange = onChange;
+    this.pending = new Map();
+    this.recent = [];
+  }
+
+  // `id` comes from the raw event; `payload` is the redacted copy, which is all that is kept.
+  observe({ gatewayId, event, id, payload, ts = Date.now() }) {
+    if (!id) return;
+    const k = `${gatewayId}|${id}`;
+    if (event === APPROVAL_REQUESTED) {
+      const createdAt = Number(payload?.createdAtMs) || ts;
+      this.pending.set(k, {
+        id: String(id),
+        gatewayId,
+        ...describeRequest(payload),
+        createdAt,
+        expiresAt: Number(payload?.expiresAtMs) || createdAt + DEFAULT_TTL_MS
+      });
+      this.onChange?.(gatewayId);
+    } else if (event === APPROVAL_RESOLVED) {
+      this.resolve(gatewayId, id, { decision: payload?.decision ?? null, resolvedBy: payload?.resolvedBy ?? null, ts });
+    }
+  }
+
+  resolve(gatewayId, id, { decision = null, resolvedBy = null, ts = Date.now() } = {}) {
+    const k = `${gatewayId}|${id}`;
+    const entry = this.pending.get(k);
+    if (!entry) return;
+    this.pending.delete(k);
+    this.recent.unshift({ ...entry, decision, resolvedBy, resolvedAt: ts });
+    if (this.recent.length > RECENT_LIMIT) this.recent.length = RECENT_LIMIT;
+    this.onChange?.(gatewayId);
+  }
+
+  // Replays stored approval events (oldest first) so requests made before a restart still show.
+  replay(rows) {
+    const onChange = this.onChange;
+    this.onChange = null;
+    for (const row of rows) {
+      let ev;
+      try { ev = JSON.parse(row.payloadJson); } catch { continue; }
+      this.observe({ gatewayId: row.gatewayId, event: row.event, id: ev?.payload?.id, payload: ev?.payload, ts: row.ts });
+    }
+    this.onChange = onChange;
+  }
+
+  find(id, gatewayId = null) {
+    this._expire();
+    for (const a of this.pending.values()) {
+      if (a.id === id && (!gatewayId || a.gatewayId === gatewayId)) return a;
+    }
+    return null;
+  }
+
+  // gatewayId null = all gateways. Oldest request first.
+  list(gatewayId = null, now = Date.now()) {
+    this._expire(now);
+    return [...this.pending.values()]
+      .filter((a) => !gatewayId || a.gatewayId === gatewayId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  recentlyResolved(gatewayId = null) {
+    return this.recent.filter((a) => !gatewayId || a.gatewayId === gatewayId);
+  }
+
+  _expire(now = Date.now()) {
+    for (const [k, a] of this.pending) {
+      if (a.expiresAt > now) continue;
+      this.pending.delete(k);
+      this.recent.unshift({ ...a, decision: 'expired', resolvedBy: null, resolvedAt: a.expiresAt });
+      this.onChange?.(a.gatewayId);
+    }
+    if (this.recent.length > RECENT_LIMIT) this.recent.length = RECENT_LIMIT;
+  }
+}
@@ -0,0 +1,281 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+export const ROLES = ['viewer', 'operator'];
+
+const SESSION_COOKIE = 'monitor_session';
+const SCRYPT_KEYLEN = 32;
+const LOGIN_WINDOW_MS = 15 * 60_000;
+const LOGIN_MAX_FAILURES = 10;
+// Addresses with recent failed logins that are remembered at once; past this the oldest is forgotten.
+const LOGIN_MAX_TRACKED = 10_000;
+
+const DEFAULT_CONFIG = {
+  tokenEnv: 'MONITOR_AUTH_TOKEN',
+  tokenRole: 'operator',
+  sessionTtlHours: 12,
+  secureCookie: false,
+  // Origins allowed besides the server's own, e.g. a reverse proxy's public URL. The Vite dev server
+  // (`npm run dev`) proxies with a rewritten Host, so its origin is listed by default.
+  allowedOrigins: ['http://localhost:5177'],
+  users: []
+};
+
+// With auth off every request acts as this principal, so role checks need no special case.
+const LOCAL_PRINCIPAL = { username: null, role: 'operator', via: 'none' };
+
+// Stored as `scrypt$<salt b64>$<hash b64>`; see server/hashPassword.js.
+export function hashPassword(password) {
+  const salt = randomBytes(16);
+  const hash = scryptSync(String(password), salt, SCRYPT_KEYLEN);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+// Verified against when the username is unknown, so response time does not reveal which usernames exist.
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+export function verifyPassword(password, stored) {
+  const [scheme, saltB64, hashB64] = String(stored ?? '').split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = scryptSync(String(password), Buffer.from(saltB64, 'base64'), expected.length);
+  return expected.length > 0 && timingSafeEqual(actual, expected);
+}
+
+function sameSecret(a, b) {
+  // Compare digests so the lengths always match and nothing leaks through timing.
+  const da = createHash('sha256').update(String(a)).digest();
+  const db = createHash('sha256').update(String(b)).digest();
+  return timingSafeEqual(da, db);
+}
+
+export function isLoopback(host) {
+  const h = String(host ?? '').replace(/^\[|\]$/g, '').toLowerCase();
+  return h === 'localhost' || h === '::1' || /^(::ffff:)?127\.\d+\.\d+\.\d+$/.test(h);
+}
+
+function parseCookies(header) {
+  const out = {};
+  for (const part of String(header ?? '').split(';')) {
+    const i = part.indexOf('=');
+    if (i < 0) continue;
+    const k = part.slice(0, i).trim();
+    if (!k) continue;
+    try { out[k] = decodeURIComponent(part.slice(i + 1).trim()); } catch {}
+  }
+  return out;
+}
+
+function bearerToken(req) {
+  const m = /^Bearer\s+(.+)$/i.exec(String(req.headers.authorization ?? ''));
+  return m ? m[1].trim() : null;
+}
+
+function originOf(v) {
+  try {
+    const u = new URL(String(v));
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.origin.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Hostname of a Host header value ("name:port", "[::1]:port"), lowercased and without brackets.
+function hostnameOf(host) {
+  try {
+    return new URL(`http://${host}`).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function parseUsers(list) {
+  const users = new Map();
+  for (const [i, u] of (Array.isArray(list) ? list : []).entries()) {
+    const username = String(u?.username ?? '').trim();
+    if (!username) throw new Error(`auth users[${i}]: username is required`);
+    if (!ROLES.includes(u.role)) throw new Error(`auth users[${i}] (${username}): role must be one of ${ROLES.join(', ')}`);
+    if (!String(u.passwordHash ?? '').startsWith('scrypt$')) throw new Error(`auth users[${i}] (${username}): passwordHash must be an scrypt hash (npm run hash-password)`);
+    if (users.has(username)) throw new Error(`auth: duplicate user "${username}"`);
+    users.set(username, { username, role: u.role, passwordHash: u.passwordHash });
+  }
+  return users;
+}
+
+// Optional login for the HTTP API and live stream: a static bearer token and/or local users with
+// scrypt-hashed passwords. Browser logins get an in-memory session cookie plus a CSRF token that
+// must accompany every non-GET request made with that cookie.
+export class AuthManager {
+  constructor({ config = {}, bindHost = null } = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    const token = this.config.token ?? (this.config.tokenEnv ? process.env[this.config.tokenEnv] : null);
+    this.token = token ? String(token) : null;
+    if (this.token && !ROLES.includes(this.config.tokenRole)) throw new Error(`auth tokenRole must be one of ${ROLES.join(', ')}`);
+    this.users = parseUsers(this.config.users);
+    const extra = String(process.env.MONITOR_ALLOWED_ORIGINS ?? '').split(',').map((o) => o.trim()).filter(Boolean);
+    this.allowedOrigins = new Set([...(Array.isArray(this.config.allowedOrigins) ? this.config.allowedOrigins : []), ...extra]
+      .map(originOf)
+      .filter(Boolean));
+    this.allowedHosts = new Set([...this.allowedOrigins].map((o) => new URL(o).host));
+    this.bindHost = bindHost ? String(bindHost).replace(/^\[|\]$/g, '').toLowerCase() : null;
+    this.sessions = new Map();
+    this.failures = new Map();
+  }
+
+  static loadConfig(rootDir) {
+    const p = process.env.MONITOR_AUTH_CONFIG || join(rootDir, 'server', 'auth.json');
+    let raw;
+    try {
+      raw = readFileSync(p, 'utf8');
+    } catch {
+      return DEFAULT_CONFIG;
+    }
+    // Unlike other configs, a broken auth.json must not quietly fall back to "no auth".
+    return JSON.parse(raw);
+  }
+
+  get enabled() {
+    return Boolean(this.token || this.users.size);
+  }
+
+  // -> { username, role, via, session? } or null when the request carries no valid credentials.
+  authenticate(req) {
+    if (!this.enabled) return LOCAL_PRINCIPAL;
+
+    const bearer = bearerToken(req);
+    if (bearer) {
+      return this.token && sameSecret(bearer, this.token) ? { username: 'token', role: this.config.tokenRole, via: 'token' } : null;
+    }
+
+    const sid = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    const session = sid ? this.sessions.get(sid) : null;
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(sid);
+      return null;
+    }
+    return { username: session.username, role: session.role, via: 'session', session };
+  }
+
+  // A DNS-rebinding page (evil.example re-resolved to 127.0.0.1) sends its own name as Host and as
+  // Origin, so the Host header has to name this server: a loopback name, the address it is bound to,
+  // or the host of an allowed origin. Requests without a Host header pass.
+  checkHost(req) {
+    const host = String(req.headers.host ?? '').toLowerCase();
+    if (!host) return null;
+    const hostname = hostnameOf(host);
+    if (hostname && (isLoopback(hostname) || hostname === this.bindHost)) return null;
+    return this.allowedHosts.has(host) ? null : `unknown host: ${host}`;
+  }
+
+  // Browsers send Origin (or at least Referer) on cross-site POSTs and WebSocket upgrades; it must name
+  // this server or an allowed origin, whether or not auth is on. Clients that send neither (curl,
+  // scripts) are not browsers acting for someone else and pass.
+  checkOrigin(req) {
+    const header = req.headers.origin ?? req.headers.referer;
+    if (header === undefined) return null;
+    const origin = originOf(header);
+    if (!origin) return 'cross-origin request refused';
+    // Matching Host only proves the request is same-origin once Host itself is known to be ours.
+    const host = String(req.headers.host ?? '').toLowerCase();
+    if (host && this.checkHost(req) === null && new URL(origin).host === host) return null;
+    return this.allowedOrigins.has(origin) ? null : 'cross-origin request refused';
+  }
+
+  // Cookie sessions must echo their CSRF token; bearer tokens are never sent implicitly by browsers.
+  checkCsrf(req, principal) {
+    if (principal?.via !== 'session') return null;
+    const sent = String(req.headers['x-csrf-token'] ?? '');
+    return sent && sameSecret(sent, principal.session.csrfToken) ? null : 'invalid CSRF token';
+  }
+
+  // body: { username, password } or { token }. Returns { ok, status, error } or { ok, principal, csrfToken, cookie }.
+  login(body, ip) {
+    const now = Date.now();
+    const f = this.failures.get(ip);
+    if (f && f.resetAt > now && f.count >= LOGIN_MAX_FAILURES) {
+      return { ok: false, status: 429, error: 'too many failed logins; try again later' };
+    }
+
+    let identity = null;
+    if (body?.token !== undefined) {
+      if (this.token && sameSecret(body.token, this.token)) identity = { username: 'token', role: this.config.tokenRole };
+    } else {
+      const user = this.users.get(String(body?.username ?? ''));
+      const ok = verifyPassword(body?.password ?? '', user?.passwordHash ?? DUMMY_HASH);
+      if (user && ok) identity = { username: user.username, role: user.role };
+    }
+
+    if (!identity) {
+      let entry = f && f.resetAt > now ? f : null;
+      if (!entry) {
+        // Re-inserted at the end, so the map stays ordered by window end (see _forgetFailures).
+        this.failures.delete(ip);
+        this._forgetFailures(now);
+        entry = { count: 0, resetAt: now + LOGIN_WINDOW_MS };
+        this.failures.set(ip, entry);
+      }
+      entry.count += 1;
+      return { ok: false, status: 401, error: 'invalid credentials' };
+    }
+
+    this.failures.delete(ip);
+    this._sweep(now);
+    const sid = randomBytes(32).toString('base64url');
+    const session = {
+      ...identity,
+      csrfToken: randomBytes(24).toString('base64url'),
+      expiresAt: now + this.config.sessionTtlHours * 3600_000
+    };
+    this.sessions.set(sid, session);
+    return {
+      ok: true,
+      principal: { username: session.username, role: session.role, via: 'session', session },
+      csrfToken: session.csrfToken,
+      cookie: this._cookie(sid, Math.floor((session.expiresAt - now) / 1000))
+    };
+  }
+
+  logout(principal) {
+    if (principal?.via === 'session') {
+      for (const [sid, s] of this.sessions) if (s === principal.session) this.sessions.delete(sid);
+    }
+    return this._cookie('', 0);
+  }
+
+  // What the UI needs to render the login screen or the signed-in user.
+  describe(principal) {
+    return {
+      enabled: this.enabled,
+      methods: { token: Boolean(this.token), password: this.users.size > 0 },
+      user: principal && this.enabled ? { username: principal.username, role: principal.role } : null,
+      role: principal?.role ?? null,
+      csrfToken: principal?.via === 'session' ? principal.session.csrfToken : null
+    };
+  }
+
+  _cookie(value, maxAgeSec) {
+    const parts = [`${SESSION_COOKIE}=${value}`, 'Path=/', 'HttpOnly', 'SameSite=Strict', `Max-Age=${maxAgeSec}`];
+    if (this.config.secureCookie) parts.push('Secure');
+    return parts.join('; ');
+  }
+
+  // Failed logins from rotating addresses must not grow the map without bound. Entries are ordered by
+  // resetAt, so expired ones sit at the front; past LOGIN_MAX_TRACKED the oldest live one goes too.
+  _forgetFailures(now) {
+    for (const [ip, f] of this.failures) {
+      if (f.resetAt > now && this.failures.size < LOGIN_MAX_TRACKED) break;
+      this.failures.delete(ip);
+    }
+  }
+
+  _sweep(now) {
+    for (const [sid, s] of this.sessions) if (s.expiresAt <= now) this.sessions.delete(sid);
+    for (const [ip, f] of this.failures) if (f.resetAt <= now) this.failures.delete(ip);
+  }
+}
+
+export function hasRole(principal, role) {
+  return Boolean(principal) && ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
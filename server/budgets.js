@@ -0,0 +1,196 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { localDate } from './usageCost.js';
+
+export const BUDGET_SCOPES = ['global', 'model', 'provider', 'agent'];
+export const BUDGET_PERIODS = ['day', 'week', 'month'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_WARN_AT = 0.8;
+// Days of usage-cost history the global burn rate is averaged over.
+const BURN_HISTORY_DAYS = 7;
+
+const DEFAULT_CONFIG = { cacheSeconds: 60, budgets: [] };
+
+function positive(v) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const round = (n) => (n === null ? null : Number(n.toFixed(4)));
+
+// Periods follow the monitor's local calendar; weeks start on Monday.
+export function periodBounds(period, now = Date.now()) {
+  const d = new Date(now);
+  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === 'month') start.setDate(1);
+  const end = new Date(start);
+  if (period === 'day') end.setDate(end.getDate() + 1);
+  else if (period === 'week') end.setDate(end.getDate() + 7);
+  else end.setMonth(end.getMonth() + 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+const bareModel = (m) => String(m ?? '').slice(String(m ?? '').indexOf('/') + 1);
+
+// The dimensions a session's spend is attributed to. Agent ids come from `agent:<id>:...` keys.
+export function sessionDimensions(s) {
+  const model = typeof s?.model === 'string' ? s.model : null;
+  const provider = s?.modelProvider ?? s?.provider ?? (model?.includes('/') ? model.slice(0, model.indexOf('/')) : null);
+  const agent = s?.agentId ?? /^agent:([^:]+):/.exec(String(s?.key ?? ''))?.[1] ?? null;
+  return { model, provider, agent };
+}
+
+function matchesBudget(budget, dims) {
+  if (budget.scope === 'global') return true;
+  const value = dims[budget.scope];
+  if (!value) return false;
+  if (budget.scope !== 'model') return value === budget.match;
+  // Model ids may or may not carry their provider prefix; without one on either side, compare bare ids.
+  if (value === budget.match || `${dims.provider}/${value}` === budget.match) return true;
+  return (!value.includes('/') || !budget.match.includes('/')) && bareModel(value) === bareModel(budget.match);
+}
+
+function compileBudget(b, i) {
+  const id = String(b?.id ?? `budget${i}`);
+  const scope = b?.scope ?? 'global';
+  if (!BUDGET_SCOPES.includes(scope)) throw new Error(`budget ${id}: scope must be one of ${BUDGET_SCOPES.join(', ')}`);
+  const period = b?.period ?? 'day';
+  if (!BUDGET_PERIODS.includes(period)) throw new Error(`budget ${id}: period must be one of ${BUDGET_PERIODS.join(', ')}`);
+  const limitUsd = positive(b?.limitUsd);
+  if (!limitUsd) throw new Error(`budget ${id}: limitUsd must be a positive number`);
+  if (scope !== 'global' && !b?.match) throw new Error(`budget ${id}: "${scope}" budgets need "match"`);
+  const warnAt = positive(b?.warnAt) ?? DEFAULT_WARN_AT;
+  return { id, scope, match: scope === 'global' ? null : String(b.match), period, limitUsd, warnAt, source: 'config' };
+}
+
+// `dailySpendCapUsd` from model-metadata.json, as daily budgets next to the configured ones.
+function metadataBudgets(metadata) {
+  const out = [];
+  const total = positive(metadata?.defaults?.dailySpendCapUsd);
+  if (total) out.push({ id: 'metadata:total', scope: 'global', match: null, period: 'day', limitUsd: total, warnAt: DEFAULT_WARN_AT, source: 'metadata' });
+  for (const [model, caps] of Object.entries(metadata?.models ?? {})) {
+    const cap = positive(caps?.dailySpendCapUsd);
+    if (cap) out.push({ id: `metadata:${model}`, scope: 'model', match: model, period: 'day', limitUsd: cap, warnAt: DEFAULT_WARN_AT, source: 'metadata' });
+  }
+  return out;
+}
+
+// Spend per session between a baseline and now. Session costs are cumulative, so the delta is the spend;
+// a cost that went down means the session was reset and everything since counts. Sessions deleted in
+// between drop out of the estimate.
+function sessionSpend(current, baseline) {
+  const before = new Map((baseline ?? []).map((s) => [`${s.gatewayId}|${s.key}`, Number(s?.drift?.cost) || 0]));
+  return current.map((s) => {
+    const cost = Number(s?.drift?.cost) || 0;
+    const prev = before.get(`${s.gatewayId}|${s.key}`) ?? 0;
+    return { dims: sessionDimensions(s), cost: cost >= prev ? cost - prev : cost };
+  });
+}
+
+// Compares spend with budgets per model, provider, agent or overall, each over a day, week or month.
+//
+// Global budgets use the gateway's usage-cost daily totals when they are available; everything else
+// (and global budgets without usage-cost) uses the local per-session estimates. Burn rate comes from
+// the last 7 days of usage-cost history, or from the estimated spend over the past 24 hours, and is
+// extrapolated to the end of the period.
+export class BudgetEngine {
+  // sessionsAt(ts|null) -> { sessions: [{ gatewayId, key, model, drift: { cost } }], complete } for a past
+  // time (null = now); usageCost() -> the last usage-cost payload or null.
+  constructor({ config, metadata = null, sessionsAt, usageCost }) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.budgets = [
+      ...(Array.isArray(this.config.budgets) ? this.config.budgets : []).filter((b) => b?.enabled !== false).map(compileBudget),
+      ...metadataBudgets(metadata)
+    ];
+    this.sessionsAt = sessionsAt;
+    this.usageCost = usageCost;
+    this.cached = null;
+  }
+
+  // Reads server/budgets.json; MONITOR_BUDGETS_CONFIG points at an alternative file.
+  static loadConfig(rootDir) {
+    const p = process.env.MONITOR_BUDGETS_CONFIG || join(rootDir, 'server', 'budgets.json');
+    try {
+      return JSON.parse(readFileSync(p, 'utf8'));
+    } catch {
+      return DEFAULT_CONFIG;
+    }
+  }
+
+  status(now = Date.now()) {
+    const maxAgeMs = (positive(this.config.cacheSeconds) ?? 60) * 1000;
+    if (this.cached && now - this.cached.ts < maxAgeMs) return this.cached.result;
+    const result = this._evaluate(now);
+    this.cached = { ts: now, result };
+    return result;
+  }
+
+  _evaluate(now) {
+    const usage = this.usageCost();
+    const daily = (Array.isArray(usage?.daily) ? usage.daily : [])
+      .map((d) => ({ date: String(d?.date ?? ''), cost: Number(d?.totalCost ?? d?.cost) }))
+      .filter((d) => d.date && Number.isFinite(d.cost));
+
+    const current = this.sessionsAt(null);
+    const baselines = new Map();
+    const estimate = (from) => {
+      if (!baselines.has(from)) {
+        const base = this.sessionsAt(from);
+        baselines.set(from, { spend: sessionSpend(current.sessions, base.sessions), complete: base.complete });
+      }
+      return baselines.get(from);
+    };
+    const sumFor = (budget, spend) => spend.filter((s) => matchesBudget(budget, s.dims)).reduce((acc, s) => acc + s.cost, 0);
+
+    const budgets = this.budgets.map((b) => {
+      const { start, end } = periodBounds(b.period, now);
+      const elapsedH = Math.max(1, (now - start) / HOUR_MS);
+      const remainingH = Math.max(0, (end - now) / HOUR_MS);
+      let spentUsd;
+      let burnUsdPerHour;
+      let source;
+      let complete = true;
+
+      const fromDate = localDate(start);
+      if (b.scope === 'global' && daily.length) {
+        source = 'gateway';
+        spentUsd = daily.filter((d) => d.date >= fromDate).reduce((acc, d) => acc + d.cost, 0);
+        const today = localDate(now);
+        const history = daily.filter((d) => d.date < today && d.date >= localDate(now - BURN_HISTORY_DAYS * DAY_MS));
+        const todayCost = daily.find((d) => d.date === today)?.cost ?? 0;
+        const hours = history.length * 24 + Math.max(1, (now - periodBounds('day', now).start) / HOUR_MS);
+        burnUsdPerHour = (history.reduce((acc, d) => acc + d.cost, 0) + todayCost) / hours;
+      } else {
+        source = 'estimate';
+        const period = estimate(start);
+        const lastDay = estimate(now - DAY_MS);
+        spentUsd = sumFor(b, period.spend);
+        complete = period.complete;
+        burnUsdPerHour = lastDay.complete ? sumFor(b, lastDay.spend) / 24 : spentUsd / elapsedH;
+      }
+
+      const projectedUsd = spentUsd + burnUsdPerHour * remainingH;
+      const status = spentUsd > b.limitUsd ? 'over' : spentUsd >= b.limitUsd * b.warnAt || projectedUsd > b.limitUsd ? 'warning' : 'ok';
+      return {
+        ...b,
+        periodStart: start,
+        periodEnd: end,
+        spentUsd: round(spentUsd),
+        usedRatio: round(spentUsd / b.limitUsd),
+        burnUsdPerHour: round(burnUsdPerHour),
+        projectedUsd: round(projectedUsd),
+        spendSource: source,
+        // false when session history does not reach back to the period start, so the estimate may
+        // include spend from before it.
+        complete,
+        status
+      };
+    });
+
+    return { ts: now, usageCostAvailable: daily.length > 0, budgets };
+  }
+}
@@ -0,0 +1,110 @@
+// Cron run outcomes. cron.list only carries each job's latest run (`state.lastRunAtMs`, `lastStatus`,
+// `lastDurationMs`, `lastError`), so a run is recorded whenever that changes between snapshots, and
+// `cron` events with `action: "finished"` fill in runs that start and end between two polls. A due
+// time that passes by `missedGraceMs` without a run is recorded as `missed`.
+
+const DEFAULT_MISSED_GRACE_MS = 5 * 60_000;
+// Runs may start slightly before the advertised nextRunAtMs.
+const EARLY_START_MS = 5000;
+
+const num = (v) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const jobIdOf = (j) => j?.id ?? j?.jobId ?? null;
+
+const errorText = (e) => (e === null || e === undefined ? null : typeof e === 'string' ? e : e.message ?? JSON.stringify(e));
+
+function normalizeStatus(s) {
+  const v = String(s ?? '').toLowerCase();
+  if (['ok', 'success', 'succeeded', 'done', 'completed'].includes(v)) return 'ok';
+  if (['error', 'failed', 'failure', 'timeout'].includes(v)) return 'error';
+  return v || 'unknown';
+}
+
+export class CronRunTracker {
+  constructor({ store, onRun = null, missedGraceMs = DEFAULT_MISSED_GRACE_MS }) {
+    this.store = store;
+    // onRun(run) for every newly recorded run (not for merges into an existing one).
+    this.onRun = onRun;
+    this.missedGraceMs = missedGraceMs;
+    // `${gatewayId}|${jobId}` -> { name, lastRunAt, awaiting, lastMissed }
+    this.jobs = new Map();
+  }
+
+  observeSnapshot(gatewayId, jobs, now = Date.now()) {
+    const seen = new Set();
+    for (const j of jobs) {
+      const id = jobIdOf(j);
+      if (!id) continue;
+      const k = `${gatewayId}|${id}`;
+      seen.add(k);
+      const st = this.jobs.get(k) ?? { name: null, lastRunAt: null, awaiting: null, lastMissed: 0 };
+      this.jobs.set(k, st);
+      st.name = j.name ?? st.name;
+
+      const s = j.state ?? {};
+      const lastRunAt = num(s.lastRunAtMs ?? j.lastRunAtMs);
+      const next = num(s.nextRunAtMs ?? j.nextRunAtMs);
+      const base = { gatewayId, jobId: String(id), jobName: st.name };
+
+      if (lastRunAt && lastRunAt !== st.lastRunAt) {
+        this._record({
+          ...base,
+          runAt: lastRunAt,
+          durationMs: num(s.lastDurationMs ?? j.lastDurationMs),
+          status: normalizeStatus(s.lastStatus ?? s.lastRunStatus ?? j.lastStatus),
+          error: errorText(s.lastError ?? j.lastError),
+          source: 'snapshot'
+        });
+        st.lastRunAt = lastRunAt;
+      }
+
+      if (st.awaiting && lastRunAt && lastRunAt >= st.awaiting - EARLY_START_MS) st.awaiting = null;
+      if (j.enabled === false) {
+        st.awaiting = null;
+      } else if (st.awaiting && !num(s.runningAtMs) && now > st.awaiting + this.missedGraceMs) {
+        this._record({
+          ...base,
+          runAt: st.awaiting,
+          durationMs: null,
+          status: 'missed',
+          error: `no run within ${Math.round(this.missedGraceMs / 60_000)}m of the scheduled time`,
+          source: 'detector'
+        });
+        st.lastMissed = st.awaiting;
+        st.awaiting = null;
+      }
+      if (!st.awaiting && j.enabled !== false && next && next > st.lastMissed && next > (lastRunAt ?? 0)) st.awaiting = next;
+    }
+    for (const k of this.jobs.keys()) {
+      if (k.startsWith(`${gatewayId}|`) && !seen.has(k)) this.jobs.delete(k);
+    }
+  }
+
+  // `jobId` and `payload` come from the redacted event, like the job ids in the redacted snapshot.
+  observeEvent({ gatewayId, jobId, payload, ts = Date.now() }) {
+    if (!jobId || payload?.action !== 'finished') return;
+    const durationMs = num(payload.durationMs);
+    this._record({
+      gatewayId,
+      jobId: String(jobId),
+      jobName: this.jobs.get(`${gatewayId}|${jobId}`)?.name ?? payload.jobName ?? null,
+      runAt: num(payload.runAtMs) ?? ts - (durationMs ?? 0),
+      durationMs,
+      status: normalizeStatus(payload.status),
+      error: errorText(payload.error),
+      source: 'event'
+    });
+  }
+
+  _record(run) {
+    try {
+      const { id, inserted } = this.store.upsertCronRun(run);
+      if (inserted) this.onRun?.({ id, ...run });
+    } catch {
+      // ignore
+    }
+  }
+}
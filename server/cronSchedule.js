@@ -0,0 +1,250 @@
+// Expands cron job schedules into concrete fire times and finds where jobs on the same gateway overlap.
+//
+// Handles the three schedule kinds cron.list reports: `cron` (5-field expressions, or 6 with leading
+// seconds, evaluated in `tz`), `every` (fixed interval from an anchor) and `at` (one-shot). Expressions
+// without a `tz` are evaluated in the monitor's own zone, which is what the gateway does when it runs
+// on the same host. Wall-clock times skipped by a DST change do not fire; repeated ones fire twice.
+
+const MINUTE_MS = 60_000;
+// UTC offsets are whole quarter hours, so wall-clock time advances linearly inside each UTC quarter.
+const CHUNK_MS = 15 * MINUTE_MS;
+const MAX_OCCURRENCES = 1000;
+const MAX_COLLISIONS = 500;
+export const DEFAULT_DURATION_MS = 60_000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MACROS = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const num = (v) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+function parseValue(s, { min, max, names }, field) {
+  const lower = s.toLowerCase();
+  const named = names ? names.indexOf(lower) : -1;
+  const n = named >= 0 ? named + (names === MONTHS ? 1 : 0) : /^\d+$/.test(s) ? Number(s) : NaN;
+  if (!Number.isInteger(n) || n < min || n > max) throw new Error(`invalid ${field} value: ${s}`);
+  return n;
+}
+
+// -> { values: Set<number>, any: boolean }
+function parseField(src, spec, field) {
+  if (src === '*' || src === '?') return { values: null, any: true };
+  const values = new Set();
+  for (const part of src.split(',')) {
+    const m = /^([^/]+)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`invalid ${field} field: ${src}`);
+    const step = m[2] === undefined ? 1 : Number(m[2]);
+    if (step < 1) throw new Error(`invalid ${field} step: ${part}`);
+    let lo;
+    let hi;
+    if (m[1] === '*' || m[1] === '?') {
+      lo = spec.min;
+      hi = spec.max;
+    } else if (m[1].includes('-')) {
+      const [a, b] = m[1].split('-');
+      lo = parseValue(a, spec, field);
+      hi = parseValue(b, spec, field);
+      if (hi < lo) throw new Error(`invalid ${field} range: ${part}`);
+    } else {
+      lo = parseValue(m[1], spec, field);
+      hi = m[2] === undefined ? lo : spec.max;
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return { values, any: false };
+}
+
+// 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first. `L`, `W` and `#`
+// are not supported and throw.
+export function parseCronExpr(expr) {
+  const src = MACROS[String(expr ?? '').trim().toLowerCase()] ?? String(expr ?? '').trim();
+  const f = src.split(/\s+/).filter(Boolean);
+  if (f.length !== 5 && f.length !== 6) throw new Error(`cron expression needs 5 or 6 fields: ${expr}`);
+  if (f.length === 5) f.unshift('0');
+  const [second, minute, hour, dom, month, dow] = f;
+  const parsedDow = parseField(dow, { min: 0, max: 7, names: WEEKDAYS }, 'day-of-week');
+  if (parsedDow.values?.has(7)) parsedDow.values.add(0);
+  return {
+    second: parseField(second, { min: 0, max: 59 }, 'second'),
+    minute: parseField(minute, { min: 0, max: 59 }, 'minute'),
+    hour: parseField(hour, { min: 0, max: 23 }, 'hour'),
+    dom: parseField(dom, { min: 1, max: 31 }, 'day-of-month'),
+    month: parseField(month, { min: 1, max: 12, names: MONTHS }, 'month'),
+    dow: parsedDow
+  };
+}
+
+const fieldMatches = (f, v) => f.any || f.values.has(v);
+
+// Classic cron rule: when both day fields are restricted, either one matching is enough.
+function dayMatches(cron, day, weekday) {
+  if (cron.dom.any || cron.dow.any) return fieldMatches(cron.dom, day) && fieldMatches(cron.dow, weekday);
+  return cron.dom.values.has(day) || cron.dow.values.has(weekday);
+}
+
+const formatters = new Map();
+
+function formatterFor(tz) {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(tz, f);
+  }
+  return f;
+}
+
+// Wall-clock fields of `ts` in `tz`. `cache` is shared across jobs expanded over the same window.
+function wallClock(ts, tz, cache) {
+  const k = `${tz}|${ts}`;
+  let w = cache.get(k);
+  if (!w) {
+    const parts = {};
+    for (const p of formatterFor(tz).formatToParts(ts)) parts[p.type] = p.value;
+    w = {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      weekday: WEEKDAYS.indexOf(String(parts.weekday).slice(0, 3).toLowerCase())
+    };
+    cache.set(k, w);
+  }
+  return w;
+}
+
+function expandCron(cron, tz, from, to, cache) {
+  const seconds = cron.second.any ? Array.from({ length: 60 }, (_, i) => i) : [...cron.second.values].sort((a, b) => a - b);
+  const out = [];
+  for (let chunk = Math.floor(from / CHUNK_MS) * CHUNK_MS; chunk < to; chunk += CHUNK_MS) {
+    const w = wallClock(chunk, tz, cache);
+    if (!fieldMatches(cron.month, w.month) || !dayMatches(cron, w.day, w.weekday) || !fieldMatches(cron.hour, w.hour)) continue;
+    for (let m = 0; m < 15 && w.minute + m < 60; m += 1) {
+      if (!fieldMatches(cron.minute, w.minute + m)) continue;
+      for (const s of seconds) {
+        const t = chunk + m * MINUTE_MS + s * 1000;
+        if (t < from || t >= to) continue;
+        out.push(t);
+        if (out.length > MAX_OCCURRENCES) return out;
+      }
+    }
+  }
+  return out;
+}
+
+function expandEvery(everyMs, anchor, from, to) {
+  const out = [];
+  let t = anchor >= from ? anchor : anchor + Math.ceil((from - anchor) / everyMs) * everyMs;
+  for (; t < to && out.length <= MAX_OCCURRENCES; t += everyMs) out.push(t);
+  return out;
+}
+
+export function defaultTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+}
+
+// job: one entry of cron.list. -> { kind, tz, occurrences, truncated, error }
+export function expandSchedule(job, { from, to, cache = new Map() }) {
+  const schedule = typeof job?.schedule === 'string' ? { kind: 'cron', expr: job.schedule } : job?.schedule ?? null;
+  const state = job?.state ?? {};
+  const result = (kind, occurrences, extra = {}) => ({
+    kind,
+    tz: null,
+    occurrences: occurrences.slice(0, MAX_OCCURRENCES),
+    truncated: occurrences.length > MAX_OCCURRENCES,
+    error: null,
+    ...extra
+  });
+  try {
+    if (!schedule) throw new Error('job has no schedule');
+    if (schedule.kind === 'cron' || schedule.expr || schedule.cron) {
+      const tz = schedule.tz ? String(schedule.tz) : defaultTimeZone();
+      formatterFor(tz);
+      return result('cron', expandCron(parseCronExpr(schedule.expr ?? schedule.cron), tz, from, to, cache), { tz });
+    }
+    if (schedule.kind === 'every' || schedule.everyMs) {
+      const everyMs = num(schedule.everyMs);
+      if (!everyMs || everyMs < 1000) throw new Error(`invalid interval: ${schedule.everyMs}`);
+      const anchor = num(schedule.anchorMs) ?? num(state.nextRunAtMs ?? job.nextRunAtMs) ?? from;
+      return result('every', expandEvery(everyMs, anchor, from, to));
+    }
+    if (schedule.kind === 'at' || schedule.atMs || schedule.at) {
+      const at = num(schedule.atMs) ?? Date.parse(schedule.at);
+      if (!Number.isFinite(at)) throw new Error(`invalid time: ${schedule.atMs ?? schedule.at}`);
+      const done = num(state.lastRunAtMs) !== null && state.lastRunAtMs >= at;
+      return result('at', !done && at >= from && at < to ? [at] : []);
+    }
+    throw new Error(`unknown schedule kind: ${schedule.kind}`);
+  } catch (err) {
+    return result(schedule?.kind ?? null, [], { error: String(err?.message ?? err) });
+  }
+}
+
+// entries: [{ gatewayId, jobId, name, durationMs, occurrences }]. Returns the spans where two or more
+// jobs of one gateway are expected to run at once (each run lasting `durationMs`), with the jobs
+// involved and the peak number running together. Adds `collisions` (span count) to each entry.
+export function findCollisions(entries) {
+  const spans = [];
+  const byGateway = new Map();
+  for (const e of entries) {
+    e.collisions = 0;
+    const list = byGateway.get(e.gatewayId) ?? [];
+    byGateway.set(e.gatewayId, list);
+    for (const t of e.occurrences) {
+      list.push({ t, d: 1, e });
+      list.push({ t: t + Math.max(1000, e.durationMs ?? DEFAULT_DURATION_MS), d: -1, e });
+    }
+  }
+  for (const [gatewayId, edges] of byGateway) {
+    // Ends sort before starts at the same instant: back-to-back runs do not overlap.
+    edges.sort((a, b) => a.t - b.t || a.d - b.d);
+    const running = new Map();
+    let span = null;
+    for (const { t, d, e } of edges) {
+      const n = (running.get(e) ?? 0) + d;
+      if (n > 0) running.set(e, n);
+      else running.delete(e);
+      if (running.size >= 2) {
+        if (!span) span = { gatewayId, start: t, end: t, peak: 0, jobs: new Set() };
+        for (const r of running.keys()) span.jobs.add(r);
+        span.peak = Math.max(span.peak, running.size);
+      } else if (span) {
+        span.end = t;
+        spans.push(span);
+        span = null;
+      }
+    }
+  }
+  spans.sort((a, b) => a.start - b.start);
+  for (const s of spans) for (const e of s.jobs) e.collisions += 1;
+  return {
+    collisions: spans.slice(0, MAX_COLLISIONS).map((s) => ({
+      gatewayId: s.gatewayId,
+      start: s.start,
+      end: s.end,
+      peak: s.peak,
+      jobs: [...s.jobs].map((e) => ({ jobId: e.jobId, name: e.name }))
+    })),
+    truncated: spans.length > MAX_COLLISIONS
+  };
+}
@@ -1,7 +1,15 @@
-import { mkdirSync } from 'node:fs';
+import { mkdirSync, statSync } from 'node:fs';
 import { join } from 'node:path';
 import { DatabaseSync } from 'node:sqlite';
 
+import { DEFAULT_GATEWAY_ID } from './gateways.js';
+import { RUN_STATUS_BY_CHAT } from './runs.js';
+import { createSnapshotStore } from './snapshotStore.js';
+
+// Highlight markers wrapped around FTS matches in search snippets (rendered by the UI).
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
 export function openDb(rootDir) {
   const stateDir = join(rootDir, 'state');
   mkdirSync(stateDir, { recursive: true });
@@ -34,48 +42,631 @@ export function openDb(rootDir) {
     CREATE INDEX IF NOT EXISTS idx_events_ts ON events(ts DESC);
     CREATE INDEX IF NOT EXISTS idx_events_type ON events(type, ts DESC);
     CREATE INDEX IF NOT EXISTS idx_events_session ON events(sessionKey, ts DESC);
-    CREATE INDEX IF NOT EXISTS idx_snapshots_kind_ts ON snapshots(kind, ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_events_run ON events(runId, ts);
+
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ruleId TEXT NOT NULL,
+      alertKey TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      status TEXT NOT NULL,
+      message TEXT NOT NULL,
+      value REAL,
+      firedAt INTEGER NOT NULL,
+      lastSeenAt INTEGER NOT NULL,
+      resolvedAt INTEGER,
+      notifiedAt INTEGER,
+      detailJson TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_alerts_fired ON alerts(firedAt DESC);
+    CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status, firedAt DESC);
+
+    -- Operator actions (who did what, where, and how it went). Never pruned by retention.
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      actor TEXT NOT NULL,
+      role TEXT,
+      ip TEXT,
+      gatewayId TEXT,
+      action TEXT NOT NULL,
+      target TEXT,
+      paramsJson TEXT,
+      ok INTEGER NOT NULL,
+      error TEXT,
+      durationMs INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_ts ON audit_log(ts DESC);
+
+    -- One row per cron job run (or missed run), from cron.list state and cron events.
+    CREATE TABLE IF NOT EXISTS cron_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      gatewayId TEXT NOT NULL,
+      jobId TEXT NOT NULL,
+      jobName TEXT,
+      runAt INTEGER NOT NULL,
+      durationMs INTEGER,
+      status TEXT NOT NULL,
+      error TEXT,
+      source TEXT NOT NULL,
+      recordedAt INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cron_runs_job ON cron_runs(gatewayId, jobId, runAt DESC);
+    CREATE INDEX IF NOT EXISTS idx_cron_runs_at ON cron_runs(runAt DESC);
+
+    CREATE TABLE IF NOT EXISTS usage_daily (
+      gatewayId TEXT NOT NULL,
+      date TEXT NOT NULL,
+      input INTEGER NOT NULL DEFAULT 0,
+      output INTEGER NOT NULL DEFAULT 0,
+      cacheRead INTEGER NOT NULL DEFAULT 0,
+      cacheWrite INTEGER NOT NULL DEFAULT 0,
+      totalTokens INTEGER NOT NULL DEFAULT 0,
+      inputCost REAL NOT NULL DEFAULT 0,
+      outputCost REAL NOT NULL DEFAULT 0,
+      cacheReadCost REAL NOT NULL DEFAULT 0,
+      cacheWriteCost REAL NOT NULL DEFAULT 0,
+      totalCost REAL NOT NULL DEFAULT 0,
+      source TEXT NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      PRIMARY KEY (gatewayId, date)
+    );
+
+    -- Rate-limit signals from gateway events: throttles, failovers and provider quota headers.
+    CREATE TABLE IF NOT EXISTS rate_limit_samples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      gatewayId TEXT NOT NULL,
+      provider TEXT,
+      model TEXT,
+      kind TEXT NOT NULL,
+      status INTEGER,
+      retryAfterMs INTEGER,
+      requestsLimit INTEGER,
+      requestsRemaining INTEGER,
+      requestsResetAt INTEGER,
+      tokensLimit INTEGER,
+      tokensRemaining INTEGER,
+      tokensResetAt INTEGER,
+      message TEXT,
+      eventId INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_samples_ts ON rate_limit_samples(ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_samples_model ON rate_limit_samples(gatewayId, provider, model, ts DESC);
+
+    -- One row per model attempt outcome seen in chat/agent events: ok, error, retry or failover.
+    CREATE TABLE IF NOT EXISTS model_outcomes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ts INTEGER NOT NULL,
+      gatewayId TEXT NOT NULL,
+      runId TEXT,
+      sessionKey TEXT,
+      provider TEXT,
+      model TEXT,
+      outcome TEXT NOT NULL,
+      errorKind TEXT,
+      message TEXT,
+      toModel TEXT,
+      source TEXT NOT NULL,
+      eventId INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_model_outcomes_ts ON model_outcomes(ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_model_outcomes_run ON model_outcomes(runId, ts);
+  `);
+
+  // Every row belongs to one monitored gateway; rows from before multi-gateway support get the default.
+  for (const table of ['events', 'alerts']) {
+    const cols = new Set(db.prepare(`PRAGMA table_info(${table})`).all().map((c) => c.name));
+    if (!cols.has('gatewayId')) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN gatewayId TEXT NOT NULL DEFAULT '${DEFAULT_GATEWAY_ID}'`);
+    }
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_events_gateway ON events(gatewayId, ts DESC);`);
+
+  // Number of values the redaction pipeline replaced, dropped or truncated in payloadJson.
+  const eventCols = new Set(db.prepare(`PRAGMA table_info(events)`).all().map((c) => c.name));
+  if (!eventCols.has('redacted')) db.exec(`ALTER TABLE events ADD COLUMN redacted INTEGER NOT NULL DEFAULT 0`);
+
+  // Full-text index over events (external content, kept in sync by triggers).
+  const hasFts = !!db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'events_fts'`).get();
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(
+      summary, payloadJson, tool, runId, sessionKey, event, type,
+      content='events', content_rowid='id'
+    );
+    CREATE TRIGGER IF NOT EXISTS events_fts_ai AFTER INSERT ON events BEGIN
+      INSERT INTO events_fts(rowid, summary, payloadJson, tool, runId, sessionKey, event, type)
+      VALUES (new.id, new.summary, new.payloadJson, new.tool, new.runId, new.sessionKey, new.event, new.type);
+    END;
+    CREATE TRIGGER IF NOT EXISTS events_fts_ad AFTER DELETE ON events BEGIN
+      INSERT INTO events_fts(events_fts, rowid, summary, payloadJson, tool, runId, sessionKey, event, type)
+      VALUES ('delete', old.id, old.summary, old.payloadJson, old.tool, old.runId, old.sessionKey, old.event, old.type);
+    END;
   `);
+  if (!hasFts) {
+    // First run on an existing database: index rows written before FTS existed.
+    db.exec(`INSERT INTO events_fts(events_fts) VALUES ('rebuild');`);
+  }
 
   const insert = db.prepare(`
-    INSERT INTO events (ts, event, type, sessionKey, runId, tool, summary, payloadJson)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO events (ts, event, type, sessionKey, runId, tool, summary, payloadJson, gatewayId, redacted)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // listEvents() builds its WHERE clause from whichever filters are set; statements are cached per shape.
+  const PAYLOAD_FILTER_SQL = {
+    exists: "COALESCE(json_type(payloadJson, ?), 'null') != 'null'",
+    '=': "json_extract(payloadJson, ?) IS json_extract(?, '$')",
+    '!=': "json_extract(payloadJson, ?) IS NOT json_extract(?, '$')",
+    '~': 'instr(lower(CAST(json_extract(payloadJson, ?) AS TEXT)), lower(?)) > 0',
+    ...Object.fromEntries(['>', '<', '>=', '<='].map((op) => [op, `json_type(payloadJson, ?) IN ('integer', 'real') AND json_extract(payloadJson, ?) ${op} ?`]))
+  };
+  const listEventsStmts = new Map();
+  const listEventsStmt = (sql) => {
+    let stmt = listEventsStmts.get(sql);
+    if (!stmt) {
+      if (listEventsStmts.size >= 64) listEventsStmts.clear();
+      stmt = db.prepare(sql);
+      listEventsStmts.set(sql, stmt);
+    }
+    return stmt;
+  };
+
+  const getEvent = db.prepare(`
+    SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted, payloadJson
+    FROM events
+    WHERE id = ?1
   `);
 
-  const query = db.prepare(`
-    SELECT id, ts, event, type, sessionKey, runId, tool, summary, payloadJson
+  // ?1 match, ?2 type, ?3 tool, ?4 session LIKE, ?5 runId, ?6 event, ?7 from, ?8 to, ?9 limit, ?10 gatewayId
+  const searchEventsFts = db.prepare(`
+    SELECT e.id, e.ts, e.gatewayId, e.event, e.type, e.sessionKey, e.runId, e.tool, e.summary, e.redacted,
+      snippet(events_fts, -1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 24) AS snippet,
+      bm25(events_fts, 4.0, 1.0, 3.0, 2.0, 2.0, 1.0, 1.0) AS rank
+    FROM events_fts
+    JOIN events e ON e.id = events_fts.rowid
+    WHERE events_fts MATCH ?1
+      AND (?2 IS NULL OR e.type = ?2)
+      AND (?3 IS NULL OR e.tool = ?3)
+      AND (?4 IS NULL OR e.sessionKey LIKE ?4)
+      AND (?5 IS NULL OR e.runId = ?5)
+      AND (?6 IS NULL OR e.event = ?6)
+      AND (?7 IS NULL OR e.ts >= ?7)
+      AND (?8 IS NULL OR e.ts <= ?8)
+      AND (?10 IS NULL OR e.gatewayId = ?10)
+    ORDER BY rank, e.ts DESC
+    LIMIT ?9
+  `);
+
+  const searchEventsPlain = db.prepare(`
+    SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted, summary AS snippet, NULL AS rank
     FROM events
-    WHERE (?1 IS NULL OR type = ?1)
-      AND (?2 IS NULL OR sessionKey LIKE ?2)
+    WHERE (?2 IS NULL OR type = ?2)
+      AND (?3 IS NULL OR tool = ?3)
+      AND (?4 IS NULL OR sessionKey LIKE ?4)
+      AND (?5 IS NULL OR runId = ?5)
+      AND (?6 IS NULL OR event = ?6)
+      AND (?7 IS NULL OR ts >= ?7)
+      AND (?8 IS NULL OR ts <= ?8)
+      AND (?10 IS NULL OR gatewayId = ?10)
     ORDER BY ts DESC
-    LIMIT ?3
+    LIMIT ?9
   `);
 
-  const insertSnap = db.prepare(`
-    INSERT INTO snapshots (ts, kind, payloadJson)
-    VALUES (?, ?, ?)
+  const sessionEvents = db.prepare(`
+    SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted
+    FROM events
+    WHERE sessionKey = ?1 AND (?3 IS NULL OR gatewayId = ?3)
+    ORDER BY ts DESC, id DESC
+    LIMIT ?2
   `);
 
-  const latestSnap = db.prepare(`
-    SELECT id, ts, kind, payloadJson
-    FROM snapshots
-    WHERE kind = ?1
-    ORDER BY ts DESC
-    LIMIT 1
+  const sessionEventStats = db.prepare(`
+    SELECT COUNT(*) AS count, MIN(ts) AS firstTs, MAX(ts) AS lastTs
+    FROM events
+    WHERE sessionKey = ?1 AND (?2 IS NULL OR gatewayId = ?2)
   `);
 
   const latestEventForSession = db.prepare(`
-    SELECT id, ts, event, type, sessionKey, runId, tool, summary, payloadJson
+    SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted, payloadJson
     FROM events
-    WHERE sessionKey = ?1
+    WHERE sessionKey = ?1 AND (?2 IS NULL OR gatewayId = ?2)
     ORDER BY ts DESC
     LIMIT 1
   `);
 
+  const runStatusSql = `CASE chatState ${Object.entries(RUN_STATUS_BY_CHAT)
+    .map(([state, status]) => `WHEN '${state}' THEN '${status}'`)
+    .join(' ')} ELSE 'running' END`;
+
+  // Runs with any event in [?1, ?2]. ?3 session LIKE, ?4 status, ?5 runId, ?6 limit, ?7 gatewayId.
+  // A run is identified by gatewayId + runId: two gateways can hand out the same runId.
+  const listRunsStmt = db.prepare(`
+    WITH ids AS (
+      SELECT DISTINCT gatewayId, runId
+      FROM events
+      WHERE runId IS NOT NULL
+        AND (?5 IS NULL OR runId = ?5)
+        AND (?1 IS NULL OR ts >= ?1)
+        AND (?2 IS NULL OR ts <= ?2)
+        AND (?3 IS NULL OR sessionKey LIKE ?3)
+        AND (?7 IS NULL OR gatewayId = ?7)
+    ),
+    r AS (
+      SELECT e.gatewayId, e.runId, MIN(e.ts) AS startTs, MAX(e.ts) AS endTs, COUNT(*) AS eventCount,
+        COUNT(e.tool) AS toolEvents, MAX(e.sessionKey) AS sessionKey
+      FROM events e
+      JOIN ids ON ids.runId = e.runId AND ids.gatewayId = e.gatewayId
+      GROUP BY e.gatewayId, e.runId
+    ),
+    s AS (
+      SELECT r.*, (
+        SELECT c.summary FROM events c
+        WHERE c.runId = r.runId AND c.gatewayId = r.gatewayId AND c.type = 'chat' AND c.summary IS NOT NULL
+        ORDER BY c.ts DESC, c.id DESC
+        LIMIT 1
+      ) AS chatState
+      FROM r
+    )
+    SELECT *, endTs - startTs AS durationMs, ${runStatusSql} AS status
+    FROM s
+    WHERE (?4 IS NULL OR ${runStatusSql} = ?4)
+    ORDER BY startTs DESC
+    LIMIT ?6
+  `);
+
+  const runEventsStmt = db.prepare(`
+    SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted, payloadJson
+    FROM events
+    WHERE runId = ?1 AND gatewayId = ?3
+    ORDER BY ts, id
+    LIMIT ?2
+  `);
+
+  // Tool events plus run chat states in [?2, ?3], ?1 JSON array of gateway ids, ?4 limit. nextTs is
+  // when the run's next event (of any type) arrived, for tool events that carry no phase.
+  const toolEventsStmt = db.prepare(`
+    SELECT e.id, e.ts, e.gatewayId, e.type, e.sessionKey, e.runId, e.tool, e.summary,
+      CASE WHEN e.tool IS NOT NULL THEN e.payloadJson END AS payloadJson,
+      CASE WHEN e.tool IS NOT NULL AND e.runId IS NOT NULL THEN (
+        SELECT MIN(n.ts) FROM events n
+        WHERE n.runId = e.runId AND n.gatewayId = e.gatewayId AND n.ts >= e.ts AND n.id != e.id AND (n.ts > e.ts OR n.id > e.id)
+      ) END AS nextTs
+    FROM events e
+    WHERE e.gatewayId IN (SELECT value FROM json_each(?1))
+      AND e.ts >= ?2 AND e.ts <= ?3
+      AND (e.tool IS NOT NULL OR (e.type = 'chat' AND e.runId IS NOT NULL AND e.summary IS NOT NULL))
+    ORDER BY e.ts DESC, e.id DESC
+    LIMIT ?4
+  `);
+
+  const insertAlertStmt = db.prepare(`
+    INSERT INTO alerts (ruleId, alertKey, severity, status, message, value, firedAt, lastSeenAt, resolvedAt, notifiedAt, detailJson, gatewayId)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const updateAlertStmt = db.prepare(`
+    UPDATE alerts
+    SET status = ?2, message = ?3, value = ?4, lastSeenAt = ?5, resolvedAt = ?6, notifiedAt = ?7, detailJson = ?8
+    WHERE id = ?1
+  `);
+
+  // ?1 status, ?2 ruleId, ?3 from, ?4 limit, ?5 gatewayId
+  const listAlertsStmt = db.prepare(`
+    SELECT id, gatewayId, ruleId, alertKey, severity, status, message, value, firedAt, lastSeenAt, resolvedAt, notifiedAt, detailJson
+    FROM alerts
+    WHERE (?1 IS NULL OR status = ?1)
+      AND (?2 IS NULL OR ruleId = ?2)
+      AND (?3 IS NULL OR firedAt >= ?3 OR status = 'firing')
+      AND (?5 IS NULL OR gatewayId = ?5)
+    ORDER BY firedAt DESC, id DESC
+    LIMIT ?4
+  `);
+
+  const insertAuditStmt = db.prepare(`
+    INSERT INTO audit_log (ts, actor, role, ip, gatewayId, action, target, paramsJson, ok, error, durationMs)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // ?1 from, ?2 action, ?3 actor, ?4 gatewayId, ?5 limit
+  const listAuditStmt = db.prepare(`
+    SELECT id, ts, actor, role, ip, gatewayId, action, target, paramsJson, ok, error, durationMs
+    FROM audit_log
+    WHERE (?1 IS NULL OR ts >= ?1)
+      AND (?2 IS NULL OR action = ?2)
+      AND (?3 IS NULL OR actor = ?3)
+      AND (?4 IS NULL OR gatewayId = ?4)
+    ORDER BY ts DESC, id DESC
+    LIMIT ?5
+  `);
+
+  // ?1 gatewayId, ?2 jobId, ?3 runAt, ?4 tolerance ms
+  const findCronRunStmt = db.prepare(`
+    SELECT id FROM cron_runs
+    WHERE gatewayId = ?1 AND jobId = ?2 AND runAt BETWEEN ?3 - ?4 AND ?3 + ?4
+    ORDER BY ABS(runAt - ?3)
+    LIMIT 1
+  `);
+
+  const insertCronRunStmt = db.prepare(`
+    INSERT INTO cron_runs (gatewayId, jobId, jobName, runAt, durationMs, status, error, source, recordedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // A second report of the same run (snapshot vs event) only fills in what the first one lacked.
+  const updateCronRunStmt = db.prepare(`
+    UPDATE cron_runs
+    SET jobName = COALESCE(?2, jobName),
+      durationMs = COALESCE(durationMs, ?3),
+      status = CASE WHEN status = 'unknown' THEN ?4 ELSE status END,
+      error = COALESCE(error, ?5)
+    WHERE id = ?1
+  `);
+
+  // ?1 gatewayId, ?2 jobId, ?3 from, ?4 limit
+  const listCronRunsStmt = db.prepare(`
+    SELECT id, gatewayId, jobId, jobName, runAt, durationMs, status, error, source
+    FROM cron_runs
+    WHERE (?1 IS NULL OR gatewayId = ?1)
+      AND jobId = ?2
+      AND (?3 IS NULL OR runAt >= ?3)
+    ORDER BY runAt DESC
+    LIMIT ?4
+  `);
+
+  const upsertUsageDayStmt = db.prepare(`
+    INSERT INTO usage_daily (gatewayId, date, input, output, cacheRead, cacheWrite, totalTokens,
+      inputCost, outputCost, cacheReadCost, cacheWriteCost, totalCost, source, updatedAt)
+    VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14)
+    ON CONFLICT(gatewayId, date) DO UPDATE SET
+      input = excluded.input, output = excluded.output, cacheRead = excluded.cacheRead,
+      cacheWrite = excluded.cacheWrite, totalTokens = excluded.totalTokens,
+      inputCost = excluded.inputCost, outputCost = excluded.outputCost, cacheReadCost = excluded.cacheReadCost,
+      cacheWriteCost = excluded.cacheWriteCost, totalCost = excluded.totalCost,
+      source = excluded.source, updatedAt = excluded.updatedAt
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 first date (YYYY-MM-DD); one row per date, summed over gateways.
+  const listUsageDailyStmt = db.prepare(`
+    SELECT date,
+      SUM(input) AS input, SUM(output) AS output, SUM(cacheRead) AS cacheRead, SUM(cacheWrite) AS cacheWrite,
+      SUM(totalTokens) AS totalTokens, SUM(inputCost) AS inputCost, SUM(outputCost) AS outputCost,
+      SUM(cacheReadCost) AS cacheReadCost, SUM(cacheWriteCost) AS cacheWriteCost, SUM(totalCost) AS totalCost
+    FROM usage_daily
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND date >= ?2
+    GROUP BY date
+    ORDER BY date
+  `);
+
+  const insertRateLimitSampleStmt = db.prepare(`
+    INSERT INTO rate_limit_samples (ts, gatewayId, provider, model, kind, status, retryAfterMs,
+      requestsLimit, requestsRemaining, requestsResetAt, tokensLimit, tokensRemaining, tokensResetAt, message, eventId)
+    VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15)
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 from
+  const rateLimitStatsStmt = db.prepare(`
+    SELECT gatewayId, provider, model,
+      SUM(kind = 'throttle') AS throttles,
+      SUM(kind = 'failover') AS failovers,
+      MAX(CASE WHEN kind = 'throttle' THEN ts END) AS lastThrottleAt,
+      MAX(CASE WHEN kind = 'failover' THEN ts END) AS lastFailoverAt,
+      MAX(ts) AS lastSeenAt
+    FROM rate_limit_samples
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+    GROUP BY gatewayId, provider, model
+  `);
+
+  // Newest sample of each kind per gateway/provider/model. ?1 JSON array of gateway ids, ?2 from
+  const latestRateLimitSamplesStmt = db.prepare(`
+    SELECT * FROM (
+      SELECT *, ROW_NUMBER() OVER (PARTITION BY gatewayId, provider, model, kind ORDER BY ts DESC, id DESC) AS rn
+      FROM rate_limit_samples
+      WHERE gatewayId IN (SELECT value FROM json_each(?1))
+        AND ts >= ?2
+    )
+    WHERE rn = 1
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 from, ?3 bucket ms; used ratios are the peak within each bucket.
+  const rateLimitHistoryStmt = db.prepare(`
+    SELECT ts - ts % ?3 AS ts, provider,
+      SUM(kind = 'throttle') AS throttles,
+      SUM(kind = 'failover') AS failovers,
+      MAX(CASE WHEN requestsLimit > 0 THEN 1.0 - CAST(requestsRemaining AS REAL) / requestsLimit END) AS requestsUsed,
+      MAX(CASE WHEN tokensLimit > 0 THEN 1.0 - CAST(tokensRemaining AS REAL) / tokensLimit END) AS tokensUsed
+    FROM rate_limit_samples
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+    GROUP BY 1, provider
+    ORDER BY 1
+  `);
+
+  const insertModelOutcomeStmt = db.prepare(`
+    INSERT INTO model_outcomes (ts, gatewayId, runId, sessionKey, provider, model, outcome, errorKind, message, toModel, source, eventId)
+    VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 from
+  const modelOutcomeStatsStmt = db.prepare(`
+    SELECT provider, model,
+      SUM(outcome = 'ok') AS ok,
+      SUM(outcome = 'error') AS errors,
+      SUM(outcome = 'retry') AS retries,
+      SUM(outcome = 'failover') AS failovers,
+      MAX(CASE WHEN outcome = 'error' THEN ts END) AS lastErrorAt,
+      MAX(ts) AS lastSeenAt
+    FROM model_outcomes
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+    GROUP BY provider, model
+  `);
+
+  // Failovers into each model. ?1 JSON array of gateway ids, ?2 from
+  const modelFailoversInStmt = db.prepare(`
+    SELECT toModel AS model, COUNT(*) AS n
+    FROM model_outcomes
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+      AND outcome = 'failover'
+      AND toModel IS NOT NULL
+    GROUP BY toModel
+  `);
+
+  // A failover counts as recovered when its run later finished ok. ?1 JSON array of gateway ids, ?2 from
+  const modelFailoverTransitionsStmt = db.prepare(`
+    SELECT f.model AS fromModel, f.toModel AS toModel, COUNT(*) AS failovers,
+      SUM(EXISTS (
+        SELECT 1 FROM model_outcomes o
+        WHERE o.runId = f.runId AND o.gatewayId = f.gatewayId AND o.outcome = 'ok' AND o.ts >= f.ts
+      )) AS recovered,
+      MAX(f.ts) AS lastAt
+    FROM model_outcomes f
+    WHERE f.gatewayId IN (SELECT value FROM json_each(?1))
+      AND f.ts >= ?2
+      AND f.outcome = 'failover'
+    GROUP BY f.model, f.toModel
+    ORDER BY failovers DESC
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 from, ?3 limit
+  const topModelErrorsStmt = db.prepare(`
+    SELECT errorKind, message, COUNT(*) AS n, MAX(ts) AS lastAt, json_group_array(DISTINCT model) AS modelsJson
+    FROM model_outcomes
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+      AND outcome = 'error'
+    GROUP BY errorKind, message
+    ORDER BY n DESC, lastAt DESC
+    LIMIT ?3
+  `);
+
+  // ?1 JSON array of gateway ids, ?2 from, ?3 bucket ms
+  const modelOutcomeTimelineStmt = db.prepare(`
+    SELECT ts - ts % ?3 AS ts,
+      SUM(outcome = 'ok') AS ok,
+      SUM(outcome = 'error') AS errors,
+      SUM(outcome = 'retry') AS retries,
+      SUM(outcome = 'failover') AS failovers
+    FROM model_outcomes
+    WHERE gatewayId IN (SELECT value FROM json_each(?1))
+      AND ts >= ?2
+    GROUP BY 1
+    ORDER BY 1
+  `);
+
+  // Prune statements delete at most ?2 rows per call so retention can yield to the event loop between
+  // batches (DELETE ... LIMIT needs a compile option node:sqlite does not set, hence the subqueries).
+  const pruneModelOutcomesStmt = db.prepare(`
+    DELETE FROM model_outcomes WHERE id IN (SELECT id FROM model_outcomes WHERE ts < ?1 LIMIT ?2)
+  `);
+
+  const pruneRateLimitSamplesStmt = db.prepare(`
+    DELETE FROM rate_limit_samples WHERE id IN (SELECT id FROM rate_limit_samples WHERE ts < ?1 LIMIT ?2)
+  `);
+
+  // Firing alerts are kept whatever their age; resolved ones go by when they resolved.
+  const pruneAlertsStmt = db.prepare(`
+    DELETE FROM alerts WHERE id IN (
+      SELECT id FROM alerts WHERE status = 'resolved' AND resolvedAt < ?1 LIMIT ?2
+    )
+  `);
+
+  // ?1 gatewayId, ?2 from
+  const cronRunStatsStmt = db.prepare(`
+    SELECT gatewayId, jobId, MAX(jobName) AS jobName,
+      COUNT(*) AS total,
+      SUM(status = 'ok') AS ok,
+      SUM(status = 'error') AS error,
+      SUM(status = 'missed') AS missed,
+      AVG(CASE WHEN status <> 'missed' THEN durationMs END) AS avgDurationMs,
+      MAX(CASE WHEN status <> 'missed' THEN runAt END) AS lastRunAt
+    FROM cron_runs
+    WHERE (?1 IS NULL OR gatewayId = ?1)
+      AND runAt >= ?2
+    GROUP BY gatewayId, jobId
+  `);
+
+  const getMetaStmt = db.prepare(`SELECT value FROM meta WHERE key = ?1`);
+  const setMetaStmt = db.prepare(`
+    INSERT INTO meta (key, value) VALUES (?1, ?2)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `);
+
+  // ?1 cutoff ts, ?2 type (NULL = any type not listed in ?3), ?3 JSON array of excluded types, ?4 batch size
+  const pruneEventsStmt = db.prepare(`
+    DELETE FROM events WHERE id IN (
+      SELECT id FROM events
+      WHERE ts < ?1
+        AND (
+          (?2 IS NOT NULL AND type = ?2)
+          OR (?2 IS NULL AND type NOT IN (SELECT value FROM json_each(?3)))
+        )
+      LIMIT ?4
+    )
+  `);
+
+  // Oldest events beyond the newest ?1, at most ?2 of them.
+  const trimEventsStmt = db.prepare(`
+    DELETE FROM events WHERE id IN (
+      SELECT id FROM events
+      WHERE id <= (SELECT id FROM events ORDER BY id DESC LIMIT 1 OFFSET ?1)
+      ORDER BY id
+      LIMIT ?2
+    )
+  `);
+
+  const countRows = (table) => Number(db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get().n);
+
+  function fileSize(p) {
+    try { return statSync(p).size; } catch { return 0; }
+  }
+
+  function pageStats() {
+    return {
+      pageSize: Number(db.prepare(`PRAGMA page_size`).get().page_size),
+      pageCount: Number(db.prepare(`PRAGMA page_count`).get().page_count),
+      freePages: Number(db.prepare(`PRAGMA freelist_count`).get().freelist_count)
+    };
+  }
+
+  function getMeta(key) {
+    const row = getMetaStmt.get(key);
+    if (!row) return null;
+    try { return JSON.parse(row.value); } catch { return null; }
+  }
+
+  function setMeta(key, value) {
+    setMetaStmt.run(key, JSON.stringify(value));
+  }
+
+  const snapshots = createSnapshotStore(db, {
+    getMeta,
+    setMeta,
+    highlight: { start: HIGHLIGHT_START, end: HIGHLIGHT_END }
+  });
+
   return {
     db,
+    dbPath,
+    getMeta,
+    setMeta,
+    pageStats,
+    ...snapshots,
     insertEvent(row) {
-      insert.run(
+      const info = insert.run(
         row.ts,
         row.event,
         row.type,
@@ -83,23 +674,362 @@ export function openDb(rootDir) {
         row.runId ?? null,
         row.tool ?? null,
         row.summary ?? null,
-        row.payloadJson
+        row.payloadJson,
+        row.gatewayId ?? DEFAULT_GATEWAY_ID,
+        row.redacted ?? 0
       );
+      return Number(info.lastInsertRowid);
+    },
+    // `gateway` filters the reads below; null/undefined means all gateways.
+    // types/tools/runIds/events are lists of accepted values; payloadFilters come from
+    // parsePayloadFilter(). Pages run newest first (or oldest first with order 'asc') and continue
+    // after `cursor` ({ ts, id } of the previous page's last row).
+    listEvents({ types, tools, runIds, events, sessionKeyLike, from, to, payloadFilters = [], cursor = null, order = 'desc', limit, gateway }) {
+      const where = [];
+      const params = [];
+      for (const [column, values] of [['type', types], ['tool', tools], ['runId', runIds], ['event', events]]) {
+        if (!values?.length) continue;
+        where.push(`${column} IN (SELECT value FROM json_each(?))`);
+        params.push(JSON.stringify(values));
+      }
+      const scalar = [
+        ['sessionKey LIKE ?', sessionKeyLike && sessionKeyLike.trim() ? `%${sessionKeyLike.trim()}%` : null],
+        ['gatewayId = ?', gateway ?? null],
+        ['ts >= ?', from ?? null],
+        ['ts <= ?', to ?? null]
+      ];
+      for (const [clause, value] of scalar) {
+        if (value === null) continue;
+        where.push(clause);
+        params.push(value);
+      }
+      for (const f of payloadFilters) {
+        where.push(`(${PAYLOAD_FILTER_SQL[f.op]})`);
+        if (f.op === 'exists') params.push(f.path);
+        else if (typeof f.value === 'number') params.push(f.path, f.path, f.value);
+        else params.push(f.path, f.value);
+      }
+      const asc = order === 'asc';
+      if (cursor) {
+        where.push(`(ts ${asc ? '>' : '<'} ? OR (ts = ? AND id ${asc ? '>' : '<'} ?))`);
+        params.push(cursor.ts, cursor.ts, cursor.id);
+      }
+      const lim = Math.max(1, Math.min(1000, Number(limit ?? 100) || 100));
+      const sql = `
+        SELECT id, ts, gatewayId, event, type, sessionKey, runId, tool, summary, redacted, payloadJson
+        FROM events
+        ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY ts ${asc ? 'ASC' : 'DESC'}, id ${asc ? 'ASC' : 'DESC'}
+        LIMIT ?
+      `;
+      return listEventsStmt(sql).all(...params, lim);
+    },
+    getEvent(id) {
+      return getEvent.get(Number(id)) ?? null;
+    },
+    searchEvents({ match, type, tool, session, run, event, from, to, limit, gateway }) {
+      const lim = Math.max(1, Math.min(500, Number(limit ?? 50)));
+      const args = [
+        match || null,
+        type ?? null,
+        tool ?? null,
+        session ? `%${session}%` : null,
+        run ?? null,
+        event ?? null,
+        from ?? null,
+        to ?? null,
+        lim,
+        gateway ?? null
+      ];
+      return match ? searchEventsFts.all(...args) : searchEventsPlain.all(...args);
+    },
+    // Newest `limit` events for a session, returned oldest-first (payloads omitted).
+    listSessionEvents(sessionKey, limit = 5000, gateway = null) {
+      const lim = Math.max(1, Math.min(20_000, Number(limit) || 5000));
+      return sessionEvents.all(sessionKey, lim, gateway).reverse();
     },
-    listEvents({ type, sessionKeyLike, limit }) {
-      const t = type && type.trim() ? type.trim() : null;
-      const s = sessionKeyLike && sessionKeyLike.trim() ? `%${sessionKeyLike.trim()}%` : null;
+    sessionEventStats(sessionKey, gateway = null) {
+      const row = sessionEventStats.get(sessionKey, gateway);
+      return { count: Number(row?.count ?? 0), firstTs: row?.firstTs ?? null, lastTs: row?.lastTs ?? null };
+    },
+    latestEventForSession(sessionKey, gateway = null) {
+      return latestEventForSession.get(sessionKey, gateway) ?? null;
+    },
+    listRuns({ from, to, session, status, limit, gateway }) {
       const lim = Math.max(1, Math.min(1000, Number(limit ?? 100)));
-      return query.all(t, s, lim);
+      return listRunsStmt.all(from ?? null, to ?? null, session ? `%${session}%` : null, status || null, null, lim, gateway ?? null);
+    },
+    // Without a gateway, the most recently started run with this id on any gateway.
+    runSummary(runId, gateway = null) {
+      return listRunsStmt.get(null, null, null, null, String(runId), 1, gateway) ?? null;
+    },
+    runEvents(runId, gatewayId, limit = 5000) {
+      return runEventsStmt.all(String(runId), Math.max(1, Math.min(20_000, Number(limit) || 5000)), gatewayId);
+    },
+    toolEvents({ gatewayIds, from, to, limit = 50_000 }) {
+      // Newest first under the limit, returned oldest first.
+      return toolEventsStmt.all(JSON.stringify(gatewayIds), from, to, Math.max(1, Math.min(200_000, Number(limit) || 50_000))).reverse();
+    },
+    insertAlert(a) {
+      const info = insertAlertStmt.run(
+        a.ruleId,
+        a.alertKey,
+        a.severity,
+        a.status,
+        a.message,
+        a.value ?? null,
+        a.firedAt,
+        a.lastSeenAt,
+        a.resolvedAt ?? null,
+        a.notifiedAt ?? null,
+        a.detail === undefined ? null : JSON.stringify(a.detail),
+        a.gatewayId ?? DEFAULT_GATEWAY_ID
+      );
+      return Number(info.lastInsertRowid);
+    },
+    updateAlert(a) {
+      updateAlertStmt.run(
+        a.id,
+        a.status,
+        a.message,
+        a.value ?? null,
+        a.lastSeenAt,
+        a.resolvedAt ?? null,
+        a.notifiedAt ?? null,
+        a.detail === undefined ? null : JSON.stringify(a.detail)
+      );
+    },
+    listAlerts({ status, ruleId, from, limit, gateway } = {}) {
+      const lim = Math.max(1, Math.min(1000, Number(limit ?? 200)));
+      return listAlertsStmt.all(status || null, ruleId || null, from ?? null, lim, gateway ?? null).map(({ detailJson, ...a }) => {
+        let detail = null;
+        try { detail = detailJson ? JSON.parse(detailJson) : null; } catch {}
+        return { ...a, detail };
+      });
+    },
+    insertAudit(a) {
+      const info = insertAuditStmt.run(
+        a.ts,
+        a.actor,
+        a.role ?? null,
+        a.ip ?? null,
+        a.gatewayId ?? null,
+        a.action,
+        a.target ?? null,
+        a.params === undefined || a.params === null ? null : JSON.stringify(a.params),
+        a.ok ? 1 : 0,
+        a.error ?? null,
+        a.durationMs ?? null
+      );
+      return Number(info.lastInsertRowid);
+    },
+    listAudit({ from, action, actor, gateway, limit } = {}) {
+      const lim = Math.max(1, Math.min(1000, Number(limit ?? 200)));
+      return listAuditStmt.all(from ?? null, action || null, actor || null, gateway ?? null, lim).map(({ paramsJson, ok, ...a }) => {
+        let params = null;
+        try { params = paramsJson ? JSON.parse(paramsJson) : null; } catch {}
+        return { ...a, ok: Boolean(ok), params };
+      });
+    },
+    // Inserts a run, or merges it into one already recorded within `toleranceMs` of the same start.
+    // -> { id, inserted }
+    upsertCronRun(r, toleranceMs = 5000) {
+      const existing = findCronRunStmt.get(r.gatewayId, r.jobId, r.runAt, toleranceMs);
+      if (existing) {
+        updateCronRunStmt.run(existing.id, r.jobName ?? null, r.durationMs ?? null, r.status, r.error ?? null);
+        return { id: Number(existing.id), inserted: false };
+      }
+      const info = insertCronRunStmt.run(
+        r.gatewayId,
+        r.jobId,
+        r.jobName ?? null,
+        r.runAt,
+        r.durationMs ?? null,
+        r.status,
+        r.error ?? null,
+        r.source,
+        Date.now()
+      );
+      return { id: Number(info.lastInsertRowid), inserted: true };
+    },
+    listCronRuns({ gateway, jobId, from, limit }) {
+      const lim = Math.max(1, Math.min(1000, Number(limit ?? 100)));
+      return listCronRunsStmt.all(gateway ?? null, String(jobId), from ?? null, lim);
+    },
+    // Days already stored are overwritten: the gateway keeps revising today's totals.
+    upsertUsageDays(gatewayId, days, { source, updatedAt = Date.now() }) {
+      db.exec('BEGIN');
+      try {
+        for (const d of days) {
+          upsertUsageDayStmt.run(gatewayId, d.date, d.input, d.output, d.cacheRead, d.cacheWrite, d.totalTokens,
+            d.inputCost, d.outputCost, d.cacheReadCost, d.cacheWriteCost, d.totalCost, source, updatedAt);
+        }
+        db.exec('COMMIT');
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+    },
+    listUsageDaily({ gatewayIds, from }) {
+      return listUsageDailyStmt.all(JSON.stringify(gatewayIds), from);
+    },
+    insertRateLimitSample(r) {
+      const info = insertRateLimitSampleStmt.run(
+        r.ts,
+        r.gatewayId,
+        r.provider ?? null,
+        r.model ?? null,
+        r.kind,
+        r.status ?? null,
+        r.retryAfterMs ?? null,
+        r.requests?.limit ?? null,
+        r.requests?.remaining ?? null,
+        r.requests?.resetAt ?? null,
+        r.tokens?.limit ?? null,
+        r.tokens?.remaining ?? null,
+        r.tokens?.resetAt ?? null,
+        r.message ?? null,
+        r.eventId ?? null
+      );
+      return Number(info.lastInsertRowid);
+    },
+    rateLimitStats({ gatewayIds, from }) {
+      return rateLimitStatsStmt.all(JSON.stringify(gatewayIds), from);
+    },
+    latestRateLimitSamples({ gatewayIds, from }) {
+      return latestRateLimitSamplesStmt.all(JSON.stringify(gatewayIds), from);
+    },
+    rateLimitHistory({ gatewayIds, from, bucketMs }) {
+      return rateLimitHistoryStmt.all(JSON.stringify(gatewayIds), from, Math.max(1, Math.round(bucketMs)));
+    },
+    pruneRateLimitSamples({ before, limit }) {
+      return Number(pruneRateLimitSamplesStmt.run(before, limit).changes);
+    },
+    insertModelOutcome(o) {
+      const info = insertModelOutcomeStmt.run(
+        o.ts,
+        o.gatewayId,
+        o.runId ?? null,
+        o.sessionKey ?? null,
+        o.provider ?? null,
+        o.model ?? null,
+        o.outcome,
+        o.errorKind ?? null,
+        o.message ?? null,
+        o.toModel ?? null,
+        o.source,
+        o.eventId ?? null
+      );
+      return Number(info.lastInsertRowid);
+    },
+    modelOutcomeStats({ gatewayIds, from }) {
+      const ids = JSON.stringify(gatewayIds);
+      const failoversIn = new Map(modelFailoversInStmt.all(ids, from).map((r) => [r.model, Number(r.n)]));
+      return modelOutcomeStatsStmt.all(ids, from).map((s) => {
+        const ok = Number(s.ok ?? 0);
+        const errors = Number(s.errors ?? 0);
+        return {
+          ...s,
+          ok,
+          errors,
+          retries: Number(s.retries ?? 0),
+          failovers: Number(s.failovers ?? 0),
+          failoversIn: failoversIn.get(s.model) ?? 0,
+          errorRate: ok + errors ? Number((errors / (ok + errors)).toFixed(4)) : null
+        };
+      });
+    },
+    modelFailoverTransitions({ gatewayIds, from }) {
+      return modelFailoverTransitionsStmt.all(JSON.stringify(gatewayIds), from)
+        .map((t) => ({ ...t, failovers: Number(t.failovers), recovered: Number(t.recovered ?? 0) }));
+    },
+    topModelErrors({ gatewayIds, from, limit = 10 }) {
+      return topModelErrorsStmt.all(JSON.stringify(gatewayIds), from, limit).map(({ modelsJson, n, ...e }) => {
+        let models = [];
+        try { models = JSON.parse(modelsJson).filter(Boolean); } catch {}
+        return { ...e, count: Number(n), models };
+      });
+    },
+    modelOutcomeTimeline({ gatewayIds, from, bucketMs }) {
+      return modelOutcomeTimelineStmt.all(JSON.stringify(gatewayIds), from, Math.max(1, Math.round(bucketMs)));
+    },
+    pruneModelOutcomes({ before, limit }) {
+      return Number(pruneModelOutcomesStmt.run(before, limit).changes);
+    },
+    pruneAlerts({ before, limit }) {
+      return Number(pruneAlertsStmt.run(before, limit).changes);
+    },
+    // Per-job outcome counts since `from`; successRate leaves missed runs in the denominator.
+    cronRunStats({ gateway, from }) {
+      return cronRunStatsStmt.all(gateway ?? null, from ?? 0).map((s) => {
+        const total = Number(s.total);
+        return {
+          ...s,
+          total,
+          ok: Number(s.ok ?? 0),
+          error: Number(s.error ?? 0),
+          missed: Number(s.missed ?? 0),
+          avgDurationMs: s.avgDurationMs === null ? null : Math.round(s.avgDurationMs),
+          successRate: total ? Number((Number(s.ok ?? 0) / total).toFixed(4)) : null
+        };
+      });
+    },
+    // The prune/trim methods delete at most `limit` rows per call; RetentionJob repeats them.
+    pruneEvents({ before, type = null, excludeTypes = [], limit }) {
+      return Number(pruneEventsStmt.run(before, type, JSON.stringify(excludeTypes), limit).changes);
     },
-    insertSnapshot({ ts, kind, payloadJson }) {
-      insertSnap.run(ts, kind, payloadJson);
+    trimEvents(maxRows, limit) {
+      return Number(trimEventsStmt.run(Math.max(0, Math.floor(maxRows)), limit).changes);
     },
-    latestSnapshot(kind) {
-      return latestSnap.get(kind) ?? null;
+    // Rewrites the whole file and blocks until done; RetentionJob decides when that is worth it.
+    compact() {
+      db.exec(`
+        INSERT INTO events_fts(events_fts) VALUES ('optimize');
+        INSERT INTO snapshot_items_fts(snapshot_items_fts) VALUES ('optimize');
+        VACUUM;
+        PRAGMA wal_checkpoint(TRUNCATE);
+      `);
     },
-    latestEventForSession(sessionKey) {
-      return latestEventForSession.get(sessionKey) ?? null;
+    storageStats() {
+      const { pageSize, pageCount, freePages } = pageStats();
+      const range = (table) => db.prepare(`SELECT MIN(ts) AS oldest, MAX(ts) AS newest FROM ${table}`).get();
+      return {
+        path: dbPath,
+        bytes: {
+          db: fileSize(dbPath),
+          wal: fileSize(`${dbPath}-wal`),
+          used: (pageCount - freePages) * pageSize,
+          free: freePages * pageSize
+        },
+        tables: {
+          events: { rows: countRows('events'), ...range('events') },
+          snapshots: { rows: countRows('snapshots'), ...range('snapshots') },
+          auditLog: { rows: countRows('audit_log'), ...range('audit_log') },
+          cronRuns: {
+            rows: countRows('cron_runs'),
+            ...db.prepare(`SELECT MIN(runAt) AS oldest, MAX(runAt) AS newest FROM cron_runs`).get()
+          },
+          usageDaily: {
+            rows: countRows('usage_daily'),
+            ...db.prepare(`
+              SELECT unixepoch(MIN(date)) * 1000 AS oldest, unixepoch(MAX(date)) * 1000 AS newest FROM usage_daily
+            `).get()
+          },
+          rateLimitSamples: { rows: countRows('rate_limit_samples'), ...range('rate_limit_samples') },
+          modelOutcomes: { rows: countRows('model_outcomes'), ...range('model_outcomes') },
+          alerts: {
+            rows: countRows('alerts'),
+            ...db.prepare(`SELECT MIN(firedAt) AS oldest, MAX(firedAt) AS newest FROM alerts`).get()
+          },
+          snapshotItems: {
+            rows: countRows('snapshot_items'),
+            ...db.prepare(`SELECT MIN(validFrom) AS oldest, MAX(validFrom) AS newest FROM snapshot_items`).get()
+          }
+        },
+        eventsByType: db.prepare(`SELECT type, COUNT(*) AS rows FROM events GROUP BY type ORDER BY rows DESC`).all(),
+        eventsByGateway: db.prepare(`SELECT gatewayId, COUNT(*) AS rows FROM events GROUP BY gatewayId ORDER BY rows DESC`).all(),
+        snapshotsByKind: db.prepare(`SELECT kind, COUNT(*) AS rows FROM snapshots GROUP BY kind ORDER BY rows DESC`).all()
+      };
     }
   };
 }
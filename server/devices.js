@@ -0,0 +1,70 @@
+// Shapes `device.pair.list` into what the Devices tab shows. Field names have moved between gateway
+// versions, and token entries are reduced to metadata so no token value ever leaves the server.
+
+const ms = (...values) => {
+  for (const v of values) {
+    const n = Number(v);
+    if (Number.isFinite(n) && n > 0) return n;
+  }
+  return null;
+};
+
+const list = (v) => (Array.isArray(v) ? v : []);
+
+function scopesOf(x) {
+  return list(x?.scopes).map(String);
+}
+
+function tokenSummary(t, role) {
+  return {
+    role: t?.role ?? role ?? null,
+    scopes: scopesOf(t),
+    createdAt: ms(t?.createdAtMs, t?.createdAt),
+    rotatedAt: ms(t?.rotatedAtMs),
+    lastUsedAt: ms(t?.lastUsedAtMs, t?.lastUsedAt),
+    revokedAt: ms(t?.revokedAtMs, t?.revokedAt)
+  };
+}
+
+function pairedDevice(d) {
+  // Tokens come as an array or as a { role: token } map.
+  const tokens = Array.isArray(d?.tokens)
+    ? d.tokens.map((t) => tokenSummary(t))
+    : Object.entries(d?.tokens ?? {}).map(([role, t]) => tokenSummary(t, role));
+  const roles = list(d?.roles).length ? list(d.roles).map(String) : [...new Set([d?.role, ...tokens.map((t) => t.role)].filter(Boolean))];
+  return {
+    deviceId: String(d?.deviceId ?? d?.id ?? ''),
+    displayName: d?.displayName ?? d?.name ?? null,
+    platform: d?.platform ?? null,
+    clientId: d?.clientId ?? null,
+    clientMode: d?.clientMode ?? null,
+    roles,
+    scopes: [...new Set([...scopesOf(d), ...tokens.filter((t) => !t.revokedAt).flatMap((t) => t.scopes)])].sort(),
+    tokens,
+    pairedAt: ms(d?.approvedAtMs, d?.pairedAtMs, d?.createdAtMs),
+    lastSeenAt: ms(d?.lastSeenAtMs, d?.lastSeenAt, ...tokens.map((t) => t.lastUsedAt).sort((a, b) => (b ?? 0) - (a ?? 0))),
+    remoteIp: d?.remoteIp ?? d?.lastRemoteIp ?? null
+  };
+}
+
+function pendingRequest(r) {
+  return {
+    requestId: String(r?.requestId ?? r?.id ?? ''),
+    deviceId: r?.deviceId ?? null,
+    displayName: r?.displayName ?? r?.name ?? null,
+    platform: r?.platform ?? null,
+    clientId: r?.clientId ?? null,
+    clientMode: r?.clientMode ?? null,
+    role: r?.role ?? null,
+    scopes: scopesOf(r),
+    remoteIp: r?.remoteIp ?? null,
+    requestedAt: ms(r?.ts, r?.createdAtMs, r?.requestedAtMs)
+  };
+}
+
+export function normalizePairingList(payload) {
+  return {
+    pending: list(payload?.pending ?? payload?.requests).map(pendingRequest).filter((r) => r.requestId),
+    paired: list(payload?.paired ?? payload?.devices).map(pairedDevice).filter((d) => d.deviceId)
+  };
+}
@@ -1,7 +1,7 @@
 import WebSocket from 'ws';
 import crypto from 'node:crypto';
 import os from 'node:os';
-import { readFileSync, writeFileSync, mkdirSync, existsSync, chmodSync } from 'node:fs';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, chmodSync, renameSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 
 function rid() {
@@ -10,6 +10,9 @@ function rid() {
 
 const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
 
+const ROLE = 'operator';
+const SCOPES = ['operator.admin', 'operator.approvals', 'operator.pairing'];
+
 function b64urlEncode(buf) {
   return Buffer.from(buf).toString('base64').replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/g, '');
 }
@@ -88,25 +91,35 @@ class DeviceIdentityStore {
           return {
             deviceId: parsed.deviceId,
             publicKeyPem: parsed.publicKeyPem,
-            privateKeyPem: parsed.privateKeyPem
+            privateKeyPem: parsed.privateKeyPem,
+            createdAtMs: parsed.createdAtMs ?? null
           };
         }
       }
     } catch {}
 
+    return this.createIdentity();
+  }
+
+  // Writes a fresh keypair; the previous identity file (if any) is kept as device.json.bak.
+  createIdentity() {
+    if (existsSync(this.filePath)) {
+      try { renameSync(this.filePath, `${this.filePath}.bak`); } catch {}
+    }
     const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
     const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
     const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
     const deviceId = fingerprintPublicKey(publicKeyPem);
+    const createdAtMs = Date.now();
 
     mkdirSync(dirname(this.filePath), { recursive: true });
     writeFileSync(
       this.filePath,
-      `${JSON.stringify({ version: 1, deviceId, publicKeyPem, privateKeyPem, createdAtMs: Date.now() }, null, 2)}\n`,
+      `${JSON.stringify({ version: 1, deviceId, publicKeyPem, privateKeyPem, createdAtMs }, null, 2)}\n`,
       { mode: 0o600 }
     );
     try { chmodSync(this.filePath, 0o600); } catch {}
-    return { deviceId, publicKeyPem, privateKeyPem };
+    return { deviceId, publicKeyPem, privateKeyPem, createdAtMs };
   }
 }
 
@@ -133,11 +146,19 @@ class DeviceTokenStore {
   }
 
   load(deviceId, role) {
+    return this.entry(deviceId, role)?.token ?? null;
+  }
+
+  entry(deviceId, role) {
     const s = this._read();
     if (!s || s.deviceId !== deviceId) return null;
     const entry = s.tokens?.[role];
     if (!entry || typeof entry.token !== 'string') return null;
-    return entry.token;
+    return entry;
+  }
+
+  clear() {
+    if (existsSync(this.filePath)) this._write({ version: 1, deviceId: null, tokens: {} });
   }
 
   save(deviceId, role, token, scopes) {
@@ -170,12 +191,42 @@ export class GatewayWs {
     this.connected = false;
 
     this._reconnectTimer = null;
+    this.reconnectAttempts = 0;
     this._connectSent = false;
     this._connectNonce = null;
 
     this._identityStore = new DeviceIdentityStore(join(stateDir, 'identity', 'device.json'));
     this._tokenStore = new DeviceTokenStore(join(stateDir, 'identity', 'device-auth.json'));
     this._identity = this._identityStore.loadOrCreateIdentity();
+    // Scopes the gateway granted in the last hello (null until connected).
+    this.grantedScopes = null;
+  }
+
+  // This monitor's device identity as the gateway sees it; never includes key material or tokens.
+  identityInfo() {
+    const raw = derivePublicKeyRaw(this._identity.publicKeyPem);
+    const token = this._tokenStore.entry(this._identity.deviceId, ROLE);
+    return {
+      deviceId: this._identity.deviceId,
+      publicKey: b64urlEncode(raw),
+      fingerprint: `SHA256:${crypto.createHash('sha256').update(raw).digest('base64').replace(/=+$/g, '')}`,
+      createdAtMs: this._identity.createdAtMs ?? null,
+      role: ROLE,
+      requestedScopes: SCOPES,
+      grantedScopes: this.grantedScopes,
+      deviceToken: token ? { scopes: token.scopes ?? [], updatedAtMs: token.updatedAtMs ?? null } : null
+    };
+  }
+
+  // Switches to a new keypair and forgets issued device tokens, then reconnects as the new device,
+  // which the gateway has to pair again.
+  rotateIdentity() {
+    const previous = this._identity.deviceId;
+    this._identity = this._identityStore.createIdentity();
+    this._tokenStore.clear();
+    this.grantedScopes = null;
+    try { this.ws?.close(4001, 'identity rotated'); } catch {}
+    return { previousDeviceId: previous, ...this.identityInfo() };
   }
 
   start() {
@@ -194,14 +245,26 @@ export class GatewayWs {
     this.pending.clear();
   }
 
-  request(method, params) {
+  // timeoutMs (optional) rejects and forgets the request if the gateway never answers.
+  request(method, params, { timeoutMs = 0 } = {}) {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       return Promise.reject(new Error('gateway not connected'));
     }
     const id = rid();
     const msg = { type: 'req', id, method, params };
     const p = new Promise((resolve, reject) => {
-      this.pending.set(id, { resolve, reject });
+      let timer = null;
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`${method} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+      const done = (fn) => (v) => {
+        if (timer) clearTimeout(timer);
+        fn(v);
+      };
+      this.pending.set(id, { resolve: done(resolve), reject: done(reject) });
     });
     this.ws.send(JSON.stringify(msg));
     return p;
@@ -211,8 +274,8 @@ export class GatewayWs {
     if (this._connectSent) return;
     this._connectSent = true;
 
-    const role = 'operator';
-    const scopes = ['operator.admin', 'operator.approvals', 'operator.pairing'];
+    const role = ROLE;
+    const scopes = SCOPES;
     const clientId = 'openclaw-control-ui';
     const clientMode = 'webchat';
 
@@ -270,6 +333,7 @@ export class GatewayWs {
       const hello = await this.request('connect', params);
       const issuedToken = hello?.auth?.deviceToken;
       if (issuedToken) this._tokenStore.save(this._identity.deviceId, role, issuedToken, hello?.auth?.scopes ?? scopes);
+      this.grantedScopes = Array.isArray(hello?.auth?.scopes) ? hello.auth.scopes : scopes;
       this.connected = true;
       this._connectNonce = null;
       this.onStatus?.({ connected: true });
@@ -339,6 +403,7 @@ export class GatewayWs {
     if (this._reconnectTimer) return;
     this._reconnectTimer = setTimeout(() => {
       this._reconnectTimer = null;
+      this.reconnectAttempts += 1;
       this._connect();
     }, 1000);
   }
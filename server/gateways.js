@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// Rows written before multi-gateway support (and single-gateway installs) use this id.
+export const DEFAULT_GATEWAY_ID = 'default';
+
+const GATEWAY_ID_RE = /^[A-Za-z0-9_.-]{1,64}$/;
+
+const defaultStateDir = () => join(process.env.HOME || '.', '.openclaw', 'monitor-dashboard');
+
+export function loadOpenclawConfig() {
+  // Allow overrides so this repo is usable outside of an OpenClaw host.
+  const envUrl = process.env.OPENCLAW_GATEWAY_URL || process.env.GATEWAY_URL || null;
+  const envToken = process.env.OPENCLAW_GATEWAY_TOKEN || process.env.GATEWAY_TOKEN || null;
+
+  // If explicitly set, don't attempt to read ~/.openclaw/openclaw.json.
+  if (envUrl) {
+    return {
+      token: envToken,
+      url: envUrl,
+      cfg: null
+    };
+  }
+
+  const p = join(process.env.HOME, '.openclaw', 'openclaw.json');
+  const raw = readFileSync(p, 'utf8');
+  const cfg = JSON.parse(raw);
+  const token = envToken ?? (cfg?.gateway?.auth?.token ?? null);
+  const port = cfg?.gateway?.port ?? 18789;
+  const bind = cfg?.gateway?.bind ?? 'loopback';
+  const host = bind === 'loopback' ? '127.0.0.1' : '127.0.0.1';
+  const url = `ws://${host}:${port}`;
+  return { token, url, cfg };
+}
+
+function parseGateway(g, i) {
+  const id = String(g?.id ?? '').trim();
+  if (!GATEWAY_ID_RE.test(id)) throw new Error(`gateways[${i}]: id must match ${GATEWAY_ID_RE}`);
+  if (!g.url) throw new Error(`gateways[${i}] (${id}): url is required`);
+  const token = g.tokenEnv ? (process.env[g.tokenEnv] ?? null) : (g.token ?? null);
+  return {
+    id,
+    name: String(g.name || id),
+    url: String(g.url),
+    token,
+    // Each gateway pairs as its own device, so identities must not be shared.
+    stateDir: g.stateDir || (id === DEFAULT_GATEWAY_ID ? defaultStateDir() : join(defaultStateDir(), 'gateways', id)),
+    cfg: null
+  };
+}
+
+// Reads server/gateways.json (MONITOR_GATEWAYS_CONFIG overrides the path). Without one, the local
+// gateway from ~/.openclaw/openclaw.json (or OPENCLAW_GATEWAY_URL) is the only gateway.
+export function loadGateways(rootDir) {
+  const p = process.env.MONITOR_GATEWAYS_CONFIG || join(rootDir, 'server', 'gateways.json');
+  let raw = null;
+  try {
+    raw = readFileSync(p, 'utf8');
+  } catch {
+    const { token, url, cfg } = loadOpenclawConfig();
+    return [{ id: DEFAULT_GATEWAY_ID, name: 'local', url, token, stateDir: defaultStateDir(), cfg }];
+  }
+
+  const list = JSON.parse(raw)?.gateways;
+  if (!Array.isArray(list) || !list.length) throw new Error(`${p}: "gateways" must be a non-empty array`);
+  const gateways = list.map(parseGateway);
+  const seen = new Set();
+  for (const g of gateways) {
+    if (seen.has(g.id)) throw new Error(`${p}: duplicate gateway id "${g.id}"`);
+    seen.add(g.id);
+  }
+  return gateways;
+}
@@ -0,0 +1,16 @@
+// Prints an scrypt hash for a users[].passwordHash entry in server/auth.json.
+// Usage: npm run hash-password   (reads the password from stdin)
+import { createInterface } from 'node:readline';
+
+import { hashPassword } from './auth.js';
+
+const rl = createInterface({ input: process.stdin, output: process.stderr, terminal: false });
+process.stderr.write('password: ');
+rl.once('line', (line) => {
+  rl.close();
+  if (!line) {
+    console.error('empty password');
+    process.exit(1);
+  }
+  console.log(hashPassword(line));
+});
@@ -0,0 +1,58 @@
+// Bucketed time series over snapshot item versions (see snapshotStore.itemHistory).
+
+const NICE_BUCKETS_MS = [
+  5_000, 15_000, 30_000, 60_000, 2 * 60_000, 5 * 60_000, 10 * 60_000, 15 * 60_000, 30 * 60_000,
+  3_600_000, 2 * 3_600_000, 3 * 3_600_000, 6 * 3_600_000, 12 * 3_600_000, 86_400_000
+];
+
+export function pickBucketMs(rangeMs, maxBuckets = 120) {
+  const target = rangeMs / maxBuckets;
+  return NICE_BUCKETS_MS.find((b) => b >= target) ?? NICE_BUCKETS_MS[NICE_BUCKETS_MS.length - 1];
+}
+
+function finite(v) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export const SESSION_SERIES = {
+  totalTokens: (s) => finite(s?.totalTokens),
+  contextTokens: (s) => finite(s?.contextTokens),
+  pressure: (s) => finite(s?.drift?.pressure),
+  cost: (s) => finite(s?.drift?.cost)
+};
+
+// versions: [{ validFrom, validTo, item }] sorted by validFrom, non-overlapping.
+// Each bucket reports the value in effect at its end (`field`) and the peak inside it (`fieldMax`).
+// Buckets where the item did not exist yet (or anymore) are null.
+export function bucketSeries(versions, { from, to, bucketMs, fields = SESSION_SERIES }) {
+  const start = Math.floor(from / bucketMs) * bucketMs;
+  const buckets = [];
+  let i = 0;
+
+  for (let b = start; b < to; b += bucketMs) {
+    const end = Math.min(b + bucketMs, to);
+    while (i < versions.length && versions[i].validTo !== null && versions[i].validTo <= b) i++;
+
+    const point = { ts: b };
+    let last = null;
+    const overlapping = [];
+    for (let j = i; j < versions.length && versions[j].validFrom < end; j++) {
+      overlapping.push(versions[j]);
+      if (versions[j].validTo === null || versions[j].validTo >= end) last = versions[j];
+    }
+
+    for (const [name, pick] of Object.entries(fields)) {
+      point[name] = last ? pick(last.item) : null;
+      let max = null;
+      for (const v of overlapping) {
+        const n = pick(v.item);
+        if (n !== null && (max === null || n > max)) max = n;
+      }
+      point[`${name}Max`] = max;
+    }
+    buckets.push(point);
+  }
+
+  return buckets;
+}
@@ -1,106 +1,279 @@
 import http from 'node:http';
-import { execFile } from 'node:child_process';
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { promisify } from 'node:util';
 
-import { openDb } from './db.js';
+import { ACTIONS, ActionRunner } from './actions.js';
+import { AlertEngine, spendFromUsageCost } from './alerts.js';
+import { APPROVAL_REQUESTED, APPROVAL_RESOLVED, ApprovalQueue, approvalSummary } from './approvals.js';
+import { AuthManager, hasRole, isLoopback } from './auth.js';
+import { BudgetEngine } from './budgets.js';
+import { CronRunTracker } from './cronRuns.js';
+import { DEFAULT_DURATION_MS, expandSchedule, findCollisions } from './cronSchedule.js';
+import { openDb, HIGHLIGHT_END, HIGHLIGHT_START } from './db.js';
+import { normalizePairingList } from './devices.js';
+import { loadGateways } from './gateways.js';
 import { GatewayWs } from './gatewayWs.js';
+import { bucketSeries, pickBucketMs } from './history.js';
+import {
+  counter,
+  Counter,
+  cronFamilies,
+  gauge,
+  Histogram,
+  METRICS_CONTENT_TYPE,
+  rateLimitFamilies,
+  renderMetrics,
+  sessionFamilies,
+  usageCostFamilies
+} from './metrics.js';
+import { ModelOutcomeTracker } from './modelOutcomes.js';
+import { OtlpExporter } from './otel.js';
 import { Poller } from './poller.js';
+import { PricingEngine } from './pricing.js';
+import { RateLimitTracker } from './rateLimits.js';
+import { loadHashSecret, Redactor } from './redact.js';
+import { RetentionJob } from './retention.js';
+import { buildRun } from './runs.js';
+import { parseDuration, parseEventCursor, parsePayloadFilter, parseSearchQuery, parseTime, toFtsMatch } from './search.js';
+import { StreamHub } from './stream.js';
+import { toolStats } from './tools.js';
+import { UsageCostCollector } from './usageCost.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = join(__filename, '..');
 const projectRoot = join(__dirname, '..');
-const execFileAsync = promisify(execFile);
-
-function loadOpenclawConfig() {
-  // Allow overrides so this repo is usable outside of an OpenClaw host.
-  const envUrl = process.env.OPENCLAW_GATEWAY_URL || process.env.GATEWAY_URL || null;
-  const envToken = process.env.OPENCLAW_GATEWAY_TOKEN || process.env.GATEWAY_TOKEN || null;
-
-  // If explicitly set, don't attempt to read ~/.openclaw/openclaw.json.
-  if (envUrl) {
-    return {
-      token: envToken,
-      url: envUrl,
-      cfg: null
-    };
-  }
 
-  const p = join(process.env.HOME, '.openclaw', 'openclaw.json');
-  const raw = readFileSync(p, 'utf8');
-  const cfg = JSON.parse(raw);
-  const token = envToken ?? (cfg?.gateway?.auth?.token ?? null);
-  const port = cfg?.gateway?.port ?? 18789;
-  const bind = cfg?.gateway?.bind ?? 'loopback';
-  const host = bind === 'loopback' ? '127.0.0.1' : '127.0.0.1';
-  const url = `ws://${host}:${port}`;
-  return { token, url, cfg };
+const HOST = process.env.MONITOR_HOST || '127.0.0.1';
+const auth = new AuthManager({ config: AuthManager.loadConfig(projectRoot), bindHost: HOST });
+// The API exposes prompts and tool output and the gateway link has operator.admin scopes.
+if (!isLoopback(HOST) && !auth.enabled) {
+  throw new Error(`refusing to listen on ${HOST} without auth; configure server/auth.json or MONITOR_AUTH_TOKEN`);
 }
 
-const { token, url: gatewayUrl, cfg } = loadOpenclawConfig();
-const { insertEvent, listEvents, insertSnapshot, latestSnapshot, latestEventForSession } = openDb(projectRoot);
-
-const usageCostCache = {
-  ts: 0,
-  data: null,
-  error: null,
-  inFlight: null
-};
+const gatewayConfigs = loadGateways(projectRoot);
+// Model catalog and version info come from the local openclaw.json when the first gateway was read from it.
+const cfg = gatewayConfigs[0].cfg;
+const store = openDb(projectRoot);
+const redactionConfig = Redactor.loadConfig(projectRoot);
+const redactor = new Redactor({ config: redactionConfig, secret: loadHashSecret(projectRoot, redactionConfig.hashSecretEnv) });
+const {
+  insertEvent,
+  listEvents,
+  getEvent,
+  searchEvents,
+  searchSnapshots,
+  insertSnapshot,
+  latestSnapshot,
+  snapshotAt,
+  itemHistory,
+  listSessionEvents,
+  sessionEventStats,
+  latestEventForSession,
+  listRuns,
+  runSummary,
+  runEvents,
+  listAlerts,
+  listAudit
+} = store;
 
 const state = {
   startedAt: Date.now(),
-  gatewayConnected: false,
-  gatewayConnectedSince: null,
-  gatewayTotalConnectedMs: 0,
-  gatewayError: null,
-  gatewayUrl,
-  openclawVersion: cfg?.meta?.lastTouchedVersion ?? null,
   updateAvailable: null
 };
 
-function readOpenclawConfigFile() {
-  const p = join(process.env.HOME ?? '', '.openclaw', 'openclaw.json');
-  const raw = readFileSync(p, 'utf8');
-  return JSON.parse(raw);
+// One runtime per monitored gateway (connection, poller, uptime bookkeeping), in config order.
+const gateways = new Map();
+const primaryGatewayId = gatewayConfigs[0].id;
+
+const metrics = {
+  events: new Counter('openclaw_monitor_events_total', 'Gateway events received, by type and tool.', ['gateway', 'type', 'tool']),
+  gatewayConnects: new Counter('openclaw_gateway_connects_total', 'Successful gateway handshakes.', ['gateway']),
+  gatewayDisconnects: new Counter('openclaw_gateway_disconnects_total', 'Transitions from connected to disconnected.', ['gateway']),
+  cronRuns: new Counter('openclaw_cron_runs_total', 'Cron job runs recorded, by outcome (ok, error, missed, ...).', ['gateway', 'job', 'status']),
+  modelOutcomes: new Counter('openclaw_model_outcomes_total', 'Model attempt outcomes seen in chat/agent events (ok, error, retry, failover).', ['gateway', 'provider', 'model', 'outcome']),
+  rateLimitEvents: new Counter('openclaw_rate_limit_events_total', 'Throttles and model failovers seen in gateway events.', ['gateway', 'provider', 'model', 'kind']),
+  eventConsumerErrors: new Counter('openclaw_monitor_event_consumer_errors_total', 'Gateway events a consumer (store, rate limits, ...) failed to process.', ['gateway', 'consumer']),
+  pollerRequests: new Counter('openclaw_monitor_poller_requests_total', 'Gateway requests made by the poller.', ['gateway', 'method', 'result']),
+  pollerLatency: new Histogram(
+    'openclaw_monitor_poller_request_duration_seconds',
+    'Latency of poller requests to the gateway.',
+    ['gateway', 'method']
+  )
+};
+
+function gatewayConnectedMs(g, now) {
+  return g.connected
+    ? g.totalConnectedMs + (now - (g.connectedSince ?? now))
+    : g.totalConnectedMs;
 }
 
-async function getUsageCost() {
-  const now = Date.now();
-  const maxAgeMs = 60_000;
+function gatewaySummary(g) {
+  return { id: g.id, name: g.name, url: g.url, connected: g.connected, error: g.error, openclawVersion: g.openclawVersion };
+}
+
+function statusPayload() {
+  const list = [...gateways.values()];
+  const primary = gateways.get(primaryGatewayId);
+  const failing = list.find((g) => g.error);
+  return {
+    ok: true,
+    // The top-level fields summarise every gateway: connected only while all of them are.
+    gatewayConnected: list.length > 0 && list.every((g) => g.connected),
+    gatewayUrl: primary?.url ?? null,
+    gatewayError: failing ? (list.length > 1 ? `${failing.name}: ${failing.error}` : failing.error) : null,
+    openclawVersion: primary?.openclawVersion ?? null,
+    updateAvailable: state.updateAvailable,
+    gateways: list.map(gatewaySummary),
+    now: Date.now()
+  };
+}
+
+function latestSnapshotFull(kind, gatewayId) {
+  const snap = latestSnapshot(kind, gatewayId);
+  if (!snap) return undefined;
+  try { return { ts: snap.ts, full: JSON.parse(snap.payloadJson) }; } catch { return undefined; }
+}
 
-  if (usageCostCache.data && (now - usageCostCache.ts) < maxAgeMs) {
-    return { ok: true, cached: true, stale: false, data: usageCostCache.data, error: null };
+function cronJobsOf(payload) {
+  return Array.isArray(payload?.jobs) ? payload.jobs : (Array.isArray(payload) ? payload : []);
+}
+
+// Snapshot data streams per gateway (`sessions@<id>`); the bare `sessions`/`cron` topics only
+// announce that some gateway's snapshot changed.
+const snapshotTopic = (kind, gatewayId) => `${kind}@${gatewayId}`;
+
+const stream = new StreamHub({
+  authorize: (req) => Boolean(auth.authenticate(req)),
+  allowOrigin: (req) => auth.checkHost(req) === null && auth.checkOrigin(req) === null,
+  initial: (topic) => {
+    if (topic === 'status') return statusPayload();
+    const [kind, gatewayId] = topic.split('@');
+    if ((kind === 'sessions' || kind === 'cron') && gateways.has(gatewayId)) return latestSnapshotFull(kind, gatewayId);
+    return undefined;
   }
+});
 
-  if (usageCostCache.inFlight) return usageCostCache.inFlight;
+function readModelMetadata() {
+  try {
+    return JSON.parse(readFileSync(join(projectRoot, 'src', 'model-metadata.json'), 'utf8'));
+  } catch {
+    return null;
+  }
+}
 
-  usageCostCache.inFlight = (async () => {
-    try {
-      const openclawPath = process.env.OPENCLAW_BIN || '/home/rev/.npm-global/bin/openclaw';
-      const { stdout } = await execFileAsync(openclawPath, ['gateway', 'usage-cost', '--json'], {
-        timeout: 10_000,
-        maxBuffer: 1024 * 1024
-      });
-      const parsed = JSON.parse(stdout.trim() || '{}');
-      usageCostCache.ts = Date.now();
-      usageCostCache.data = parsed;
-      usageCostCache.error = null;
-      return { ok: true, cached: false, stale: false, data: parsed, error: null };
-    } catch (err) {
-      const msg = String(err?.message ?? err);
-      usageCostCache.error = msg;
-      if (usageCostCache.data) {
-        return { ok: true, cached: true, stale: true, data: usageCostCache.data, error: msg };
-      }
-      return { ok: false, cached: false, stale: true, data: null, error: msg };
-    } finally {
-      usageCostCache.inFlight = null;
+function readPackageVersion() {
+  try {
+    return JSON.parse(readFileSync(join(projectRoot, 'package.json'), 'utf8')).version ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const otel = OtlpExporter.fromEnv({ serviceVersion: readPackageVersion() });
+otel?.start();
+
+const actions = new ActionRunner({
+  insertAudit: store.insertAudit,
+  onAudit: (entry) => stream.publish('audit', entry)
+});
+
+const cronRuns = new CronRunTracker({
+  store,
+  onRun: (run) => {
+    metrics.cronRuns.inc({ gateway: run.gatewayId, job: run.jobName ?? run.jobId, status: run.status });
+    stream.publish('cronRuns', run);
+  }
+});
+
+const rateLimits = new RateLimitTracker({
+  store,
+  metadata: readModelMetadata(),
+  onSample: (sample) => {
+    if (sample.kind !== 'quota') {
+      metrics.rateLimitEvents.inc({ gateway: sample.gatewayId, provider: sample.provider ?? '', model: sample.model ?? '', kind: sample.kind });
     }
-  })();
+    stream.publish('rateLimits', sample);
+  }
+});
+
+const modelOutcomes = new ModelOutcomeTracker({
+  store,
+  onOutcome: (o) => {
+    metrics.modelOutcomes.inc({ gateway: o.gatewayId, provider: o.provider ?? '', model: o.model ?? '', outcome: o.outcome });
+    stream.publish('modelOutcomes', o);
+  }
+});
 
-  return usageCostCache.inFlight;
+const approvals = new ApprovalQueue({
+  onChange: (gatewayId) => {
+    stream.publish('approvals', { gatewayId, ts: Date.now() });
+    alerts.update({ approvals: approvals.list(gatewayId) }, gatewayId);
+  }
+});
+
+const alerts = new AlertEngine({
+  store,
+  config: AlertEngine.loadConfig(projectRoot),
+  metadata: readModelMetadata(),
+  gateways: gatewayConfigs.map((g) => ({ id: g.id, name: g.name })),
+  onChange: (alert) => stream.publish('alerts', alert)
+});
+
+// Session lists across all gateways, now (ts null) or as of a past time; budgets need both.
+function sessionsAt(ts) {
+  const sessions = [];
+  let complete = true;
+  for (const id of gateways.keys()) {
+    let payload = null;
+    if (ts === null) {
+      payload = latestSnapshotFull('sessions', id)?.full ?? null;
+    } else {
+      const snap = snapshotAt('sessions', ts, id);
+      if (!snap && latestSnapshot('sessions', id)) complete = false;
+      try { payload = snap ? JSON.parse(snap.payloadJson) : null; } catch { payload = null; }
+    }
+    for (const s of Array.isArray(payload?.sessions) ? payload.sessions : []) sessions.push({ ...s, gatewayId: id });
+  }
+  return { sessions, complete };
+}
+
+const usageCost = new UsageCostCollector({ store, gateways, primaryGatewayId });
+
+const budgets = new BudgetEngine({
+  config: BudgetEngine.loadConfig(projectRoot),
+  metadata: readModelMetadata(),
+  sessionsAt,
+  usageCost: () => usageCost.summary().data
+});
+
+function readOpenclawConfigFile() {
+  const p = join(process.env.HOME ?? '', '.openclaw', 'openclaw.json');
+  const raw = readFileSync(p, 'utf8');
+  return JSON.parse(raw);
+}
+
+
+// Snapshot hits are per-item versions; keep the newest matching version of each session/job.
+function collapseSnapshotHits(rows, limit) {
+  const seen = new Set();
+  const out = [];
+  for (const row of rows) {
+    const dedupeKey = `${row.gatewayId}|${row.kind}|${row.itemKey}`;
+    if (seen.has(dedupeKey)) continue;
+    seen.add(dedupeKey);
+    out.push({
+      id: row.id,
+      ts: row.ts,
+      gatewayId: row.gatewayId,
+      kind: row.kind,
+      snippet: row.snippet,
+      rank: row.rank,
+      matches: [row.itemKey]
+    });
+    if (out.length >= limit) break;
+  }
+  return out;
 }
 
 function classify(ev) {
@@ -114,6 +287,7 @@ function classify(ev) {
   else if (eventName === 'presence') type = 'presence';
   else if (eventName === 'agent') type = 'agent';
   else if (eventName?.startsWith('device.')) type = 'device';
+  else if (eventName === APPROVAL_REQUESTED || eventName === APPROVAL_RESOLVED) type = 'approval';
 
   // Tool calls surface under agent payloads.
   let tool = null;
@@ -133,63 +307,196 @@ function classify(ev) {
     sessionKey = payload?.sessionKey ?? null;
   }
 
+  if (type === 'approval') {
+    summary = approvalSummary(eventName, payload);
+    sessionKey = payload?.request?.sessionKey ?? sessionKey;
+  }
+
   return { type, tool, runId, sessionKey, summary };
 }
 
-const gw = new GatewayWs({
-  url: gatewayUrl,
-  token,
-  onStatus: (s) => {
-    const now = Date.now();
-    const nextConnected = !!s.connected;
+const pricing = PricingEngine.load(projectRoot);
 
-    // Track connected durations.
-    if (nextConnected && !state.gatewayConnected) {
-      state.gatewayConnectedSince = now;
-    }
-    if (!nextConnected && state.gatewayConnected && state.gatewayConnectedSince) {
-      state.gatewayTotalConnectedMs += (now - state.gatewayConnectedSince);
-      state.gatewayConnectedSince = null;
-    }
+// Every failure of an event consumer is counted in openclaw_monitor_event_consumer_errors_total. The
+// log gets at most one line per consumer a minute, saying how many failures it skipped since the last.
+const CONSUMER_ERROR_LOG_MS = 60_000;
+const consumerErrorLog = new Map();
 
-    state.gatewayConnected = nextConnected;
-    state.gatewayError = s.error ?? null;
-  },
-  onEvent: (ev) => {
-    const ts = Date.now();
-    const meta = classify(ev);
-    try {
-      insertEvent({
-        ts,
-        event: String(ev.event ?? 'event'),
-        type: meta.type,
-        sessionKey: meta.sessionKey,
-        runId: meta.runId,
-        tool: meta.tool,
-        summary: meta.summary,
-        payloadJson: JSON.stringify(ev, null, 2)
-      });
-    } catch {
-      // swallow
-    }
+function eventConsumerFailed(gatewayId, consumer, err) {
+  metrics.eventConsumerErrors.inc({ gateway: gatewayId, consumer });
+  const now = Date.now();
+  const last = consumerErrorLog.get(consumer);
+  if (last && now - last.at < CONSUMER_ERROR_LOG_MS) {
+    last.skipped += 1;
+    return;
   }
-});
+  const skipped = last?.skipped ? ` (${last.skipped} more since the last report)` : '';
+  console.error(`[events] ${consumer} failed${skipped}: ${err?.stack ?? err}`);
+  consumerErrorLog.set(consumer, { at: now, skipped: 0 });
+}
 
-gw.start();
+// Runs one consumer of a stored event on its own, so a throw does not keep the others from seeing it.
+function feedEvent(gatewayId, consumer, fn) {
+  try {
+    fn();
+  } catch (err) {
+    eventConsumerFailed(gatewayId, consumer, err);
+  }
+}
 
-const poller = new Poller({
-  gw,
-  insertEvent,
-  onSnapshot: ({ kind, payload }) => {
-    try {
-      insertSnapshot({ ts: Date.now(), kind, payloadJson: JSON.stringify(payload, null, 2) });
-    } catch {
-      // ignore
+function startGateway(config) {
+  const g = {
+    id: config.id,
+    name: config.name,
+    url: config.url,
+    connected: false,
+    connectedSince: null,
+    totalConnectedMs: 0,
+    error: null,
+    openclawVersion: config.cfg?.meta?.lastTouchedVersion ?? null,
+    gw: null,
+    poller: null
+  };
+  gateways.set(g.id, g);
+  const labels = { gateway: g.id };
+  metrics.gatewayConnects.inc(labels, 0);
+  metrics.gatewayDisconnects.inc(labels, 0);
+
+  g.gw = new GatewayWs({
+    url: g.url,
+    token: config.token,
+    stateDir: config.stateDir,
+    onStatus: (s) => {
+      const now = Date.now();
+      const nextConnected = !!s.connected;
+
+      // Track connected durations.
+      if (nextConnected && !g.connected) {
+        g.connectedSince = now;
+      }
+      if (!nextConnected && g.connected && g.connectedSince) {
+        g.totalConnectedMs += (now - g.connectedSince);
+        g.connectedSince = null;
+      }
+
+      if (nextConnected && !g.connected) metrics.gatewayConnects.inc(labels);
+      if (!nextConnected && g.connected) metrics.gatewayDisconnects.inc(labels);
+
+      const changed = g.connected !== nextConnected || g.error !== (s.error ?? null);
+      g.connected = nextConnected;
+      g.error = s.error ?? null;
+      if (changed) stream.publish('status', statusPayload());
+      alerts.update({ gateway: { connected: nextConnected, error: g.error, url: g.url } }, g.id);
+    },
+    onEvent: (ev) => {
+      const ts = Date.now();
+      const meta = classify(ev);
+      try {
+        // The type and the ids sent back to the gateway come from the raw event. Anything stored, shown
+        // or exported, the indexed session key, run id and tool included, comes from the redacted copy,
+        // so those columns match the keys in redacted snapshots. Hashing is keyed, so rows still group.
+        const clean = redactor.redact(ev);
+        const cleanMeta = classify(clean.value);
+        metrics.events.inc({ gateway: g.id, type: meta.type, tool: cleanMeta.tool ?? '' });
+        const row = {
+          ts,
+          gatewayId: g.id,
+          event: String(ev.event ?? 'event'),
+          type: meta.type,
+          sessionKey: cleanMeta.sessionKey,
+          runId: cleanMeta.runId,
+          tool: cleanMeta.tool,
+          summary: meta.summary === null ? null : cleanMeta.summary,
+          payloadJson: JSON.stringify(clean.value, null, 2),
+          redacted: clean.count
+        };
+        const id = insertEvent(row);
+        stream.publish('events', { id, ...row });
+        feedEvent(g.id, 'alerts', () => alerts.observeEvent(row));
+        feedEvent(g.id, 'otel', () => otel?.observeEvent({ id, ...row }));
+        if (meta.type === 'cron') {
+          feedEvent(g.id, 'cronRuns', () => cronRuns.observeEvent({ gatewayId: g.id, jobId: clean.value?.payload?.jobId, payload: clean.value?.payload, ts }));
+        }
+        feedEvent(g.id, 'rateLimits', () => rateLimits.observeEvent({ gatewayId: g.id, event: row.event, payload: clean.value?.payload, eventId: id, ts }));
+        feedEvent(g.id, 'modelOutcomes', () => modelOutcomes.observeEvent({
+          gatewayId: g.id,
+          event: row.event,
+          type: meta.type,
+          runId: row.runId,
+          sessionKey: row.sessionKey,
+          payload: clean.value?.payload,
+          eventId: id,
+          ts
+        }));
+        if (meta.type === 'approval') {
+          feedEvent(g.id, 'approvals', () => approvals.observe({ gatewayId: g.id, event: row.event, id: ev.payload?.id, payload: clean.value?.payload, ts }));
+        }
+      } catch (err) {
+        eventConsumerFailed(g.id, 'events', err);
+      }
     }
-  }
-});
+  });
+
+  g.poller = new Poller({
+    gw: g.gw,
+    insertEvent,
+    pricing,
+    onRequest: ({ method, ms, ok }) => {
+      metrics.pollerRequests.inc({ gateway: g.id, method, result: ok ? 'ok' : 'error' });
+      metrics.pollerLatency.observe({ gateway: g.id, method }, ms / 1000);
+    },
+    onSnapshot: ({ kind, payload: raw }) => {
+      const ts = Date.now();
+      const payload = redactor.redact(raw).value;
+      try {
+        insertSnapshot({ ts, kind, payload, gatewayId: g.id });
+      } catch {
+        // ignore
+      }
+      try {
+        if (stream.publishSnapshot(snapshotTopic(kind, g.id), kind, ts, payload)) {
+          stream.publish(kind, { gatewayId: g.id, ts });
+        }
+      } catch {
+        // ignore
+      }
+      if (kind === 'sessions') {
+        const sessions = Array.isArray(payload?.sessions) ? payload.sessions : [];
+        alerts.update({ sessions }, g.id);
+        otel?.recordSessions(sessions, g.id);
+        modelOutcomes.observeSessions(g.id, sessions);
+      }
+      if (kind === 'cron') {
+        alerts.update({ cron: cronJobsOf(payload) }, g.id);
+        cronRuns.observeSnapshot(g.id, cronJobsOf(payload), ts);
+      }
+    }
+  });
+
+  g.gw.start();
+  g.poller.start();
+}
+
+for (const config of gatewayConfigs) startGateway(config);
+
+approvals.replay(listEvents({ types: ['approval'], limit: 1000 }).reverse());
+for (const id of gateways.keys()) alerts.update({ approvals: approvals.list(id) }, id);
 
-poller.start();
+const retention = new RetentionJob({ store, config: RetentionJob.loadConfig(projectRoot) });
+retention.start();
+
+alerts.start();
+// Spend caps are checked against each gateway's daily usage-cost totals (only when a rule needs them).
+if (alerts.hasRule('daily_spend')) {
+  const refreshSpend = async () => {
+    for (const id of gateways.keys()) {
+      const usage = await usageCost.get({ gatewayIds: [id] });
+      if (usage.ok) alerts.update({ spend: spendFromUsageCost(usage.data) }, id);
+    }
+  };
+  setInterval(() => void refreshSpend(), 5 * 60_000);
+  void refreshSpend();
+}
 
 function hardenHeaders(res) {
   // Basic OWASP-ish headers for a localhost dashboard.
@@ -215,6 +522,166 @@ function sendJson(res, statusCode, obj) {
   res.end(body);
 }
 
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_UPCOMING_WINDOW_MS = 31 * 86_400_000;
+const MAX_USAGE_DAYS = 366;
+// Rate-limit samples and model outcomes are kept for 30 days by default.
+const MAX_TELEMETRY_WINDOW_MS = 30 * 86_400_000;
+const MAX_PAYLOAD_FILTERS = 8;
+
+async function readJsonBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('request body too large');
+    chunks.push(chunk);
+  }
+  if (!size) return {};
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+// Auth endpoints work without a session; the rest of /api and /metrics need one once auth is on.
+async function handleAuth(req, res, urlObj) {
+  if (urlObj.pathname === '/api/auth/session') {
+    return sendJson(res, 200, { ok: true, ...auth.describe(auth.authenticate(req)) });
+  }
+
+  if (urlObj.pathname === '/api/auth/login') {
+    if (req.method !== 'POST') return sendJson(res, 405, { ok: false, error: 'POST required' });
+    if (!auth.enabled) return sendJson(res, 200, { ok: false, error: 'auth is not enabled' });
+    let body;
+    try {
+      body = await readJsonBody(req);
+    } catch (e) {
+      return sendJson(res, 400, { ok: false, error: String(e?.message ?? e) });
+    }
+    const result = auth.login(body, req.socket.remoteAddress ?? '');
+    if (!result.ok) return sendJson(res, result.status, { ok: false, error: result.error });
+    res.setHeader('set-cookie', result.cookie);
+    return sendJson(res, 200, { ok: true, ...auth.describe(result.principal) });
+  }
+
+  if (urlObj.pathname === '/api/auth/logout') {
+    if (req.method !== 'POST') return sendJson(res, 405, { ok: false, error: 'POST required' });
+    const principal = auth.authenticate(req);
+    const csrfError = auth.checkCsrf(req, principal);
+    if (csrfError) return sendJson(res, 403, { ok: false, error: csrfError });
+    res.setHeader('set-cookie', auth.logout(principal));
+    return sendJson(res, 200, { ok: true });
+  }
+
+  return null;
+}
+
+function collectMetrics() {
+  const now = Date.now();
+  const upMs = now - state.startedAt;
+  const list = [...gateways.values()];
+  const perGateway = (fn) => list.map((g) => ({ labels: { gateway: g.id }, value: fn(g) }));
+
+  // Scrapes never wait on usage-cost; they report the stored totals and refresh in the background.
+  for (const id of gateways.keys()) void usageCost.refresh(id, 5 * 60_000);
+
+  const firingByRule = new Map();
+  for (const a of alerts.status().firing) {
+    const key = `${a.gatewayId}|${a.ruleId}|${a.severity}`;
+    firingByRule.set(key, {
+      labels: { gateway: a.gatewayId, rule: a.ruleId, severity: a.severity },
+      value: (firingByRule.get(key)?.value ?? 0) + 1
+    });
+  }
+
+  return renderMetrics([
+    gauge('openclaw_monitor_uptime_seconds', 'Seconds since the monitor started.', upMs / 1000),
+    gauge('openclaw_gateway_connected', '1 while the gateway websocket is connected and authenticated.', perGateway((g) => (g.connected ? 1 : 0))),
+    counter('openclaw_gateway_connected_seconds_total', 'Total time connected to the gateway since the monitor started.',
+      perGateway((g) => gatewayConnectedMs(g, now) / 1000)),
+    gauge('openclaw_gateway_uptime_ratio', 'Share of monitor uptime spent connected to the gateway (0-1).',
+      perGateway((g) => (upMs > 0 ? gatewayConnectedMs(g, now) / upMs : 0))),
+    metrics.gatewayConnects.collect(),
+    metrics.gatewayDisconnects.collect(),
+    counter('openclaw_gateway_reconnect_attempts_total', 'Reconnect attempts after the gateway socket closed.',
+      perGateway((g) => g.gw.reconnectAttempts)),
+    metrics.events.collect(),
+    metrics.cronRuns.collect(),
+    metrics.modelOutcomes.collect(),
+    metrics.rateLimitEvents.collect(),
+    metrics.eventConsumerErrors.collect(),
+    metrics.pollerRequests.collect(),
+    metrics.pollerLatency.collect(),
+    ...sessionFamilies(
+      list.map((g) => ({ gateway: g.id, sessions: latestSnapshotFull('sessions', g.id)?.full?.sessions })),
+      { maxSessions: Number(process.env.MONITOR_METRICS_MAX_SESSIONS ?? 50) }
+    ),
+    ...cronFamilies(list.map((g) => ({ gateway: g.id, jobs: cronJobsOf(latestSnapshotFull('cron', g.id)?.full) })), now),
+    ...usageCostFamilies(spendFromUsageCost(usageCost.summary().data)),
+    ...rateLimitFamilies(rateLimits.status({ gatewayIds: list.map((g) => g.id), windowMs: 3_600_000, now })),
+    counter('openclaw_monitor_redactions_total', 'Values replaced, dropped or truncated by each redaction rule.',
+      redactor.status().rules.map((r) => ({ labels: { rule: r.id }, value: r.hits }))),
+    gauge('openclaw_approvals_pending', 'Exec approval requests waiting for a decision.',
+      perGateway((g) => approvals.list(g.id, now).length)),
+    gauge('openclaw_monitor_alerts_firing', 'Alerts currently firing, by rule and severity.', [...firingByRule.values()])
+  ]);
+}
+
+// `?gateway=<id>` scopes an API request to one gateway; absent or `all` means every gateway.
+function gatewayParam(urlObj) {
+  const v = urlObj.searchParams.get('gateway');
+  if (!v || v === 'all') return { gateway: null, error: null };
+  if (!gateways.has(v)) return { gateway: null, error: `unknown gateway: ${v}` };
+  return { gateway: v, error: null };
+}
+
+// A percent-encoded path segment captured by a route regex, or null when the encoding is malformed
+// (decodeURIComponent throws URIError, which would take the request handler down).
+function pathParam(raw) {
+  try { return decodeURIComponent(raw); } catch { return null; }
+}
+
+// Without ?gateway=, a session key resolves to the first gateway (in config order) that knows it.
+function sessionGateway(key) {
+  for (const id of gateways.keys()) {
+    const sessions = latestSnapshotFull('sessions', id)?.full?.sessions;
+    if (Array.isArray(sessions) && sessions.some((s) => s?.key === key)) return id;
+  }
+  for (const id of gateways.keys()) {
+    if (itemHistory({ kind: 'sessions', key, from: 0, to: Number.MAX_SAFE_INTEGER, gatewayId: id }).length) return id;
+  }
+  return null;
+}
+
+// Like sessionGateway, for cron job ids (matched against the latest cron.list of each gateway).
+function cronGateway(jobId) {
+  for (const id of gateways.keys()) {
+    const jobs = cronJobsOf(latestSnapshotFull('cron', id)?.full);
+    if (jobs.some((j) => String(j?.id ?? j?.jobId ?? '') === jobId)) return id;
+  }
+  return null;
+}
+
+// POST /api/cron/<id>/<verb>, /api/sessions/<key>/<verb>, /api/approvals/<id>/<verb> and the
+// /api/devices actions. Refusals are audited too.
+async function handleAction(req, res, { principal, action, target, gatewayId, onSuccess = null }) {
+  if (req.method !== 'POST') return sendJson(res, 405, { ok: false, error: 'POST required' });
+  const actor = { username: principal.username, role: principal.role, ip: req.socket.remoteAddress ?? null };
+  if (!hasRole(principal, 'operator')) {
+    actions.record({ actor, gatewayId, action, target, ok: false, error: 'operator role required' });
+    return sendJson(res, 403, { ok: false, error: 'operator role required' });
+  }
+  const g = gatewayId ? gateways.get(gatewayId) : null;
+  if (!g) return sendJson(res, 200, { ok: false, error: `cannot tell which gateway ${target} belongs to; pass ?gateway=` });
+  let body;
+  try {
+    body = await readJsonBody(req);
+  } catch (e) {
+    return sendJson(res, 400, { ok: false, error: String(e?.message ?? e) });
+  }
+  const out = await actions.run({ action, gateway: g, target, options: body, actor });
+  if (out.ok) onSuccess?.(out.audit);
+  return sendJson(res, 200, out);
+}
+
 function serveStatic(req, res) {
   const url = new URL(req.url, 'http://localhost');
   const p = url.pathname === '/' ? '/index.html' : url.pathname;
@@ -241,21 +708,99 @@ function serveStatic(req, res) {
 const server = http.createServer(async (req, res) => {
   const urlObj = new URL(req.url, 'http://localhost');
 
+  // Every request, reads included: a DNS-rebinding page could otherwise read the API (see checkHost).
+  const hostError = auth.checkHost(req);
+  if (hostError) return sendJson(res, 421, { ok: false, error: hostError });
+
+  // Applies with auth off too, where no credentials stand between a web page and the operator
+  // actions. A cross-site form or "simple" fetch cannot send a JSON content type, and browsers name
+  // the page's origin on anything else.
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    const originError = auth.checkOrigin(req);
+    if (originError) return sendJson(res, 403, { ok: false, error: originError });
+    if (!String(req.headers['content-type'] ?? '').startsWith('application/json')) {
+      return sendJson(res, 415, { ok: false, error: 'application/json required' });
+    }
+  }
+
+  if (urlObj.pathname.startsWith('/api/auth/')) {
+    const handled = await handleAuth(req, res, urlObj);
+    if (handled !== null) return handled;
+  }
+
+  const principal = auth.authenticate(req);
+  if (urlObj.pathname.startsWith('/api/') || urlObj.pathname === '/metrics') {
+    if (!principal) return sendJson(res, 401, { ok: false, error: 'authentication required' });
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      const csrfError = auth.checkCsrf(req, principal);
+      if (csrfError) return sendJson(res, 403, { ok: false, error: csrfError });
+    }
+  }
+
+  if (urlObj.pathname === '/metrics') {
+    const body = collectMetrics();
+    hardenHeaders(res);
+    res.writeHead(200, { 'content-type': METRICS_CONTENT_TYPE, 'cache-control': 'no-store' });
+    return res.end(body);
+  }
+
+  const scope = gatewayParam(urlObj);
+  if (scope.error && urlObj.pathname.startsWith('/api/')) return sendJson(res, 200, { ok: false, error: scope.error });
+  const { gateway } = scope;
+
   if (urlObj.pathname === '/api/status') {
+    return sendJson(res, 200, statusPayload());
+  }
+
+  if (urlObj.pathname === '/api/usage-cost') {
+    const days = Number(urlObj.searchParams.get('days') ?? 30);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      return sendJson(res, 200, { ok: false, error: `days must be an integer between 1 and ${MAX_USAGE_DAYS}` });
+    }
+    return sendJson(res, 200, await usageCost.get({ gatewayIds: gateway ? [gateway] : null, days }));
+  }
+
+  // Budgets cover spend across all gateways, so they ignore ?gateway=.
+  if (urlObj.pathname === '/api/budgets') {
+    const usage = await usageCost.get();
+    try {
+      return sendJson(res, 200, { ok: true, ...budgets.status(), usageCostError: usage.error });
+    } catch (err) {
+      return sendJson(res, 200, { ok: false, error: String(err?.message ?? err) });
+    }
+  }
+
+  if (urlObj.pathname === '/api/ratelimits') {
+    const windowMs = parseDuration(urlObj.searchParams.get('window') ?? '24h');
+    if (!windowMs) return sendJson(res, 200, { ok: false, error: 'window must be a duration like 6h or 7d' });
+    if (windowMs > MAX_TELEMETRY_WINDOW_MS) return sendJson(res, 200, { ok: false, error: 'window must be 30d or less' });
+    const gatewayIds = gateway ? [gateway] : [...gateways.keys()];
+    const now = Date.now();
     return sendJson(res, 200, {
       ok: true,
-      gatewayConnected: state.gatewayConnected,
-      gatewayUrl: state.gatewayUrl,
-      gatewayError: state.gatewayError,
-      openclawVersion: state.openclawVersion,
-      updateAvailable: state.updateAvailable,
-      now: Date.now()
+      ts: now,
+      windowMs,
+      models: rateLimits.status({ gatewayIds, windowMs, now }),
+      history: rateLimits.history({ gatewayIds, windowMs, now })
     });
   }
 
-  if (urlObj.pathname === '/api/usage-cost') {
-    const data = await getUsageCost();
-    return sendJson(res, 200, data);
+  if (urlObj.pathname === '/api/model-errors') {
+    const windowMs = parseDuration(urlObj.searchParams.get('window') ?? '24h');
+    if (!windowMs) return sendJson(res, 200, { ok: false, error: 'window must be a duration like 6h or 7d' });
+    if (windowMs > MAX_TELEMETRY_WINDOW_MS) return sendJson(res, 200, { ok: false, error: 'window must be 30d or less' });
+    const now = Date.now();
+    const stats = modelOutcomes.stats({ gatewayIds: gateway ? [gateway] : [...gateways.keys()], windowMs, now });
+    return sendJson(res, 200, { ok: true, ts: now, windowMs, ...stats });
+  }
+
+  if (urlObj.pathname === '/api/tools/stats') {
+    const windowMs = parseDuration(urlObj.searchParams.get('window') ?? '24h');
+    if (!windowMs) return sendJson(res, 200, { ok: false, error: 'window must be a duration like 6h or 7d' });
+    if (windowMs > MAX_TELEMETRY_WINDOW_MS) return sendJson(res, 200, { ok: false, error: 'window must be 30d or less' });
+    const now = Date.now();
+    const stats = toolStats({ store, gatewayIds: gateway ? [gateway] : [...gateways.keys()], from: now - windowMs, to: now });
+    return sendJson(res, 200, { ok: true, ts: now, windowMs, ...stats });
   }
 
   if (urlObj.pathname === '/api/model-catalog') {
@@ -295,45 +840,417 @@ const server = http.createServer(async (req, res) => {
   }
 
   if (urlObj.pathname === '/api/events') {
-    const type = urlObj.searchParams.get('type') ?? null;
-    const sessionKey = urlObj.searchParams.get('sessionKey') ?? null;
-    const limit = urlObj.searchParams.get('limit') ?? '100';
-    const events = listEvents({ type, sessionKeyLike: sessionKey, limit });
-    return sendJson(res, 200, { ok: true, events });
+    const params = urlObj.searchParams;
+    // Repeated and comma-separated values both work: ?type=chat,agent or ?type=chat&type=agent
+    const anyOf = (name) => {
+      const values = params.getAll(name).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+      return values.length ? values : null;
+    };
+    const now = Date.now();
+    const from = parseTime(params.get('from'), now);
+    const to = parseTime(params.get('to'), now);
+    if ((params.get('from') && from === null) || (params.get('to') && to === null)) {
+      return sendJson(res, 200, { ok: false, error: 'from/to must be epoch ms, an ISO time or a duration like 6h' });
+    }
+    const order = params.get('order') ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') return sendJson(res, 200, { ok: false, error: 'order must be asc or desc' });
+    const cursor = parseEventCursor(params.get('cursor'));
+    if (params.get('cursor') && !cursor) return sendJson(res, 200, { ok: false, error: 'invalid cursor' });
+    let payloadFilters;
+    try {
+      payloadFilters = params.getAll('payload').filter((v) => v.trim()).map(parsePayloadFilter);
+    } catch (err) {
+      return sendJson(res, 200, { ok: false, error: String(err?.message ?? err) });
+    }
+    if (payloadFilters.length > MAX_PAYLOAD_FILTERS) {
+      return sendJson(res, 200, { ok: false, error: `at most ${MAX_PAYLOAD_FILTERS} payload filters` });
+    }
+    const limit = Math.max(1, Math.min(1000, Number(params.get('limit') ?? 100) || 100));
+    const events = listEvents({
+      types: anyOf('type'),
+      tools: anyOf('tool'),
+      runIds: anyOf('runId'),
+      events: anyOf('event'),
+      sessionKeyLike: params.get('sessionKey'),
+      from,
+      to,
+      payloadFilters,
+      cursor,
+      order,
+      limit,
+      gateway
+    });
+    const last = events[events.length - 1];
+    // A full page means there may be more; pass nextCursor back as ?cursor= for the next one.
+    return sendJson(res, 200, { ok: true, events, nextCursor: events.length === limit ? `${last.ts}:${last.id}` : null });
   }
 
-  if (urlObj.pathname === '/api/snapshot/sessions') {
-    const snap = latestSnapshot('sessions');
-    return sendJson(res, 200, { ok: true, snapshot: snap });
+  const eventMatch = /^\/api\/events\/(\d+)$/.exec(urlObj.pathname);
+  if (eventMatch) {
+    const event = getEvent(eventMatch[1]);
+    if (!event) return sendJson(res, 404, { ok: false, error: 'event not found' });
+    return sendJson(res, 200, { ok: true, event });
   }
 
-  if (urlObj.pathname === '/api/snapshot/cron') {
-    const snap = latestSnapshot('cron');
-    return sendJson(res, 200, { ok: true, snapshot: snap });
+  if (urlObj.pathname === '/api/search') {
+    const q = urlObj.searchParams.get('q') ?? '';
+    const limit = Math.max(1, Math.min(200, Number(urlObj.searchParams.get('limit') ?? 50) || 50));
+    const parsed = parseSearchQuery(q, {
+      from: urlObj.searchParams.get('from'),
+      to: urlObj.searchParams.get('to')
+    });
+    const match = parsed.terms.length ? toFtsMatch(parsed.terms) : null;
+    try {
+      const events = parsed.in === 'snapshots' || parsed.kind
+        ? []
+        : searchEvents({ ...parsed, match, limit, gateway });
+      const snapshots = parsed.in === 'events' || parsed.type || parsed.tool || parsed.run || parsed.event
+        ? []
+        : collapseSnapshotHits(searchSnapshots({ ...parsed, match, limit: limit * 20, gateway }), limit);
+      return sendJson(res, 200, {
+        ok: true,
+        query: parsed,
+        highlight: { start: HIGHLIGHT_START, end: HIGHLIGHT_END },
+        events,
+        snapshots
+      });
+    } catch (err) {
+      return sendJson(res, 200, { ok: false, error: String(err?.message ?? err) });
+    }
   }
 
-  if (urlObj.pathname === '/api/overview') {
+  if (urlObj.pathname === '/api/storage') {
+    try {
+      return sendJson(res, 200, { ok: true, ...store.storageStats(), retention: retention.status() });
+    } catch (err) {
+      return sendJson(res, 200, { ok: false, error: String(err?.message ?? err) });
+    }
+  }
+
+  if (urlObj.pathname === '/api/cron/runs') {
+    const from = parseTime(urlObj.searchParams.get('from') ?? '7d', Date.now());
+    return sendJson(res, 200, { ok: true, from, jobs: store.cronRunStats({ gateway, from }) });
+  }
+
+  if (urlObj.pathname === '/api/cron/upcoming') {
     const now = Date.now();
-    const upMs = now - state.startedAt;
+    const from = parseTime(urlObj.searchParams.get('from'), now) ?? now;
+    const windowMs = parseDuration(urlObj.searchParams.get('window') ?? '24h');
+    if (!windowMs) return sendJson(res, 200, { ok: false, error: 'window must be a duration like 24h or 7d' });
+    if (windowMs > MAX_UPCOMING_WINDOW_MS) return sendJson(res, 200, { ok: false, error: 'window must be 31d or less' });
+    const to = from + windowMs;
+    const includeDisabled = urlObj.searchParams.get('disabled') === '1';
+    // Expected run length: the 7-day average when there is one, else the job's last run.
+    const avgDuration = new Map(
+      store.cronRunStats({ gateway, from: now - 7 * 86_400_000 }).map((s) => [`${s.gatewayId}|${s.jobId}`, s.avgDurationMs])
+    );
+    const cache = new Map();
+    const jobs = [];
+    for (const g of gateways.values()) {
+      if (gateway && g.id !== gateway) continue;
+      for (const j of cronJobsOf(latestSnapshotFull('cron', g.id)?.full)) {
+        if (j.enabled === false && !includeDisabled) continue;
+        const jobId = String(j.id ?? j.jobId ?? '');
+        const durationMs = avgDuration.get(`${g.id}|${jobId}`) ?? (Number(j.state?.lastDurationMs) || DEFAULT_DURATION_MS);
+        jobs.push({
+          gatewayId: g.id,
+          jobId,
+          name: j.name ?? jobId,
+          enabled: j.enabled !== false,
+          payloadKind: j.payload?.kind ?? null,
+          schedule: j.schedule ?? null,
+          durationMs,
+          collisions: 0,
+          ...expandSchedule(j, { from, to, cache })
+        });
+      }
+    }
+    // Disabled jobs are listed but never counted as colliding.
+    const { collisions, truncated } = findCollisions(jobs.filter((j) => j.enabled));
+    return sendJson(res, 200, { ok: true, from, to, jobs, collisions, collisionsTruncated: truncated });
+  }
 
-    const sessionsSnap = latestSnapshot('sessions');
-    const cronSnap = latestSnapshot('cron');
+  const cronRunsMatch = /^\/api\/cron\/([^/]+)\/runs$/.exec(urlObj.pathname);
+  if (cronRunsMatch) {
+    const jobId = pathParam(cronRunsMatch[1]);
+    if (jobId === null) return sendJson(res, 400, { ok: false, error: 'malformed job id' });
+    const from = parseTime(urlObj.searchParams.get('from') ?? '30d', Date.now());
+    const gatewayId = gateway ?? cronGateway(jobId);
+    const runs = store.listCronRuns({ gateway: gatewayId, jobId, from, limit: urlObj.searchParams.get('limit') ?? '200' });
+    const stats = store.cronRunStats({ gateway: gatewayId, from }).find((s) => s.jobId === jobId) ?? null;
+    return sendJson(res, 200, { ok: true, jobId, gatewayId, from, runs, stats });
+  }
+
+  const cronActionMatch = /^\/api\/cron\/([^/]+)\/(enable|disable|run)$/.exec(urlObj.pathname);
+  if (cronActionMatch) {
+    const jobId = pathParam(cronActionMatch[1]);
+    if (jobId === null) return sendJson(res, 400, { ok: false, error: 'malformed job id' });
+    return handleAction(req, res, {
+      principal,
+      action: `cron.${cronActionMatch[2]}`,
+      target: jobId,
+      gatewayId: gateway ?? cronGateway(jobId) ?? (gateways.size === 1 ? primaryGatewayId : null)
+    });
+  }
+
+  const sessionActionMatch = /^\/api\/sessions\/([^/]+)\/(abort|reset|delete)$/.exec(urlObj.pathname);
+  if (sessionActionMatch) {
+    const key = pathParam(sessionActionMatch[1]);
+    if (key === null) return sendJson(res, 400, { ok: false, error: 'malformed session key' });
+    return handleAction(req, res, {
+      principal,
+      action: `session.${sessionActionMatch[2]}`,
+      target: key,
+      gatewayId: gateway ?? sessionGateway(key) ?? (gateways.size === 1 ? primaryGatewayId : null)
+    });
+  }
 
-    let sessions = [];
+  if (urlObj.pathname === '/api/approvals') {
+    return sendJson(res, 200, { ok: true, pending: approvals.list(gateway), resolved: approvals.recentlyResolved(gateway) });
+  }
+
+  const approvalActionMatch = /^\/api\/approvals\/([^/]+)\/(approve|deny)$/.exec(urlObj.pathname);
+  if (approvalActionMatch) {
+    const id = pathParam(approvalActionMatch[1]);
+    if (id === null) return sendJson(res, 400, { ok: false, error: 'malformed approval id' });
+    return handleAction(req, res, {
+      principal,
+      action: `approval.${approvalActionMatch[2]}`,
+      target: id,
+      gatewayId: gateway ?? approvals.find(id)?.gatewayId ?? (gateways.size === 1 ? primaryGatewayId : null),
+      // The gateway's resolved event follows, but drop the request from the queue right away.
+      onSuccess: (audit) => approvals.resolve(audit.gatewayId, id, { decision: audit.params.decision, resolvedBy: audit.actor })
+    });
+  }
+
+  if (urlObj.pathname === '/api/devices') {
+    const selected = [...gateways.values()].filter((g) => !gateway || g.id === gateway);
+    const results = await Promise.all(selected.map(async (g) => {
+      const base = { gatewayId: g.id, identity: g.gw.identityInfo() };
+      try {
+        const payload = await g.gw.request('device.pair.list', {}, { timeoutMs: 10_000 });
+        return { ...base, ...normalizePairingList(payload), error: null };
+      } catch (err) {
+        return { ...base, pending: [], paired: [], error: String(err?.message ?? err) };
+      }
+    }));
+    return sendJson(res, 200, { ok: true, gateways: results });
+  }
+
+  // Pairing ids and device ids are per gateway, so these only guess when there is a single one.
+  const onlyGateway = gateway ?? (gateways.size === 1 ? primaryGatewayId : null);
+
+  if (urlObj.pathname === '/api/devices/identity/rotate') {
+    return handleAction(req, res, {
+      principal,
+      action: 'identity.rotate',
+      target: onlyGateway ? gateways.get(onlyGateway).gw.identityInfo().deviceId : 'identity',
+      gatewayId: onlyGateway
+    });
+  }
+
+  const pairingMatch = /^\/api\/devices\/pairing\/([^/]+)\/(approve|reject)$/.exec(urlObj.pathname);
+  if (pairingMatch) {
+    const requestId = pathParam(pairingMatch[1]);
+    if (requestId === null) return sendJson(res, 400, { ok: false, error: 'malformed pairing request id' });
+    return handleAction(req, res, {
+      principal,
+      action: `device.${pairingMatch[2]}`,
+      target: requestId,
+      gatewayId: onlyGateway
+    });
+  }
+
+  const revokeMatch = /^\/api\/devices\/([^/]+)\/revoke$/.exec(urlObj.pathname);
+  if (revokeMatch) {
+    const deviceId = pathParam(revokeMatch[1]);
+    if (deviceId === null) return sendJson(res, 400, { ok: false, error: 'malformed device id' });
+    return handleAction(req, res, {
+      principal,
+      action: 'device.revoke',
+      target: deviceId,
+      gatewayId: onlyGateway
+    });
+  }
+
+  if (urlObj.pathname === '/api/audit') {
+    const action = urlObj.searchParams.get('action') || null;
+    if (action && !ACTIONS[action]) return sendJson(res, 200, { ok: false, error: `unknown action: ${action}` });
+    const entries = listAudit({
+      from: parseTime(urlObj.searchParams.get('from') ?? '30d', Date.now()),
+      action,
+      actor: urlObj.searchParams.get('actor') || null,
+      gateway,
+      limit: urlObj.searchParams.get('limit') ?? '200'
+    });
+    return sendJson(res, 200, { ok: true, actions: Object.keys(ACTIONS), entries });
+  }
+
+  const sessionMatch = /^\/api\/sessions\/([^/]+)$/.exec(urlObj.pathname);
+  if (sessionMatch) {
+    const key = pathParam(sessionMatch[1]);
+    if (key === null) return sendJson(res, 400, { ok: false, error: 'malformed session key' });
+    const limit = urlObj.searchParams.get('limit') ?? '5000';
+
+    const gatewayId = gateway ?? sessionGateway(key);
+
+    let session = null;
+    let active = false;
+    const snap = gatewayId ? latestSnapshot('sessions', gatewayId) : null;
     try {
-      const payload = sessionsSnap ? JSON.parse(sessionsSnap.payloadJson) : null;
-      sessions = Array.isArray(payload?.sessions) ? payload.sessions : [];
+      const payload = snap ? JSON.parse(snap.payloadJson) : null;
+      session = (Array.isArray(payload?.sessions) ? payload.sessions : []).find((s) => s?.key === key) ?? null;
+      active = !!session;
     } catch {
-      sessions = [];
+      session = null;
+    }
+    // Sessions that dropped out of sessions.list still have their last stored version.
+    let lastSeenAt = active ? snap.ts : null;
+    if (!session && gatewayId) {
+      const versions = itemHistory({ kind: 'sessions', key, from: 0, to: Number.MAX_SAFE_INTEGER, gatewayId });
+      const last = versions[versions.length - 1] ?? null;
+      session = last?.item ?? null;
+      lastSeenAt = last ? (last.validTo ?? last.validFrom) : null;
     }
 
-    let cronJobs = [];
-    try {
-      const payload = cronSnap ? JSON.parse(cronSnap.payloadJson) : null;
-      cronJobs = Array.isArray(payload?.jobs) ? payload.jobs : (Array.isArray(payload) ? payload : []);
-    } catch {
-      cronJobs = [];
+    const stats = sessionEventStats(key, gatewayId);
+    const events = listSessionEvents(key, limit, gatewayId);
+    return sendJson(res, 200, {
+      ok: true,
+      key,
+      gatewayId,
+      active,
+      lastSeenAt,
+      session,
+      events,
+      eventStats: stats,
+      truncated: stats.count > events.length
+    });
+  }
+
+  const historyMatch = /^\/api\/sessions\/(.+)\/history$/.exec(urlObj.pathname);
+  if (historyMatch) {
+    const key = pathParam(historyMatch[1]);
+    if (key === null) return sendJson(res, 400, { ok: false, error: 'malformed session key' });
+    const now = Date.now();
+    const to = parseTime(urlObj.searchParams.get('to'), now) ?? now;
+    const from = parseTime(urlObj.searchParams.get('from') ?? '1h', now) ?? (to - 3_600_000);
+    if (from >= to) return sendJson(res, 200, { ok: false, error: 'from must be before to' });
+    const bucketMs = parseDuration(urlObj.searchParams.get('bucket')) ?? pickBucketMs(to - from);
+    if ((to - from) / bucketMs > 2000) return sendJson(res, 200, { ok: false, error: 'too many buckets; widen bucket' });
+
+    const gatewayId = gateway ?? sessionGateway(key) ?? primaryGatewayId;
+    const versions = itemHistory({ kind: 'sessions', key, from, to, gatewayId });
+    const latest = versions.length ? versions[versions.length - 1].item : null;
+    return sendJson(res, 200, {
+      ok: true,
+      key,
+      gatewayId,
+      from,
+      to,
+      bucketMs,
+      versions: versions.length,
+      model: latest?.model ?? null,
+      series: bucketSeries(versions, { from, to, bucketMs })
+    });
+  }
+
+  if (urlObj.pathname === '/api/alerts') {
+    const now = Date.now();
+    const status = urlObj.searchParams.get('status') || null;
+    const history = listAlerts({
+      status,
+      ruleId: urlObj.searchParams.get('rule') || null,
+      from: parseTime(urlObj.searchParams.get('from') ?? '7d', now),
+      limit: urlObj.searchParams.get('limit') ?? '200',
+      gateway
+    });
+    const current = alerts.status();
+    const firing = current.firing.filter((a) => !gateway || a.gatewayId === gateway);
+    return sendJson(res, 200, { ok: true, ...current, firing, alerts: history });
+  }
+
+  if (urlObj.pathname === '/api/alerts/test') {
+    if (req.method !== 'POST') return sendJson(res, 405, { ok: false, error: 'POST required' });
+    if (!hasRole(principal, 'operator')) return sendJson(res, 403, { ok: false, error: 'operator role required' });
+    const results = await alerts.sendTest();
+    return sendJson(res, 200, { ok: results.every((r) => r.ok || r.skipped), results });
+  }
+
+  if (urlObj.pathname === '/api/redaction') {
+    return sendJson(res, 200, { ok: true, ...redactor.status() });
+  }
+
+  if (urlObj.pathname === '/api/otel') {
+    return sendJson(res, 200, { ok: true, ...(otel ? otel.status() : { enabled: false }) });
+  }
+
+  if (urlObj.pathname === '/api/runs') {
+    const now = Date.now();
+    const status = urlObj.searchParams.get('status') || null;
+    if (status && !['ok', 'error', 'aborted', 'running'].includes(status)) {
+      return sendJson(res, 200, { ok: false, error: `unknown status: ${status}` });
     }
+    const from = parseTime(urlObj.searchParams.get('from') ?? '24h', now);
+    const to = parseTime(urlObj.searchParams.get('to'), now);
+    const runs = listRuns({
+      from,
+      to,
+      session: urlObj.searchParams.get('session') || null,
+      status,
+      limit: urlObj.searchParams.get('limit') ?? '100',
+      gateway
+    });
+    return sendJson(res, 200, { ok: true, from, to, runs });
+  }
+
+  const runMatch = /^\/api\/runs\/([^/]+)$/.exec(urlObj.pathname);
+  if (runMatch) {
+    const runId = pathParam(runMatch[1]);
+    if (runId === null) return sendJson(res, 400, { ok: false, error: 'malformed run id' });
+    const summary = runSummary(runId, gateway);
+    if (!summary) return sendJson(res, 404, { ok: false, error: 'run not found' });
+    const events = runEvents(runId, summary.gatewayId);
+    return sendJson(res, 200, {
+      ok: true,
+      run: buildRun(runId, events),
+      truncated: summary.eventCount > events.length
+    });
+  }
+
+  if (urlObj.pathname === '/api/snapshot/sessions' || urlObj.pathname === '/api/snapshot/cron') {
+    const kind = urlObj.pathname.endsWith('/cron') ? 'cron' : 'sessions';
+    const at = parseTime(urlObj.searchParams.get('at'));
+    // A snapshot belongs to one gateway; without ?gateway= the first one is returned.
+    const gatewayId = gateway ?? primaryGatewayId;
+    const snap = at === null ? latestSnapshot(kind, gatewayId) : snapshotAt(kind, at, gatewayId);
+    return sendJson(res, 200, { ok: true, snapshot: snap });
+  }
+
+  if (urlObj.pathname === '/api/overview') {
+    const now = Date.now();
+    const upMs = now - state.startedAt;
+
+    // With no ?gateway=, everything below is aggregated across gateways (items tagged with gatewayId).
+    const selected = [...gateways.values()].filter((g) => !gateway || g.id === gateway);
+    const perGateway = selected.map((g) => {
+      const sessionsSnap = latestSnapshotFull('sessions', g.id);
+      const cronSnap = latestSnapshotFull('cron', g.id);
+      const sessions = Array.isArray(sessionsSnap?.full?.sessions) ? sessionsSnap.full.sessions : [];
+      const connectedMs = gatewayConnectedMs(g, now);
+      return {
+        g,
+        connectedMs,
+        uptimePct: upMs > 0 ? (connectedMs / upMs) * 100 : 0,
+        sessionsTs: sessionsSnap?.ts ?? null,
+        cronTs: cronSnap?.ts ?? null,
+        sessions: sessions.map((s) => ({ ...s, gatewayId: g.id })),
+        cronJobs: cronJobsOf(cronSnap?.full).map((j) => ({ ...j, gatewayId: g.id }))
+      };
+    });
+    const sessions = perGateway.flatMap((p) => p.sessions);
+    const cronJobs = perGateway.flatMap((p) => p.cronJobs);
+    const newest = (values) => values.reduce((a, b) => (b !== null && (a === null || b > a) ? b : a), null);
 
     const topPressure = [...sessions]
       .filter((s) => typeof s?.drift?.pressure === 'number')
@@ -349,16 +1266,14 @@ const server = http.createServer(async (req, res) => {
       .filter((j) => j && typeof j.nextRunAtMs === 'number')
       .sort((a, b) => a.nextRunAtMs - b.nextRunAtMs)[0] ?? null;
 
-    const recent = listEvents({ type: null, sessionKeyLike: null, limit: 500 });
+    const recent = listEvents({ limit: 500, gateway });
     const lastHour = now - 60 * 60 * 1000;
     const recentHour = recent.filter((e) => Number(e.ts) >= lastHour);
     const byType = {};
     for (const e of recentHour) byType[e.type] = (byType[e.type] ?? 0) + 1;
 
-    const gwConnectedMs = state.gatewayConnected
-      ? state.gatewayTotalConnectedMs + (now - (state.gatewayConnectedSince ?? now))
-      : state.gatewayTotalConnectedMs;
-
+    const single = perGateway.length === 1 ? perGateway[0] : null;
+    const gwConnectedMs = perGateway.reduce((n, p) => n + p.connectedMs, 0) / Math.max(1, perGateway.length);
     const gwUptimePct = upMs > 0 ? (gwConnectedMs / upMs) * 100 : 0;
 
     return sendJson(res, 200, {
@@ -368,17 +1283,25 @@ const server = http.createServer(async (req, res) => {
         startedAt: state.startedAt,
         upMs
       },
+      // One gateway: its state. Several: connected only if all are; uptime is the mean.
       gateway: {
-        connected: state.gatewayConnected,
-        connectedSince: state.gatewayConnectedSince,
+        connected: perGateway.length > 0 && perGateway.every((p) => p.g.connected),
+        connectedSince: single?.g.connectedSince ?? null,
         totalConnectedMs: gwConnectedMs,
         uptimePct: Number(gwUptimePct.toFixed(2)),
-        url: state.gatewayUrl,
-        error: state.gatewayError
+        url: single?.g.url ?? null,
+        error: perGateway.find((p) => p.g.error)?.g.error ?? null
       },
+      gateways: perGateway.map((p) => ({
+        ...gatewaySummary(p.g),
+        uptimePct: Number(p.uptimePct.toFixed(2)),
+        sessions: p.sessions.length,
+        cronJobs: p.cronJobs.length,
+        sessionsTs: p.sessionsTs
+      })),
       snapshots: {
-        sessionsTs: sessionsSnap?.ts ?? null,
-        cronTs: cronSnap?.ts ?? null
+        sessionsTs: newest(perGateway.map((p) => p.sessionsTs)),
+        cronTs: newest(perGateway.map((p) => p.cronTs))
       },
       sessions: {
         count: sessions.length,
@@ -397,29 +1320,30 @@ const server = http.createServer(async (req, res) => {
   }
 
   if (urlObj.pathname === '/api/subagents') {
-    const snap = latestSnapshot('sessions');
-    if (!snap) return sendJson(res, 200, { ok: true, subagents: [], snapshot: null });
-    let payload;
-    try { payload = JSON.parse(snap.payloadJson); } catch { payload = null; }
-    const sessions = Array.isArray(payload?.sessions) ? payload.sessions : [];
-    const subs = sessions
-      .filter((s) => typeof s?.key === 'string' && s.key.includes(':subagent:'))
-      .map((s) => {
-        const last = latestEventForSession(s.key);
-        return {
-          ...s,
-          lastEvent: last
-        };
-      });
-    return sendJson(res, 200, { ok: true, snapshot: { id: snap.id, ts: snap.ts }, subagents: subs });
+    const selected = [...gateways.keys()].filter((id) => !gateway || id === gateway);
+    let snapTs = null;
+    const subs = [];
+    for (const gatewayId of selected) {
+      const snap = latestSnapshotFull('sessions', gatewayId);
+      if (!snap) continue;
+      snapTs = Math.max(snapTs ?? 0, snap.ts);
+      const sessions = Array.isArray(snap.full?.sessions) ? snap.full.sessions : [];
+      for (const s of sessions) {
+        if (typeof s?.key !== 'string' || !s.key.includes(':subagent:')) continue;
+        subs.push({ ...s, gatewayId, lastEvent: latestEventForSession(s.key, gatewayId) });
+      }
+    }
+    return sendJson(res, 200, { ok: true, snapshot: snapTs === null ? null : { ts: snapTs }, subagents: subs });
   }
 
   // Everything else = UI bundle
   return serveStatic(req, res);
 });
 
+stream.attach(server);
+
 const PORT = Number(process.env.PORT ?? 5176);
-server.listen(PORT, '127.0.0.1', () => {
+server.listen(PORT, HOST, () => {
   // eslint-disable-next-line no-console
-  console.log(`monitor dashboard listening on http://localhost:${PORT}`);
+  console.log(`monitor dashboard listening on http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT}${auth.enabled ? ' (auth on)' : ''}`);
 });
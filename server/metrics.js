@@ -0,0 +1,174 @@
+// Prometheus text exposition (format 0.0.4) for /metrics, without a client library.
+//
+// Counters and histograms accumulate for the life of the process; everything derived from the
+// latest snapshots is built as gauges at scrape time.
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabel(v) {
+  return String(v).replaceAll('\\', '\\\\').replaceAll('\n', '\\n').replaceAll('"', '\\"');
+}
+
+function formatValue(v) {
+  if (v === Infinity) return '+Inf';
+  if (v === -Infinity) return '-Inf';
+  return Number.isNaN(v) ? 'NaN' : String(v);
+}
+
+function formatLabels(labels) {
+  const entries = Object.entries(labels ?? {}).filter(([, v]) => v !== undefined && v !== null);
+  if (!entries.length) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`;
+}
+
+const seriesKey = (labelNames, labels) => JSON.stringify(labelNames.map((n) => labels?.[n] ?? ''));
+
+export class Counter {
+  constructor(name, help, labelNames = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.series = new Map();
+    // Unlabelled counters report 0 before their first increment.
+    if (!labelNames.length) this.series.set(seriesKey([], {}), { labels: {}, value: 0 });
+  }
+
+  inc(labels = {}, n = 1) {
+    const key = seriesKey(this.labelNames, labels);
+    const s = this.series.get(key);
+    if (s) s.value += n;
+    else this.series.set(key, { labels: pick(this.labelNames, labels), value: n });
+  }
+
+  collect() {
+    return { name: this.name, help: this.help, type: 'counter', samples: [...this.series.values()] };
+  }
+}
+
+export class Histogram {
+  constructor(name, help, labelNames = [], buckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.series = new Map();
+  }
+
+  observe(labels, value) {
+    const key = seriesKey(this.labelNames, labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels: pick(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((b, i) => { if (value <= b) s.counts[i] += 1; });
+    s.sum += value;
+    s.count += 1;
+  }
+
+  collect() {
+    const samples = [];
+    for (const s of this.series.values()) {
+      this.buckets.forEach((b, i) => {
+        samples.push({ suffix: '_bucket', labels: { ...s.labels, le: formatValue(b) }, value: s.counts[i] });
+      });
+      samples.push({ suffix: '_bucket', labels: { ...s.labels, le: '+Inf' }, value: s.count });
+      samples.push({ suffix: '_sum', labels: s.labels, value: s.sum });
+      samples.push({ suffix: '_count', labels: s.labels, value: s.count });
+    }
+    return { name: this.name, help: this.help, type: 'histogram', samples };
+  }
+}
+
+function pick(names, labels) {
+  return Object.fromEntries(names.map((n) => [n, labels?.[n] ?? '']));
+}
+
+export function gauge(name, help, samples) {
+  return { name, help, type: 'gauge', samples: Array.isArray(samples) ? samples : [{ labels: {}, value: samples }] };
+}
+
+// For totals kept elsewhere (e.g. on GatewayWs) that only need reporting at scrape time.
+export function counter(name, help, samples) {
+  return { ...gauge(name, help, samples), type: 'counter' };
+}
+
+export function renderMetrics(families) {
+  const lines = [];
+  for (const f of families) {
+    if (!f) continue;
+    lines.push(`# HELP ${f.name} ${f.help.replaceAll('\\', '\\\\').replaceAll('\n', '\\n')}`);
+    lines.push(`# TYPE ${f.name} ${f.type}`);
+    for (const s of f.samples) {
+      if (s.value === null || s.value === undefined || Number.isNaN(Number(s.value))) continue;
+      lines.push(`${f.name}${s.suffix ?? ''}${formatLabels(s.labels)} ${formatValue(Number(s.value))}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Per-session series are capped to the `maxSessions` highest-pressure sessions of each gateway so a
+// gateway with thousands of sessions does not blow up the scrape; the rest are only counted.
+// byGateway: [{ gateway, sessions }]
+export function sessionFamilies(byGateway, { maxSessions = 50 } = {}) {
+  const lists = byGateway.map(({ gateway, sessions }) => {
+    const list = (Array.isArray(sessions) ? sessions : []).filter((s) => s?.key);
+    const ranked = [...list].sort((a, b) => (Number(b?.drift?.pressure) || 0) - (Number(a?.drift?.pressure) || 0));
+    return { gateway, total: list.length, kept: ranked.slice(0, Math.max(0, maxSessions)) };
+  });
+  const kept = lists.flatMap((l) => l.kept.map((s) => ({ gateway: l.gateway, s })));
+  const samples = (fn) => kept
+    .map(({ gateway, s }) => ({ labels: { gateway, session: s.key, model: s.model ?? '' }, value: fn(s) }))
+    .filter((x) => x.value !== null && x.value !== undefined && Number.isFinite(Number(x.value)));
+
+  return [
+    gauge('openclaw_sessions', 'Sessions in the latest sessions.list snapshot.',
+      lists.map((l) => ({ labels: { gateway: l.gateway }, value: l.total }))),
+    gauge('openclaw_sessions_omitted', 'Sessions left out of per-session series by the cardinality limit.',
+      lists.map((l) => ({ labels: { gateway: l.gateway }, value: l.total - l.kept.length }))),
+    gauge('openclaw_session_total_tokens', 'Tokens used by the session.', samples((s) => s.totalTokens)),
+    gauge('openclaw_session_context_tokens', 'Context window size of the session.', samples((s) => s.contextTokens)),
+    gauge('openclaw_session_context_pressure_percent', 'totalTokens / contextTokens in percent.', samples((s) => s.drift?.pressure)),
+    gauge('openclaw_session_cost_usd_estimate', 'Locally estimated session cost in USD (server/pricing.json).', samples((s) => s.drift?.cost))
+  ];
+}
+
+// byGateway: [{ gateway, jobs }]
+export function cronFamilies(byGateway, now, { maxJobs = 100 } = {}) {
+  const name = (j) => String(j.name ?? j.id ?? j.jobId ?? 'job');
+  const next = (j) => Number(j.nextRunAtMs ?? j.state?.nextRunAtMs ?? 0) || null;
+  const kept = byGateway.flatMap(({ gateway, jobs }) => (Array.isArray(jobs) ? jobs : [])
+    .filter(Boolean)
+    .slice(0, Math.max(0, maxJobs))
+    .map((j) => ({ labels: { gateway, job: name(j) }, j })));
+  return [
+    gauge('openclaw_cron_jobs', 'Cron jobs in the latest cron.list snapshot.',
+      byGateway.map(({ gateway, jobs }) => ({ labels: { gateway }, value: Array.isArray(jobs) ? jobs.length : 0 }))),
+    gauge('openclaw_cron_job_enabled', '1 if the cron job is enabled.', kept.map(({ labels, j }) => ({ labels, value: j.enabled === false ? 0 : 1 }))),
+    gauge(
+      'openclaw_cron_next_run_lag_seconds',
+      'Seconds since the job was due (negative = time until the next run).',
+      kept.filter(({ j }) => j.enabled !== false && next(j)).map(({ labels, j }) => ({ labels, value: (now - next(j)) / 1000 }))
+    )
+  ];
+}
+
+export function usageCostFamilies(spend) {
+  if (!spend) return [];
+  return [
+    gauge('openclaw_usage_cost_usd', 'Gateway-reported usage cost for the current day, in USD.', spend.totalUsd),
+    gauge('openclaw_usage_cost_model_usd', 'Gateway-reported usage cost for the current day by model, in USD.',
+      (spend.byModel ?? []).map((m) => ({ labels: { model: m.model }, value: m.cost })))
+  ];
+}
+
+// models: RateLimitTracker.status() rows; only limits reported by provider headers have a used ratio.
+export function rateLimitFamilies(models) {
+  const samples = (name) => models
+    .filter((m) => m[name].usedRatio !== null)
+    .map((m) => ({ labels: { gateway: m.gatewayId, provider: m.provider ?? '', model: m.model ?? '' }, value: m[name].usedRatio }));
+  return [
+    gauge('openclaw_rate_limit_requests_used_ratio', 'Share of the provider request limit used, from the latest rate-limit headers (0-1).', samples('requests')),
+    gauge('openclaw_rate_limit_tokens_used_ratio', 'Share of the provider token limit used, from the latest rate-limit headers (0-1).', samples('tokens'))
+  ];
+}
@@ -0,0 +1,229 @@
+// Model attempt outcomes from chat and agent events, attributed to provider/model. A run finishing
+// (`chat.final`) is an ok attempt; `chat.error` and agent lifecycle errors are errors; retry and
+// failover signals are recorded as such. A run whose model changes between events is recorded as an
+// `inferred` failover, since not every gateway version announces the switch.
+//
+// Events that do not name a model are attributed to the model their run last used, else to the
+// session's model from the latest sessions.list snapshot.
+
+import { sessionDimensions } from './budgets.js';
+import { pickBucketMs } from './history.js';
+
+const MAX_RUNS = 5000;
+const MAX_MESSAGE = 200;
+
+const FAILOVER_RE = /fail[ _-]?over|fallback/i;
+
+const ERROR_KINDS = [
+  ['rate_limit', /\b429\b|rate[ _-]?limit|too many requests|quota/i],
+  ['overloaded', /overloaded|\b529\b|\b503\b|capacity|unavailable/i],
+  ['timeout', /timed? ?out|timeout|deadline exceeded/i],
+  ['auth', /\b40[13]\b|unauthori[sz]ed|forbidden|invalid (?:api[ _-]?)?key|authentication|permission/i],
+  ['context_length', /context (?:length|window)|maximum context|too many tokens|prompt is too long/i],
+  ['network', /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network/i],
+  ['server', /\b5\d\d\b|internal server error|bad gateway/i]
+];
+
+export function classifyModelError(message) {
+  const m = String(message ?? '');
+  return ERROR_KINDS.find(([, re]) => re.test(m))?.[0] ?? 'other';
+}
+
+// Request ids and long numbers would otherwise split one error into many groups.
+export function normalizeErrorMessage(message) {
+  if (!message) return null;
+  return String(message)
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b(req|msg|call|run)_[A-Za-z0-9]+/g, '$1_<id>')
+    .replace(/\b\d{4,}\b/g, '<n>')
+    .slice(0, MAX_MESSAGE) || null;
+}
+
+const str = (v) => (typeof v === 'string' && v ? v : null);
+const bare = (m) => String(m ?? '').slice(String(m ?? '').indexOf('/') + 1);
+const providerOf = (model, explicit = null) => explicit ?? (model?.includes('/') ? model.slice(0, model.indexOf('/')) : null);
+// Sessions report `claude-opus-4` plus a provider while events may say `anthropic/claude-opus-4`; both
+// are stored in the prefixed form the model config uses.
+const qualify = (model, provider) => (model && provider && !model.includes('/') ? `${provider}/${model}` : model);
+
+function errorText(e) {
+  if (!e) return null;
+  if (typeof e === 'string') return e;
+  return str(e.message) ?? str(e.error?.message) ?? str(e.error) ?? JSON.stringify(e).slice(0, MAX_MESSAGE);
+}
+
+// The model an event names, if any; agent events nest theirs under `data`.
+function namedModel(p) {
+  for (const o of [p, p?.data, p?.message]) {
+    const model = str(o?.model) ?? str(o?.modelId);
+    if (!model) continue;
+    const provider = providerOf(model, str(o?.provider) ?? str(o?.modelProvider));
+    return { model: qualify(model, provider), provider };
+  }
+  return null;
+}
+
+function failoverOf(event, p) {
+  const d = p?.data ?? {};
+  const pick = (...keys) => keys.map((k) => str(d[k]) ?? str(p?.[k])).find(Boolean) ?? null;
+  const marked = [event, p?.kind, p?.type, p?.stream, p?.phase, p?.reason, d.kind, d.type, d.phase, d.reason]
+    .some((v) => FAILOVER_RE.test(String(v ?? '')));
+  const from = pick('fromModel', 'failedModel', 'previousModel');
+  if (!marked && !from) return null;
+  return {
+    from: from ?? pick('from'),
+    to: pick('toModel', 'nextModel', 'fallbackModel', 'to', 'model'),
+    reason: errorText(d.error ?? p?.error) ?? pick('reason')
+  };
+}
+
+function retryOf(p) {
+  const d = p?.data ?? {};
+  const marked = [p?.stream, p?.phase, p?.kind, d.phase, d.kind, d.type].some((v) => /retry/i.test(String(v ?? '')));
+  if (!marked && !(Number(d.attempt ?? p?.attempt) > 1) && !(d.retry ?? p?.retry)) return null;
+  return { reason: errorText(d.error ?? p?.error) ?? str(d.reason) ?? str(p?.reason) };
+}
+
+// Lifecycle errors only: failed tool calls are the tool's problem, not the model's.
+function agentError(p) {
+  const d = p?.data ?? {};
+  if (p?.stream === 'tool' || p?.tool || d.tool) return null;
+  if (p?.stream !== 'error' && d.phase !== 'error' && p?.phase !== 'error') return null;
+  return errorText(d.error ?? p?.error ?? d.message ?? p?.message) ?? 'error';
+}
+
+export class ModelOutcomeTracker {
+  // onOutcome(outcome) fires for every stored row.
+  constructor({ store, onOutcome = null }) {
+    this.store = store;
+    this.onOutcome = onOutcome;
+    // `${gatewayId}|${sessionKey}` -> { model, provider }
+    this.sessions = new Map();
+    // `${gatewayId}|${runId}` -> { model, provider, erroring }; dropped when the run ends.
+    this.runs = new Map();
+  }
+
+  observeSessions(gatewayId, sessions) {
+    for (const k of this.sessions.keys()) {
+      if (k.startsWith(`${gatewayId}|`)) this.sessions.delete(k);
+    }
+    for (const s of sessions) {
+      const { model, provider } = sessionDimensions(s);
+      if (s?.key && model) this.sessions.set(`${gatewayId}|${s.key}`, { model: qualify(model, provider), provider: providerOf(model, provider) });
+    }
+  }
+
+  // `type` comes from classify() on the raw event; the ids and `payload` from the redacted copy, like
+  // the session keys in the redacted snapshot.
+  observeEvent({ gatewayId, event, type, runId = null, sessionKey = null, payload, eventId = null, ts = Date.now() }) {
+    const failover = failoverOf(event, payload);
+    if (!failover && type !== 'chat' && type !== 'agent') return;
+
+    const runKey = runId ? `${gatewayId}|${runId}` : null;
+    let run = runKey ? this.runs.get(runKey) : null;
+    if (runKey && !run) {
+      run = { model: null, provider: null, erroring: false };
+      this.runs.set(runKey, run);
+      if (this.runs.size > MAX_RUNS) this.runs.delete(this.runs.keys().next().value);
+    }
+    const current = () => (run?.model ? run : this.sessions.get(`${gatewayId}|${sessionKey}`) ?? { model: null, provider: null });
+    const base = { ts, gatewayId, runId, sessionKey, eventId };
+
+    if (failover) {
+      const from = failover.from ? { model: failover.from, provider: providerOf(failover.from) } : current();
+      this._record({
+        ...base,
+        model: from.model,
+        provider: from.provider,
+        outcome: 'failover',
+        toModel: failover.to && bare(failover.to) !== bare(from.model) ? failover.to : null,
+        errorKind: failover.reason ? classifyModelError(failover.reason) : null,
+        message: normalizeErrorMessage(failover.reason),
+        source: 'event'
+      });
+      if (run && failover.to) Object.assign(run, { model: failover.to, provider: providerOf(failover.to), erroring: false });
+      return;
+    }
+
+    const named = namedModel(payload);
+    if (run && named) {
+      if (run.model && bare(named.model) !== bare(run.model)) {
+        this._record({ ...base, model: run.model, provider: run.provider, outcome: 'failover', toModel: named.model, source: 'inferred' });
+        run.erroring = false;
+      }
+      run.model = named.model;
+      run.provider = named.provider ?? run.provider;
+    }
+    const who = named ?? current();
+    const attributed = { ...base, model: who.model, provider: who.provider };
+
+    if (type === 'chat') {
+      const state = payload?.state;
+      if (state === 'final') {
+        this._record({ ...attributed, outcome: 'ok', source: 'event' });
+      } else if (state === 'error' && !run?.erroring) {
+        const message = str(payload?.errorMessage) ?? errorText(payload?.error) ?? 'chat error';
+        this._record({ ...attributed, outcome: 'error', errorKind: classifyModelError(message), message: normalizeErrorMessage(message), source: 'event' });
+      }
+      if (runKey && ['final', 'error', 'aborted'].includes(state)) this.runs.delete(runKey);
+      return;
+    }
+
+    const retry = retryOf(payload);
+    if (retry) {
+      this._record({
+        ...attributed,
+        outcome: 'retry',
+        errorKind: retry.reason ? classifyModelError(retry.reason) : null,
+        message: normalizeErrorMessage(retry.reason),
+        source: 'event'
+      });
+      if (run) run.erroring = false;
+      return;
+    }
+    const error = agentError(payload);
+    // The chat.error that usually follows an agent error is the same failure.
+    if (error && !run?.erroring) {
+      this._record({ ...attributed, outcome: 'error', errorKind: classifyModelError(error), message: normalizeErrorMessage(error), source: 'event' });
+      if (run) run.erroring = true;
+    }
+  }
+
+  _record(outcome) {
+    try {
+      const id = this.store.insertModelOutcome(outcome);
+      this.onOutcome?.({ id, ...outcome });
+    } catch {
+      // ignore
+    }
+  }
+
+  // Per-model attempt counts and error rates, failover transitions, the most common errors and a
+  // bucketed timeline over the window.
+  stats({ gatewayIds, windowMs, now = Date.now() }) {
+    const from = now - windowMs;
+    const bucketMs = pickBucketMs(windowMs, 96);
+    const start = Math.floor(from / bucketMs) * bucketMs;
+    const byBucket = new Map(this.store.modelOutcomeTimeline({ gatewayIds, from: start, bucketMs }).map((r) => [r.ts, r]));
+    const points = [];
+    for (let b = start; b < now; b += bucketMs) {
+      const r = byBucket.get(b);
+      points.push({
+        ts: b,
+        ok: Number(r?.ok ?? 0),
+        errors: Number(r?.errors ?? 0),
+        retries: Number(r?.retries ?? 0),
+        failovers: Number(r?.failovers ?? 0)
+      });
+    }
+    return {
+      models: this.store.modelOutcomeStats({ gatewayIds, from })
+        .sort((a, b) => b.errors - a.errors || b.failovers - a.failovers || b.ok - a.ok),
+      transitions: this.store.modelFailoverTransitions({ gatewayIds, from }),
+      topErrors: this.store.topModelErrors({ gatewayIds, from, limit: 10 }),
+      timeline: { bucketMs, from: start, to: now, points }
+    };
+  }
+}
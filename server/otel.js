@@ -0,0 +1,339 @@
+import crypto from 'node:crypto';
+
+import { DEFAULT_GATEWAY_ID } from './gateways.js';
+import { buildRun, RUN_STATUS_BY_CHAT } from './runs.js';
+
+// Optional OTLP/HTTP (JSON encoding) exporter: agent runs become traces with one child span per
+// tool call, and session gauges plus event counters are sent as OTel metrics.
+// Enabled when OTEL_EXPORTER_OTLP_ENDPOINT (or the per-signal *_TRACES_/*_METRICS_ variants) is set.
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const AGGREGATION_CUMULATIVE = 2;
+
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+const MAX_RUN_EVENTS = 5000;
+
+function parseHeaders(v) {
+  const out = {};
+  for (const part of String(v ?? '').split(',')) {
+    const i = part.indexOf('=');
+    if (i > 0) out[decodeURIComponent(part.slice(0, i).trim())] = decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return out;
+}
+
+function positive(v, fallback) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const hexId = (seed, bytes) => crypto.createHash('sha256').update(seed).digest('hex').slice(0, bytes * 2);
+const nanos = (ms) => `${BigInt(Math.round(ms)) * 1_000_000n}`;
+
+function attr(key, value) {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { key, value: { intValue: String(value) } } : { key, value: { doubleValue: value } };
+  }
+  return { key, value: { stringValue: String(value) } };
+}
+
+const attrs = (obj) => Object.entries(obj).map(([k, v]) => attr(k, v)).filter(Boolean);
+
+// Trace/span ids are derived from the gateway and runId so re-exports of the same run line up in the
+// backend.
+export function runToSpans(run) {
+  const id = `${run.gatewayId ?? DEFAULT_GATEWAY_ID}|${run.runId}`;
+  const traceId = hexId(`run:${id}`, 16);
+  const rootId = hexId(`run:${id}:root`, 8);
+  const failed = run.status === 'error' || run.status === 'aborted';
+  const root = {
+    traceId,
+    spanId: rootId,
+    name: 'agent.run',
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: nanos(run.startTs),
+    endTimeUnixNano: nanos(run.endTs),
+    attributes: attrs({
+      'openclaw.run_id': run.runId,
+      'openclaw.gateway_id': run.gatewayId,
+      'openclaw.session_key': run.sessionKey,
+      'openclaw.run.status': run.status,
+      'openclaw.chat_state': run.chatState,
+      'openclaw.run.event_count': run.eventCount,
+      'openclaw.run.tool_calls': run.toolCalls
+    }),
+    events: run.events
+      .filter((e) => e.type === 'chat' && e.summary && e.summary !== 'chat.delta')
+      .map((e) => ({ timeUnixNano: nanos(e.ts), name: e.summary, attributes: [] })),
+    status: failed ? { code: STATUS_ERROR, message: run.chatState ?? run.status } : run.status === 'ok' ? { code: STATUS_OK } : {}
+  };
+  const children = run.tools.map((c, i) => ({
+    traceId,
+    spanId: hexId(`run:${id}:tool:${i}`, 8),
+    parentSpanId: rootId,
+    name: `tool ${c.tool}`,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: nanos(c.startTs),
+    endTimeUnixNano: nanos(c.endTs),
+    attributes: attrs({
+      'openclaw.tool.name': c.tool,
+      'openclaw.tool.call_id': c.callId,
+      'openclaw.tool.status': c.status
+    }),
+    status: c.status === 'error' ? { code: STATUS_ERROR } : c.status === 'ok' ? { code: STATUS_OK } : {}
+  }));
+  return [root, ...children];
+}
+
+export class OtlpExporter {
+  constructor({
+    tracesUrl,
+    metricsUrl,
+    headers = {},
+    serviceName = 'openclaw-monitor',
+    serviceVersion = null,
+    maxQueue = 2048,
+    maxBatch = 512,
+    flushIntervalMs = 5000,
+    metricsIntervalMs = 30_000,
+    maxRetries = 5,
+    timeoutMs = 10_000,
+    runSettleMs = 2000,
+    runIdleMs = 10 * 60_000,
+    maxSessions = 50
+  }) {
+    this.tracesUrl = tracesUrl;
+    this.metricsUrl = metricsUrl;
+    this.headers = headers;
+    this.resource = { attributes: attrs({ 'service.name': serviceName, 'service.version': serviceVersion }) };
+    this.scope = { name: 'openclaw-monitor', version: serviceVersion ?? undefined };
+    this.opts = { maxQueue, maxBatch, flushIntervalMs, metricsIntervalMs, maxRetries, timeoutMs, runSettleMs, runIdleMs, maxSessions };
+
+    this.queue = [];
+    this.sending = false;
+    this.runs = new Map();
+    // gatewayId -> latest sessions list
+    this.sessions = new Map();
+    this.eventCounts = new Map();
+    this.startedAt = Date.now();
+    this.timers = [];
+    this.stats = {
+      spansExported: 0,
+      spansDropped: 0,
+      spansFailed: 0,
+      metricExports: 0,
+      metricFailures: 0,
+      retries: 0,
+      lastExportAt: null,
+      lastError: null,
+      lastErrorAt: null
+    };
+  }
+
+  // Returns null unless an OTLP endpoint is configured (standard OTEL_* variables).
+  static fromEnv({ serviceVersion = null } = {}) {
+    const env = process.env;
+    const base = (env.OTEL_EXPORTER_OTLP_ENDPOINT ?? '').replace(/\/+$/, '');
+    const tracesUrl = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || (base ? `${base}/v1/traces` : null);
+    const metricsUrl = env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT || (base ? `${base}/v1/metrics` : null);
+    if (!tracesUrl && !metricsUrl) return null;
+    return new OtlpExporter({
+      tracesUrl,
+      metricsUrl,
+      headers: parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+      serviceName: env.OTEL_SERVICE_NAME || 'openclaw-monitor',
+      serviceVersion,
+      maxQueue: positive(env.OTEL_BSP_MAX_QUEUE_SIZE, 2048),
+      maxBatch: positive(env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE, 512),
+      flushIntervalMs: positive(env.OTEL_BSP_SCHEDULE_DELAY, 5000),
+      metricsIntervalMs: positive(env.OTEL_METRIC_EXPORT_INTERVAL, 30_000),
+      timeoutMs: positive(env.OTEL_EXPORTER_OTLP_TIMEOUT, 10_000)
+    });
+  }
+
+  start() {
+    if (this.timers.length) return;
+    this.timers.push(setInterval(() => {
+      this._finishSettledRuns(Date.now());
+      void this.flush();
+    }, Math.min(this.opts.flushIntervalMs, this.opts.runSettleMs)));
+    if (this.metricsUrl) this.timers.push(setInterval(() => void this.exportMetrics(), this.opts.metricsIntervalMs));
+  }
+
+  stop() {
+    for (const t of this.timers) clearInterval(t);
+    this.timers = [];
+  }
+
+  // Called for every stored event row (with id and payloadJson).
+  observeEvent(row) {
+    const key = `${row.gatewayId ?? DEFAULT_GATEWAY_ID}|${row.type}|${row.tool ?? ''}`;
+    this.eventCounts.set(key, (this.eventCounts.get(key) ?? 0) + 1);
+    if (!row.runId || !this.tracesUrl) return;
+
+    // Keyed by gateway too: two gateways can hand out the same runId.
+    const runKey = `${row.gatewayId ?? DEFAULT_GATEWAY_ID}|${row.runId}`;
+    let run = this.runs.get(runKey);
+    if (!run) {
+      run = { runId: row.runId, events: [], terminalAt: null, lastTs: row.ts };
+      this.runs.set(runKey, run);
+    }
+    // Runaway runs keep their first MAX_RUN_EVENTS events (plus the latest, so the span still ends on time).
+    if (run.events.length < MAX_RUN_EVENTS) run.events.push(row);
+    else run.events[run.events.length - 1] = row;
+    run.lastTs = row.ts;
+    if (row.type === 'chat' && RUN_STATUS_BY_CHAT[row.summary]) run.terminalAt = row.ts;
+  }
+
+  recordSessions(sessions, gatewayId = DEFAULT_GATEWAY_ID) {
+    const tagged = (Array.isArray(sessions) ? sessions : []).map((s) => ({ ...s, gatewayId }));
+    this.sessions.set(gatewayId, tagged);
+  }
+
+  // A run is exported once it has a final chat state and has been quiet for runSettleMs (to pick
+  // up trailing tool results), or when it has been idle for runIdleMs without finishing.
+  _finishSettledRuns(now) {
+    for (const [runKey, run] of this.runs) {
+      const settled = run.terminalAt !== null && now - run.lastTs >= this.opts.runSettleMs;
+      const abandoned = now - run.lastTs >= this.opts.runIdleMs;
+      if (!settled && !abandoned) continue;
+      this.runs.delete(runKey);
+      this._enqueue(runToSpans(buildRun(run.runId, run.events)));
+    }
+  }
+
+  _enqueue(spans) {
+    const room = this.opts.maxQueue - this.queue.length;
+    if (room < spans.length) {
+      // Backpressure: when the collector cannot keep up, new spans are dropped rather than
+      // letting the queue grow without bound.
+      this.stats.spansDropped += spans.length - Math.max(0, room);
+      spans = spans.slice(0, Math.max(0, room));
+    }
+    this.queue.push(...spans);
+    if (this.queue.length >= this.opts.maxBatch) void this.flush();
+  }
+
+  async flush() {
+    if (this.sending || !this.queue.length || !this.tracesUrl) return;
+    this.sending = true;
+    try {
+      while (this.queue.length) {
+        const batch = this.queue.slice(0, this.opts.maxBatch);
+        const body = { resourceSpans: [{ resource: this.resource, scopeSpans: [{ scope: this.scope, spans: batch }] }] };
+        const ok = await this._post(this.tracesUrl, body);
+        this.queue.splice(0, batch.length);
+        if (ok) this.stats.spansExported += batch.length;
+        else this.stats.spansFailed += batch.length;
+      }
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  _metricsBody(now) {
+    const sessions = [...this.sessions.values()].flat()
+      .filter((s) => s?.key)
+      .sort((a, b) => (Number(b?.drift?.pressure) || 0) - (Number(a?.drift?.pressure) || 0))
+      .slice(0, this.opts.maxSessions);
+    const time = nanos(now);
+    const point = (s, value) => ({
+      timeUnixNano: time,
+      asDouble: Number(value),
+      attributes: attrs({ 'openclaw.gateway_id': s.gatewayId, 'openclaw.session_key': s.key, 'openclaw.model': s.model ?? null })
+    });
+    const sessionGauge = (name, unit, description, fn) => ({
+      name,
+      unit,
+      description,
+      gauge: {
+        dataPoints: sessions
+          .filter((s) => fn(s) !== null && fn(s) !== undefined && Number.isFinite(Number(fn(s))))
+          .map((s) => point(s, fn(s)))
+      }
+    });
+
+    const metrics = [
+      sessionGauge('openclaw.session.tokens', '{token}', 'Tokens used by the session.', (s) => s.totalTokens),
+      sessionGauge('openclaw.session.context_tokens', '{token}', 'Context window size of the session.', (s) => s.contextTokens),
+      sessionGauge('openclaw.session.context_pressure', '%', 'totalTokens / contextTokens in percent.', (s) => s.drift?.pressure),
+      sessionGauge('openclaw.session.cost_estimate', 'USD', 'Locally estimated session cost.', (s) => s.drift?.cost),
+      {
+        name: 'openclaw.gateway.events',
+        unit: '{event}',
+        description: 'Gateway events received, by type and tool.',
+        sum: {
+          aggregationTemporality: AGGREGATION_CUMULATIVE,
+          isMonotonic: true,
+          dataPoints: [...this.eventCounts].map(([key, n]) => {
+            const [gatewayId, type, tool] = key.split('|');
+            return {
+              startTimeUnixNano: nanos(this.startedAt),
+              timeUnixNano: time,
+              asInt: String(n),
+              attributes: attrs({ 'openclaw.gateway_id': gatewayId, 'openclaw.event.type': type, 'openclaw.tool.name': tool || null })
+            };
+          })
+        }
+      }
+    ];
+    return { resourceMetrics: [{ resource: this.resource, scopeMetrics: [{ scope: this.scope, metrics }] }] };
+  }
+
+  async exportMetrics(now = Date.now()) {
+    if (!this.metricsUrl) return;
+    const ok = await this._post(this.metricsUrl, this._metricsBody(now));
+    if (ok) this.stats.metricExports += 1;
+    else this.stats.metricFailures += 1;
+  }
+
+  // POST with exponential backoff on network errors and retryable statuses (honours Retry-After).
+  async _post(url, body) {
+    const payload = JSON.stringify(body);
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs = null;
+      try {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...this.headers },
+          body: payload,
+          signal: AbortSignal.timeout(this.opts.timeoutMs)
+        });
+        if (res.ok) {
+          this.stats.lastExportAt = Date.now();
+          return true;
+        }
+        this._error(`${url} responded ${res.status}`);
+        if (!RETRYABLE_STATUS.has(res.status)) return false;
+        const ra = Number(res.headers.get('retry-after'));
+        if (Number.isFinite(ra) && ra >= 0) retryAfterMs = ra * 1000;
+      } catch (err) {
+        this._error(String(err?.message ?? err));
+      }
+      if (attempt >= this.opts.maxRetries) return false;
+      this.stats.retries += 1;
+      const backoff = retryAfterMs ?? Math.min(30_000, 1000 * 2 ** attempt) * (0.5 + Math.random() / 2);
+      await new Promise((r) => setTimeout(r, backoff));
+    }
+  }
+
+  _error(msg) {
+    this.stats.lastError = msg;
+    this.stats.lastErrorAt = Date.now();
+  }
+
+  status() {
+    return {
+      enabled: true,
+      tracesUrl: this.tracesUrl,
+      metricsUrl: this.metricsUrl,
+      queued: this.queue.length,
+      openRuns: this.runs.size,
+      ...this.stats
+    };
+  }
+}
@@ -1,8 +1,11 @@
 export class Poller {
-  constructor({ gw, insertEvent, onSnapshot }) {
+  constructor({ gw, insertEvent, onSnapshot, onRequest = null, pricing = null }) {
     this.gw = gw;
     this.insertEvent = insertEvent;
     this.onSnapshot = onSnapshot;
+    // onRequest({ method, ms, ok, error }) after every gateway request (used for /metrics).
+    this.onRequest = onRequest;
+    this.pricing = pricing;
     this.timers = [];
     this.running = false;
   }
@@ -27,18 +30,43 @@ export class Poller {
     this.timers = [];
   }
 
+  // Polls one snapshot kind right away, e.g. after an operator action changed it.
+  refresh(kind) {
+    return kind === 'cron' ? this._pollCron() : this._pollSessions();
+  }
+
+  async _request(method, params) {
+    const started = performance.now();
+    try {
+      const payload = await this.gw.request(method, params);
+      this.onRequest?.({ method, ms: performance.now() - started, ok: true, error: null });
+      return payload;
+    } catch (err) {
+      this.onRequest?.({ method, ms: performance.now() - started, ok: false, error: err });
+      throw err;
+    }
+  }
+
   async _pollSessions() {
     try {
-      const payload = await this.gw.request('sessions.list', { includeGlobal: true, includeUnknown: true, limit: 500 });
+      const payload = await this._request('sessions.list', { includeGlobal: true, includeUnknown: true, limit: 500 });
       
-      // Augment sessions with drift metrics
+      // Augment sessions with drift metrics (context pressure + local cost estimate)
       if (payload && Array.isArray(payload.sessions)) {
         payload.sessions = payload.sessions.map(s => {
           const pressure = s.contextTokens > 0 ? (s.totalTokens / s.contextTokens) * 100 : 0;
+          const est = this.pricing?.estimateSession(s) ?? null;
           return {
             ...s,
             drift: {
-              pressure: Number(pressure.toFixed(2))
+              pressure: Number(pressure.toFixed(2)),
+              ...(est ? {
+                cost: est.cost,
+                costBreakdown: est.breakdown,
+                costUnpriced: est.unpriced,
+                pricingModel: est.pricingKey,
+                pricingMatch: est.pricingMatch
+              } : {})
             }
           };
         });
@@ -52,7 +80,7 @@ export class Poller {
 
   async _pollCron() {
     try {
-      const payload = await this.gw.request('cron.list', { includeDisabled: true });
+      const payload = await this._request('cron.list', { includeDisabled: true });
       this.onSnapshot?.({ kind: 'cron', payload });
     } catch {
       // ignore
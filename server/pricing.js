@@ -0,0 +1,94 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// pricing.json rates are USD per 1K tokens.
+const PER_TOKENS = 1000;
+
+function num(v) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function round(n) {
+  return Number(n.toFixed(6));
+}
+
+export class PricingEngine {
+  constructor(table) {
+    this.models = table?.models && typeof table.models === 'object' ? table.models : {};
+    this.fallback = table?.default ?? null;
+    this._cache = new Map();
+  }
+
+  static load(rootDir) {
+    const p = join(rootDir, 'server', 'pricing.json');
+    try {
+      return new PricingEngine(JSON.parse(readFileSync(p, 'utf8')));
+    } catch {
+      return new PricingEngine(null);
+    }
+  }
+
+  // Resolve a session model to a pricing entry. Order: exact id, provider-prefixed id,
+  // bare id (prefix stripped), any provider entry with the same bare id, then `default`.
+  resolve(model, provider = null) {
+    const id = typeof model === 'string' ? model.trim() : '';
+    const cacheKey = `${provider ?? ''}|${id}`;
+    if (this._cache.has(cacheKey)) return this._cache.get(cacheKey);
+
+    let hit = null;
+    if (id) {
+      const slash = id.indexOf('/');
+      const bare = slash >= 0 ? id.slice(slash + 1) : id;
+      const candidates = [id];
+      if (slash < 0 && provider) candidates.push(`${provider}/${id}`);
+      if (slash >= 0) candidates.push(bare);
+      for (const key of candidates) {
+        if (this.models[key]) { hit = { key, rates: this.models[key], match: key === id ? 'exact' : 'alias' }; break; }
+      }
+      if (!hit) {
+        const key = Object.keys(this.models).find((k) => k.endsWith(`/${bare}`));
+        if (key) hit = { key, rates: this.models[key], match: 'alias' };
+      }
+    }
+    if (!hit && this.fallback) hit = { key: 'default', rates: this.fallback, match: 'default' };
+
+    this._cache.set(cacheKey, hit);
+    return hit;
+  }
+
+  // Estimate cost for a sessions.list row. Tokens are only priced at a rate pricing.json lists for
+  // the model (no cacheRead/cacheWrite fallback to the input rate): a part without one is null in
+  // `breakdown`, left out of `cost`, and named in `unpriced`, so `cost` is then a lower bound.
+  estimateSession(s) {
+    const hit = this.resolve(s?.model, s?.modelProvider ?? s?.provider ?? null);
+    if (!hit) return null;
+
+    const r = hit.rates;
+    const unpriced = [];
+    const part = (name, tokens, rate) => {
+      if (!tokens) return 0;
+      if (rate === undefined || rate === null) { unpriced.push(name); return null; }
+      return (tokens / PER_TOKENS) * num(rate);
+    };
+
+    const input = part('input', num(s?.inputTokens), r.input);
+    const output = part('output', num(s?.outputTokens), r.output);
+    const cacheRead = part('cacheRead', num(s?.cacheRead ?? s?.cacheReadTokens), r.cacheRead);
+    const cacheWrite = part('cacheWrite', num(s?.cacheWrite ?? s?.cacheWriteTokens), r.cacheWrite);
+    const priced = (v) => (v === null ? null : round(v));
+
+    return {
+      cost: round((input ?? 0) + (output ?? 0) + (cacheRead ?? 0) + (cacheWrite ?? 0)),
+      breakdown: {
+        input: priced(input),
+        output: priced(output),
+        cacheRead: priced(cacheRead),
+        cacheWrite: priced(cacheWrite)
+      },
+      unpriced,
+      pricingKey: hit.key,
+      pricingMatch: hit.match
+    };
+  }
+}
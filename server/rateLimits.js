@@ -0,0 +1,266 @@
+// Rate-limit telemetry. Gateway events carry whatever the provider sent back, so each payload is walked
+// for throttles (HTTP 429, rate-limit/quota errors), model failovers, retry-after hints and the
+// remaining-requests/tokens headers (OpenAI `x-ratelimit-*`, Anthropic `anthropic-ratelimit-*`).
+// Signals are stored in `rate_limit_samples`; quota-only samples at most once per model per minute.
+
+import { pickBucketMs } from './history.js';
+
+const DEFAULT_SAMPLE_INTERVAL_MS = 60_000;
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A throttle this recent marks the model as throttled even without a retry-after hint.
+const RECENT_THROTTLE_MS = 5 * 60_000;
+const WARN_RATIO = 0.8;
+const MAX_DEPTH = 6;
+const MAX_MESSAGE = 300;
+
+const THROTTLE_RE = /\b429\b|rate[ _-]?limit|too many requests|quota|overloaded|resource[ _-]?exhausted/i;
+const FAILOVER_RE = /fail[ _-]?over|fallback/i;
+const ERROR_KEYS = new Set(['error', 'errormessage', 'lasterror', 'stopreason', 'code', 'errorcode']);
+const FAILOVER_KEYS = new Set(['kind', 'type', 'phase', 'stream', 'action', 'reason']);
+const FROM_MODEL_KEYS = new Set(['frommodel', 'failedmodel', 'previousmodel']);
+
+const normKey = (k) => String(k).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function num(v) {
+  if (v === null || v === undefined || v === '' || typeof v === 'boolean') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+const round = (n) => (n === null ? null : Number(n.toFixed(4)));
+
+const UNIT_MS = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+// Go-style durations such as "6m0s" or "20ms" (OpenAI's reset headers).
+function parseResetDuration(v) {
+  const s = String(v).trim();
+  const parts = [...s.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (!parts.length || parts.map((p) => p[0]).join('') !== s) return null;
+  return parts.reduce((acc, [, n, unit]) => acc + Number(n) * UNIT_MS[unit], 0);
+}
+
+// Reset hints come as seconds from now, epoch seconds or ms, ISO timestamps or durations.
+function resetTime(v, now) {
+  const n = num(v);
+  if (n !== null) return Math.round(n > 1e12 ? n : n > 1e9 ? n * 1000 : now + n * 1000);
+  const d = parseResetDuration(v);
+  if (d !== null) return Math.round(now + d);
+  const t = Date.parse(String(v));
+  return Number.isFinite(t) ? t : null;
+}
+
+// Retry-After is seconds or an HTTP date; `retryAfterMs` style keys are already milliseconds.
+function retryAfter(key, v, now) {
+  const n = num(v);
+  if (n !== null) return Math.max(0, Math.round(key.endsWith('ms') ? n : n * 1000));
+  const t = Date.parse(String(v));
+  return Number.isFinite(t) ? Math.max(0, t - now) : null;
+}
+
+// -> { kind: 'throttle' | 'failover' | 'quota', provider, model, status, retryAfterMs, message, requests, tokens }
+// or null when the event says nothing about rate limits. `requests`/`tokens` are { limit, remaining, resetAt }.
+export function extractRateLimitSignal(event, payload, now = Date.now()) {
+  const sig = {
+    provider: null,
+    model: null,
+    fromModel: null,
+    status: null,
+    retryAfterMs: null,
+    message: null,
+    throttled: false,
+    failover: FAILOVER_RE.test(String(event ?? '')),
+    requests: { limit: null, remaining: null, resetAt: null },
+    tokens: { limit: null, remaining: null, resetAt: null }
+  };
+
+  // `prefix` carries a parent `rateLimit` key down to camelCase children (`rateLimit.remainingRequests`);
+  // `inError` limits message matching to error objects so chat text mentioning quotas is not a throttle.
+  const walk = (node, depth, prefix, inError) => {
+    if (!node || typeof node !== 'object' || depth > MAX_DEPTH) return;
+    if (Array.isArray(node)) {
+      for (const item of node) walk(item, depth + 1, prefix, inError);
+      return;
+    }
+    for (const [rawKey, v] of Object.entries(node)) {
+      const k = normKey(rawKey);
+      const rk = k.includes('ratelimit') ? k : prefix + k;
+      if (v && typeof v === 'object') {
+        walk(v, depth + 1, k.includes('ratelimit') ? 'ratelimit' : prefix, inError || k.includes('error'));
+        continue;
+      }
+      if ((k === 'model' || k === 'modelid') && typeof v === 'string') sig.model ??= v;
+      else if ((k === 'provider' || k === 'modelprovider') && typeof v === 'string') sig.provider ??= v;
+      else if (FROM_MODEL_KEYS.has(k) && typeof v === 'string') sig.fromModel ??= v;
+      else if ((k === 'status' || k === 'statuscode' || k === 'httpstatus') && num(v) === 429) sig.status = 429;
+      else if (k.startsWith('retryafter')) sig.retryAfterMs ??= retryAfter(k, v, now);
+      else if (rk.includes('ratelimit') && !/inputtokens|outputtokens/.test(rk)) {
+        const resource = rk.includes('token') ? 'tokens' : rk.includes('request') ? 'requests' : null;
+        const rest = rk.replace('ratelimit', '');
+        const field = rest.includes('remaining') ? 'remaining' : rest.includes('reset') ? 'resetAt' : rest.includes('limit') ? 'limit' : null;
+        if (resource && field) sig[resource][field] ??= field === 'resetAt' ? resetTime(v, now) : num(v);
+      } else if (k === 'failover' && v === true) {
+        sig.failover = true;
+      } else if (typeof v === 'string') {
+        if ((ERROR_KEYS.has(k) || (inError && k === 'message')) && THROTTLE_RE.test(v)) {
+          sig.throttled = true;
+          sig.message ??= v.slice(0, MAX_MESSAGE);
+        }
+        if (FAILOVER_KEYS.has(k) && FAILOVER_RE.test(v)) sig.failover = true;
+      }
+    }
+  };
+  walk(payload, 0, '', false);
+
+  const hasQuota = [sig.requests, sig.tokens].some((r) => r.limit !== null || r.remaining !== null);
+  const throttled = sig.throttled || sig.status === 429 || sig.retryAfterMs !== null;
+  if (!sig.failover && !throttled && !hasQuota) return null;
+
+  // A failover is charged to the model that was given up on.
+  const model = (sig.failover ? sig.fromModel : null) ?? sig.model ?? sig.fromModel;
+  return {
+    kind: sig.failover ? 'failover' : throttled ? 'throttle' : 'quota',
+    provider: sig.provider ?? (model?.includes('/') ? model.slice(0, model.indexOf('/')) : null),
+    model,
+    status: sig.status,
+    retryAfterMs: sig.retryAfterMs,
+    message: sig.message,
+    requests: sig.requests,
+    tokens: sig.tokens
+  };
+}
+
+const groupKey = (r) => `${r.gatewayId}|${r.provider ?? ''}|${r.model ?? ''}`;
+const hasQuotaRow = (r) => r.requestsLimit !== null || r.tokensLimit !== null;
+
+// Header values win over manual caps; a sample whose provider window has reset no longer counts as usage.
+function resourceStatus(row, name, manualCap, now) {
+  const limit = row?.[`${name}Limit`] ?? null;
+  if (limit) {
+    const resetAt = row[`${name}ResetAt`] ?? null;
+    const current = !resetAt || resetAt > now;
+    const remaining = current ? row[`${name}Remaining`] ?? null : limit;
+    return {
+      limit,
+      remaining,
+      resetAt: current ? resetAt : null,
+      usedRatio: remaining === null ? null : round(Math.min(1, Math.max(0, 1 - remaining / limit))),
+      capSource: 'headers',
+      sampledAt: row.ts
+    };
+  }
+  return { limit: manualCap, remaining: null, resetAt: null, usedRatio: null, capSource: manualCap ? 'manual' : null, sampledAt: null };
+}
+
+export class RateLimitTracker {
+  // metadata: model-metadata.json, for manual rpm/tpm caps. onSample(sample) fires for every stored sample.
+  constructor({ store, metadata = null, onSample = null, sampleIntervalMs = DEFAULT_SAMPLE_INTERVAL_MS }) {
+    this.store = store;
+    this.metadata = metadata;
+    this.onSample = onSample;
+    this.sampleIntervalMs = sampleIntervalMs;
+    // `${gatewayId}|${provider}|${model}` -> ts of the last stored quota-only sample
+    this.lastQuota = new Map();
+  }
+
+  // `payload` is the redacted event payload; rate-limit headers and error text survive redaction.
+  observeEvent({ gatewayId, event, payload, eventId = null, ts = Date.now() }) {
+    const sig = extractRateLimitSignal(event, payload, ts);
+    if (!sig) return null;
+    const sample = { ts, gatewayId, eventId, ...sig };
+    if (sig.kind === 'quota') {
+      const k = groupKey(sample);
+      if (ts - (this.lastQuota.get(k) ?? 0) < this.sampleIntervalMs) return null;
+      this.lastQuota.set(k, ts);
+    }
+    try {
+      sample.id = this.store.insertRateLimitSample(sample);
+    } catch {
+      return null;
+    }
+    this.onSample?.(sample);
+    return sample;
+  }
+
+  _manualCaps(model) {
+    const models = this.metadata?.models ?? {};
+    const bare = String(model ?? '').slice(String(model ?? '').indexOf('/') + 1);
+    const caps = models[model] ?? models[bare] ?? this.metadata?.defaults ?? {};
+    return { rpm: num(caps.rpm) || null, tpm: num(caps.tpm) || null };
+  }
+
+  // One row per gateway/provider/model seen in the window, most constrained first.
+  status({ gatewayIds, windowMs = DEFAULT_WINDOW_MS, now = Date.now() }) {
+    const from = now - windowMs;
+    const latest = new Map();
+    for (const r of this.store.latestRateLimitSamples({ gatewayIds, from })) {
+      const k = groupKey(r);
+      if (!latest.has(k)) latest.set(k, []);
+      latest.get(k).push(r);
+    }
+
+    const models = this.store.rateLimitStats({ gatewayIds, from }).map((s) => {
+      const rows = latest.get(groupKey(s)) ?? [];
+      const quota = rows.filter(hasQuotaRow).sort((a, b) => b.ts - a.ts)[0] ?? null;
+      const throttle = rows.find((r) => r.kind === 'throttle') ?? null;
+      const caps = this._manualCaps(s.model);
+      const requests = resourceStatus(quota, 'requests', caps.rpm, now);
+      const tokens = resourceStatus(quota, 'tokens', caps.tpm, now);
+      const ratios = [requests.usedRatio, tokens.usedRatio].filter((r) => r !== null);
+      const usedRatio = ratios.length ? Math.max(...ratios) : null;
+
+      const retryUntil = throttle?.retryAfterMs !== null && throttle?.retryAfterMs !== undefined ? throttle.ts + throttle.retryAfterMs : null;
+      // Time until the model is usable again: the retry-after hint, or the reset of a nearly used-up limit.
+      const resets = [retryUntil, ...[requests, tokens].filter((r) => r.usedRatio >= WARN_RATIO).map((r) => r.resetAt)]
+        .filter((t) => t && t > now);
+      const throttledNow = (retryUntil && retryUntil > now) || (s.lastThrottleAt && now - s.lastThrottleAt < RECENT_THROTTLE_MS);
+      const status = throttledNow
+        ? 'throttled'
+        : usedRatio >= WARN_RATIO || s.throttles > 0 || s.failovers > 0 ? 'warning' : 'ok';
+
+      return {
+        gatewayId: s.gatewayId,
+        provider: s.provider,
+        model: s.model,
+        status,
+        throttles: Number(s.throttles ?? 0),
+        failovers: Number(s.failovers ?? 0),
+        lastThrottleAt: s.lastThrottleAt,
+        lastFailoverAt: s.lastFailoverAt,
+        lastSeenAt: s.lastSeenAt,
+        lastMessage: throttle?.message ?? null,
+        retryAfterMs: throttle?.retryAfterMs ?? null,
+        retryUntil,
+        requests,
+        tokens,
+        usedRatio,
+        resetInMs: resets.length ? Math.max(...resets) - now : null
+      };
+    });
+
+    const rank = { throttled: 0, warning: 1, ok: 2 };
+    return models.sort((a, b) => rank[a.status] - rank[b.status] || (b.usedRatio ?? -1) - (a.usedRatio ?? -1) || b.throttles - a.throttles);
+  }
+
+  // Throttles, failovers and peak used ratios per provider, bucketed over the window.
+  history({ gatewayIds, windowMs = DEFAULT_WINDOW_MS, now = Date.now() }) {
+    const bucketMs = pickBucketMs(windowMs, 96);
+    const start = Math.floor((now - windowMs) / bucketMs) * bucketMs;
+    const buckets = [];
+    for (let b = start; b < now; b += bucketMs) buckets.push(b);
+
+    const series = new Map();
+    for (const r of this.store.rateLimitHistory({ gatewayIds, from: start, bucketMs })) {
+      const provider = r.provider ?? null;
+      if (!series.has(provider)) {
+        series.set(provider, buckets.map((ts) => ({ ts, throttles: 0, failovers: 0, requestsUsed: null, tokensUsed: null })));
+      }
+      const point = series.get(provider)[Math.round((r.ts - start) / bucketMs)];
+      if (!point) continue;
+      point.throttles = Number(r.throttles ?? 0);
+      point.failovers = Number(r.failovers ?? 0);
+      point.requestsUsed = r.requestsUsed === null ? null : round(Math.max(0, r.requestsUsed));
+      point.tokensUsed = r.tokensUsed === null ? null : round(Math.max(0, r.tokensUsed));
+    }
+    return { bucketMs, from: start, to: now, series: [...series.entries()].map(([provider, points]) => ({ provider, points })) };
+  }
+}
@@ -0,0 +1,188 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+export const REDACTION_ACTIONS = ['mask', 'hash', 'drop', 'truncate'];
+
+const DROP = Symbol('drop');
+
+const DEFAULT_CONFIG = {
+  enabled: true,
+  hashSecretEnv: 'MONITOR_REDACTION_SECRET',
+  rules: []
+};
+
+// Paths are dot-separated key names; `*` matches one segment (including array indices), `**` any
+// number of segments. Key names compare case-insensitively.
+function compilePath(path) {
+  return String(path).split('.').filter(Boolean).map((seg) => seg.toLowerCase());
+}
+
+function matchPath(pattern, segs, pi = 0, si = 0) {
+  if (pi === pattern.length) return si === segs.length;
+  const p = pattern[pi];
+  if (p === '**') {
+    for (let k = si; k <= segs.length; k += 1) if (matchPath(pattern, segs, pi + 1, k)) return true;
+    return false;
+  }
+  if (si === segs.length) return false;
+  return (p === '*' || p === segs[si]) && matchPath(pattern, segs, pi + 1, si + 1);
+}
+
+function compileRule(rule, i) {
+  const id = String(rule?.id ?? `rule${i}`);
+  const action = rule?.action ?? 'mask';
+  if (!REDACTION_ACTIONS.includes(action)) throw new Error(`redaction rule ${id}: action must be one of ${REDACTION_ACTIONS.join(', ')}`);
+  const pathSources = (Array.isArray(rule.paths) ? rule.paths : rule.path ? [rule.path] : []).map(String);
+  const paths = pathSources.map(compilePath);
+  let pattern = null;
+  if (rule.pattern) {
+    try {
+      pattern = new RegExp(rule.pattern, `g${rule.ignoreCase ? 'i' : ''}`);
+    } catch (e) {
+      throw new Error(`redaction rule ${id}: invalid pattern: ${e.message}`);
+    }
+  }
+  if (!paths.length && !pattern) throw new Error(`redaction rule ${id}: needs "paths" or "pattern"`);
+  if (pattern && (action === 'drop' || action === 'truncate')) throw new Error(`redaction rule ${id}: "${action}" cannot be combined with a pattern`);
+  const maxLength = Math.max(0, Number(rule.maxLength ?? 2000));
+  return { id, action, paths, pathSources, pattern, maxLength };
+}
+
+// Secret used for `hash` so the same value always maps to the same marker. Without the env var a
+// random one is kept next to the database, so markers stay stable across restarts.
+export function loadHashSecret(rootDir, envName) {
+  if (envName && process.env[envName]) return process.env[envName];
+  const dir = join(rootDir, 'state');
+  const p = join(dir, 'redaction.key');
+  try {
+    return readFileSync(p, 'utf8').trim();
+  } catch {
+    const secret = randomBytes(32).toString('hex');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(p, secret, { mode: 0o600 });
+    chmodSync(p, 0o600);
+    return secret;
+  }
+}
+
+// Rewrites event and snapshot payloads before they are stored or streamed. Per value, the first
+// matching path-only rule wins and masks, hashes or drops the whole value. Surviving strings then go
+// through every pattern rule (limited to its `paths` when it has any) and finally truncation.
+export class Redactor {
+  constructor({ config = {}, secret = null } = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rules = (Array.isArray(this.config.rules) ? this.config.rules : []).map(compileRule);
+    this.secret = secret;
+    this.hits = new Map(this.rules.map((r) => [r.id, 0]));
+    if (this.rules.some((r) => r.action === 'hash') && !secret) throw new Error('redaction: "hash" rules need a secret');
+  }
+
+  // Like auth.json, a broken file must not quietly turn redaction off: only a missing default file
+  // falls back to no rules. A file named by MONITOR_REDACTION_CONFIG has to exist.
+  static loadConfig(rootDir) {
+    const explicit = process.env.MONITOR_REDACTION_CONFIG;
+    const p = explicit || join(rootDir, 'server', 'redaction.json');
+    let raw;
+    try {
+      raw = readFileSync(p, 'utf8');
+    } catch (err) {
+      if (err?.code === 'ENOENT' && !explicit) return DEFAULT_CONFIG;
+      throw new Error(`redaction config ${p}: ${err?.message ?? err}`);
+    }
+    let config;
+    try {
+      config = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`redaction config ${p}: ${err?.message ?? err}`);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error(`redaction config ${p}: expected a JSON object`);
+    if (config.rules !== undefined && !Array.isArray(config.rules)) throw new Error(`redaction config ${p}: "rules" must be an array`);
+    return config;
+  }
+
+  get enabled() {
+    return this.config.enabled !== false && this.rules.length > 0;
+  }
+
+  // -> { value, count } where count is the number of replacements made.
+  redact(input) {
+    if (!this.enabled) return { value: input, count: 0 };
+    const counter = { count: 0 };
+    const value = this._walk(input, [], counter);
+    return { value: value === DROP ? undefined : value, count: counter.count };
+  }
+
+  status() {
+    return {
+      enabled: this.enabled,
+      rules: this.rules.map((r) => ({
+        id: r.id,
+        action: r.action,
+        paths: r.pathSources,
+        pattern: r.pattern?.source ?? null,
+        hits: this.hits.get(r.id) ?? 0
+      }))
+    };
+  }
+
+  _hit(rule, counter) {
+    this.hits.set(rule.id, (this.hits.get(rule.id) ?? 0) + 1);
+    counter.count += 1;
+  }
+
+  _hash(rule, value) {
+    const digest = createHmac('sha256', this.secret).update(typeof value === 'string' ? value : JSON.stringify(value)).digest('hex');
+    return `[HASH:${rule.id}:${digest.slice(0, 12)}]`;
+  }
+
+  _walk(value, segs, counter) {
+    if (segs.length) {
+      const pathRule = this.rules.find((r) => !r.pattern && r.action !== 'truncate' && r.paths.some((p) => matchPath(p, segs)));
+      if (pathRule && value !== null && value !== undefined) {
+        this._hit(pathRule, counter);
+        if (pathRule.action === 'drop') return DROP;
+        if (pathRule.action === 'hash') return this._hash(pathRule, value);
+        return `[REDACTED:${pathRule.id}]`;
+      }
+    }
+
+    if (Array.isArray(value)) {
+      const out = [];
+      value.forEach((v, i) => {
+        const next = this._walk(v, [...segs, String(i)], counter);
+        if (next !== DROP) out.push(next);
+      });
+      return out;
+    }
+    if (value && typeof value === 'object') {
+      const out = {};
+      for (const [k, v] of Object.entries(value)) {
+        const next = this._walk(v, [...segs, k.toLowerCase()], counter);
+        if (next !== DROP) out[k] = next;
+      }
+      return out;
+    }
+    if (typeof value === 'string') return this._string(value, segs, counter);
+    return value;
+  }
+
+  _string(value, segs, counter) {
+    let s = value;
+    for (const rule of this.rules) {
+      if (!rule.pattern) continue;
+      if (rule.paths.length && !rule.paths.some((p) => matchPath(p, segs))) continue;
+      rule.pattern.lastIndex = 0;
+      s = s.replace(rule.pattern, (m) => {
+        this._hit(rule, counter);
+        return rule.action === 'hash' ? this._hash(rule, m) : `[REDACTED:${rule.id}]`;
+      });
+    }
+    const cut = this.rules.find((r) => r.action === 'truncate' && s.length > r.maxLength && r.paths.some((p) => matchPath(p, segs)));
+    if (cut) {
+      this._hit(cut, counter);
+      s = `${s.slice(0, cut.maxLength)}…[TRUNCATED:${cut.id}:${s.length - cut.maxLength} chars]`;
+    }
+    return s;
+  }
+}
@@ -0,0 +1,224 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Rows deleted per statement; the event loop gets a turn between batches.
+const DELETE_BATCH = 5000;
+
+const DEFAULT_CONFIG = {
+  intervalMinutes: 60,
+  vacuum: true,
+  // VACUUM blocks the whole server while it rewrites the file, so it only runs once this share of the
+  // file is free pages, and at most once per vacuumMinIntervalHours. Free pages are reused by new rows
+  // in the meantime, and maxDbMb only counts pages in use.
+  vacuumMinFreeRatio: 0.25,
+  vacuumMinIntervalHours: 24,
+  maxDbMb: null,
+  events: { maxAgeDays: 30, maxRows: null, byType: {} },
+  snapshots: { maxAgeDays: 30, byKind: {}, downsample: [] },
+  rateLimits: { maxAgeDays: 30 },
+  modelOutcomes: { maxAgeDays: 30 },
+  alerts: { maxAgeDays: 90 }
+};
+
+function positive(v) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export class RetentionJob {
+  constructor({ store, config }) {
+    this.store = store;
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      events: { ...DEFAULT_CONFIG.events, ...config?.events },
+      snapshots: { ...DEFAULT_CONFIG.snapshots, ...config?.snapshots },
+      rateLimits: { ...DEFAULT_CONFIG.rateLimits, ...config?.rateLimits },
+      modelOutcomes: { ...DEFAULT_CONFIG.modelOutcomes, ...config?.modelOutcomes },
+      alerts: { ...DEFAULT_CONFIG.alerts, ...config?.alerts }
+    };
+    this.timer = null;
+    this.running = false;
+    this.lastResult = store.getMeta('retention.lastPrune');
+    this.lastVacuumAt = Number(store.getMeta('retention.lastVacuumAt')) || 0;
+  }
+
+  // Reads server/retention.json; MONITOR_RETENTION_CONFIG points at an alternative file. Only a
+  // missing default file falls back to the built-in limits; anything unreadable stops startup.
+  static loadConfig(rootDir) {
+    const explicit = process.env.MONITOR_RETENTION_CONFIG;
+    const p = explicit || join(rootDir, 'server', 'retention.json');
+    let raw;
+    try {
+      raw = readFileSync(p, 'utf8');
+    } catch (err) {
+      if (err?.code === 'ENOENT' && !explicit) return DEFAULT_CONFIG;
+      throw new Error(`retention config ${p}: ${err?.message ?? err}`);
+    }
+    let config;
+    try {
+      config = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`retention config ${p}: ${err?.message ?? err}`);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error(`retention config ${p}: expected a JSON object`);
+    return config;
+  }
+
+  start() {
+    if (this.timer) return;
+    const everyMs = (positive(this.config.intervalMinutes) ?? 60) * 60_000;
+    // First pass shortly after boot so a long-running backlog gets trimmed without waiting an hour.
+    this.timer = setTimeout(() => {
+      this.timer = setInterval(() => void this.runOnce(), everyMs);
+      void this.runOnce();
+    }, 60_000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      clearInterval(this.timer);
+    }
+    this.timer = null;
+  }
+
+  async runOnce() {
+    if (this.running) return this.lastResult;
+    this.running = true;
+
+    const startedAt = Date.now();
+    const deleted = { events: 0, snapshots: 0, downsampled: 0, trimmed: 0, rateLimitSamples: 0, modelOutcomes: 0, alerts: 0 };
+    const bytesBefore = this.store.storageStats().bytes.db;
+    let vacuumed = false;
+    let error = null;
+
+    try {
+      await this._pruneEvents(startedAt, deleted);
+      this._pruneSnapshots(startedAt, deleted);
+      await this._pruneTelemetry(startedAt, deleted);
+      await this._enforceSize(deleted);
+      if (this._shouldVacuum(startedAt)) {
+        this.store.compact();
+        vacuumed = true;
+        this.lastVacuumAt = Date.now();
+        this.store.setMeta('retention.lastVacuumAt', this.lastVacuumAt);
+      }
+    } catch (err) {
+      error = String(err?.message ?? err);
+    } finally {
+      this.running = false;
+    }
+
+    const finishedAt = Date.now();
+    this.lastResult = {
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      deleted,
+      vacuumed,
+      bytesBefore,
+      bytesAfter: this.store.storageStats().bytes.db,
+      error
+    };
+    try { this.store.setMeta('retention.lastPrune', this.lastResult); } catch {}
+    return this.lastResult;
+  }
+
+  _shouldVacuum(now) {
+    if (!this.config.vacuum) return false;
+    const intervalMs = (positive(this.config.vacuumMinIntervalHours) ?? 24) * HOUR_MS;
+    if (now - this.lastVacuumAt < intervalMs) return false;
+    const { pageCount, freePages } = this.store.pageStats();
+    return pageCount > 0 && freePages / pageCount >= (positive(this.config.vacuumMinFreeRatio) ?? 0.25);
+  }
+
+  // Calls a store prune method (which deletes at most `limit` rows) until it runs out of rows,
+  // yielding between batches so requests and gateway events are not held up. Returns rows deleted.
+  async _inBatches(prune) {
+    let total = 0;
+    for (;;) {
+      const n = prune(DELETE_BATCH);
+      total += n;
+      if (n < DELETE_BATCH) return total;
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  async _pruneEvents(now, deleted) {
+    const cfg = this.config.events;
+    const byType = cfg.byType && typeof cfg.byType === 'object' ? cfg.byType : {};
+    for (const [type, days] of Object.entries(byType)) {
+      const d = positive(days);
+      if (d) deleted.events += await this._inBatches((limit) => this.store.pruneEvents({ before: now - d * DAY_MS, type, limit }));
+    }
+    const defaultDays = positive(cfg.maxAgeDays);
+    if (defaultDays) {
+      const excludeTypes = Object.keys(byType);
+      deleted.events += await this._inBatches((limit) => this.store.pruneEvents({ before: now - defaultDays * DAY_MS, excludeTypes, limit }));
+    }
+    const maxRows = positive(cfg.maxRows);
+    if (maxRows) deleted.trimmed += await this._inBatches((limit) => this.store.trimEvents(maxRows, limit));
+  }
+
+  _pruneSnapshots(now, deleted) {
+    const cfg = this.config.snapshots;
+    const byKind = cfg.byKind && typeof cfg.byKind === 'object' ? cfg.byKind : {};
+    const defaultDays = positive(cfg.maxAgeDays);
+
+    for (const kind of this.store.snapshotKinds()) {
+      const d = positive(byKind[kind]) ?? defaultDays;
+      if (d) deleted.snapshots += this.store.pruneSnapshots({ before: now - d * DAY_MS, kind });
+
+      for (const tier of Array.isArray(cfg.downsample) ? cfg.downsample : []) {
+        const olderThan = positive(tier?.olderThanHours);
+        const every = positive(tier?.keepEveryMinutes);
+        if (!olderThan || !every) continue;
+        deleted.downsampled += this.store.downsampleSnapshots({
+          kind,
+          before: now - olderThan * HOUR_MS,
+          bucketMs: every * 60_000
+        });
+      }
+    }
+  }
+
+  // Rate-limit samples, model outcomes and resolved alerts only have an age limit.
+  async _pruneTelemetry(now, deleted) {
+    const rateLimitDays = positive(this.config.rateLimits.maxAgeDays);
+    if (rateLimitDays) {
+      deleted.rateLimitSamples += await this._inBatches((limit) => this.store.pruneRateLimitSamples({ before: now - rateLimitDays * DAY_MS, limit }));
+    }
+    const outcomeDays = positive(this.config.modelOutcomes.maxAgeDays);
+    if (outcomeDays) {
+      deleted.modelOutcomes += await this._inBatches((limit) => this.store.pruneModelOutcomes({ before: now - outcomeDays * DAY_MS, limit }));
+    }
+    const alertDays = positive(this.config.alerts.maxAgeDays);
+    if (alertDays) deleted.alerts += await this._inBatches((limit) => this.store.pruneAlerts({ before: now - alertDays * DAY_MS, limit }));
+  }
+
+  // Hard cap on live data: drop the oldest 20% of events and snapshots until under maxDbMb.
+  async _enforceSize(deleted) {
+    const maxBytes = (positive(this.config.maxDbMb) ?? 0) * 1024 * 1024;
+    if (!maxBytes) return;
+    for (let i = 0; i < 5; i++) {
+      const stats = this.store.storageStats();
+      if (stats.bytes.used <= maxBytes) return;
+      const ev = stats.tables.events.rows;
+      const sn = stats.tables.snapshotItems.rows;
+      if (!ev && !sn) return;
+      deleted.trimmed += await this._inBatches((limit) => this.store.trimEvents(Math.floor(ev * 0.8), limit));
+      deleted.trimmed += this.store.trimSnapshots(Math.floor(sn * 0.8));
+    }
+  }
+
+  status() {
+    return {
+      config: this.config,
+      running: this.running,
+      lastPrune: this.lastResult ?? null
+    };
+  }
+}
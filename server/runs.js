@@ -0,0 +1,156 @@
+// Agent runs reconstructed from events that share a runId (see classify() in index.js).
+//
+// A run's status comes from the last `chat.*` state seen for it. db.js builds its listing query
+// from RUN_STATUS_BY_CHAT so the list and the detail view agree.
+
+export const RUN_STATUS_BY_CHAT = {
+  'chat.final': 'ok',
+  'chat.error': 'error',
+  'chat.aborted': 'aborted'
+};
+
+export function runStatus(chatState) {
+  return RUN_STATUS_BY_CHAT[chatState] ?? 'running';
+}
+
+const START_PHASES = new Set(['start', 'started', 'call']);
+const END_PHASES = new Set(['end', 'result', 'done', 'complete', 'completed', 'error']);
+
+// payloadJson holds the whole stored gateway frame ({ type, event, payload, seq }); the tool fields
+// live in its `payload`.
+function parsePayload(ev) {
+  try { return JSON.parse(ev.payloadJson)?.payload ?? null; } catch { return null; }
+}
+
+// Tool payloads come in a few shapes: flat ({ tool, phase }) or nested under `data`.
+function toolPhase(p) {
+  const v = p?.data?.phase ?? p?.phase ?? p?.state ?? null;
+  return v ? String(v).toLowerCase() : null;
+}
+
+function toolCallId(p) {
+  return p?.data?.toolCallId ?? p?.toolCallId ?? p?.callId ?? p?.data?.id ?? null;
+}
+
+function toolFailed(p) {
+  return !!(p?.data?.isError ?? p?.isError ?? p?.error ?? p?.data?.error) || toolPhase(p) === 'error';
+}
+
+// Pairs the tool events among `sorted` (rows with payloadJson, in ts/id order, all from one run) into
+// calls. Calls with start/end phases are paired by call id (or tool name); a phase-less tool event is
+// one call lasting until `nextTs(ev, i)`. Calls whose end was never seen keep `endTs: null`.
+export function pairToolCalls(sorted, nextTs) {
+  const calls = [];
+  const open = new Map();
+
+  sorted.forEach((ev, i) => {
+    if (!ev.tool) return;
+
+    const p = parsePayload(ev);
+    const phase = toolPhase(p);
+    const key = toolCallId(p) ?? `tool:${ev.tool}`;
+
+    if (phase && START_PHASES.has(phase)) {
+      const call = { tool: ev.tool, callId: toolCallId(p), startTs: ev.ts, endTs: null, status: 'running', eventIds: [ev.id] };
+      calls.push(call);
+      open.set(key, call);
+      return;
+    }
+    if (phase && END_PHASES.has(phase)) {
+      let call = open.get(key);
+      if (!call) {
+        call = { tool: ev.tool, callId: toolCallId(p), startTs: ev.ts, endTs: null, status: 'running', eventIds: [] };
+        calls.push(call);
+      }
+      open.delete(key);
+      call.endTs = ev.ts;
+      call.status = toolFailed(p) ? 'error' : 'ok';
+      call.eventIds.push(ev.id);
+      return;
+    }
+    const pending = phase ? open.get(key) : null;
+    if (pending) {
+      pending.eventIds.push(ev.id);
+      return;
+    }
+    calls.push({
+      tool: ev.tool,
+      callId: toolCallId(p),
+      startTs: ev.ts,
+      endTs: nextTs(ev, i),
+      status: toolFailed(p) ? 'error' : 'ok',
+      eventIds: [ev.id]
+    });
+  });
+
+  return calls;
+}
+
+// events: rows with payloadJson, any order. Returns the run with a span per tool call.
+export function buildRun(runId, events) {
+  const sorted = [...events].sort((a, b) => a.ts - b.ts || a.id - b.id);
+  const startTs = sorted[0]?.ts ?? null;
+  const endTs = sorted[sorted.length - 1]?.ts ?? null;
+
+  let chatState = null;
+  let sessionKey = null;
+  let gatewayId = null;
+  for (const ev of sorted) {
+    if (ev.sessionKey) sessionKey = ev.sessionKey;
+    if (ev.gatewayId) gatewayId = ev.gatewayId;
+    if (ev.type === 'chat' && ev.summary) chatState = ev.summary;
+  }
+  const calls = pairToolCalls(sorted, (ev, i) => sorted[i + 1]?.ts ?? ev.ts);
+
+  const status = runStatus(chatState);
+  for (const call of calls) {
+    if (call.endTs !== null) continue;
+    // Never saw the end: open-ended while the run is live, otherwise cut at the run's last event.
+    call.endTs = endTs;
+    if (status !== 'running') call.status = 'incomplete';
+  }
+
+  const tools = calls.map((c) => ({
+    ...c,
+    offsetMs: c.startTs - startTs,
+    durationMs: c.endTs - c.startTs
+  }));
+
+  const byTool = new Map();
+  for (const c of tools) {
+    const s = byTool.get(c.tool) ?? { tool: c.tool, calls: 0, errors: 0, totalMs: 0, maxMs: 0 };
+    s.calls += 1;
+    if (c.status === 'error') s.errors += 1;
+    s.totalMs += c.durationMs;
+    s.maxMs = Math.max(s.maxMs, c.durationMs);
+    byTool.set(c.tool, s);
+  }
+  const toolStats = [...byTool.values()]
+    .map((s) => ({ ...s, avgMs: Math.round(s.totalMs / s.calls) }))
+    .sort((a, b) => b.totalMs - a.totalMs);
+
+  return {
+    runId,
+    gatewayId,
+    sessionKey,
+    startTs,
+    endTs,
+    durationMs: startTs === null ? 0 : endTs - startTs,
+    status,
+    chatState,
+    eventCount: sorted.length,
+    toolCalls: tools.length,
+    tools,
+    toolStats,
+    events: sorted.map((ev) => ({
+      id: ev.id,
+      ts: ev.ts,
+      offsetMs: ev.ts - startTs,
+      event: ev.event,
+      type: ev.type,
+      tool: ev.tool,
+      summary: ev.summary,
+      redacted: ev.redacted ?? 0
+    }))
+  };
+}
@@ -0,0 +1,170 @@
+// Search query parsing for /api/search, plus the payload filters and cursors /api/events takes.
+//
+// Syntax: free text plus `field:value` qualifiers, e.g.
+//   type:agent tool:exec session:foo "rate limit" since:2h
+// Values may be quoted (`session:"agent:main"`). Unknown qualifiers are kept as text.
+
+const FIELDS = {
+  type: 'type',
+  tool: 'tool',
+  session: 'session',
+  sessionkey: 'session',
+  run: 'run',
+  runid: 'run',
+  event: 'event',
+  kind: 'kind',
+  in: 'in',
+  since: 'since',
+  from: 'from',
+  after: 'from',
+  to: 'to',
+  before: 'to'
+};
+
+const DURATION_MS = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+export function parseDuration(v) {
+  const m = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(String(v ?? '').trim());
+  if (!m) return null;
+  return Math.round(Number(m[1]) * DURATION_MS[m[2].toLowerCase()]);
+}
+
+// Accepts epoch ms, ISO strings, or a relative duration ("2h" = 2 hours ago).
+export function parseTime(v, now = Date.now()) {
+  if (v === null || v === undefined || v === '') return null;
+  const s = String(v).trim();
+  if (/^\d{10,}$/.test(s)) return Number(s);
+  const rel = parseDuration(s);
+  if (rel !== null) return now - rel;
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? t : null;
+}
+
+function tokenize(q) {
+  const out = [];
+  const re = /(\S+?):"([^"]*)"|"([^"]*)"|(\S+)/g;
+  let m;
+  while ((m = re.exec(q))) {
+    if (m[1] !== undefined) out.push({ field: m[1], value: m[2] });
+    else if (m[3] !== undefined) out.push({ text: m[3] });
+    else {
+      const raw = m[4];
+      const i = raw.indexOf(':');
+      if (i > 0 && i < raw.length - 1 && FIELDS[raw.slice(0, i).toLowerCase()]) {
+        out.push({ field: raw.slice(0, i), value: raw.slice(i + 1) });
+      } else {
+        out.push({ text: raw });
+      }
+    }
+  }
+  return out;
+}
+
+export function parseSearchQuery(q, { from = null, to = null, now = Date.now() } = {}) {
+  const parsed = {
+    terms: [],
+    type: null,
+    tool: null,
+    session: null,
+    run: null,
+    event: null,
+    kind: null,
+    in: null,
+    from: parseTime(from, now),
+    to: parseTime(to, now)
+  };
+
+  for (const tok of tokenize(String(q ?? ''))) {
+    if (tok.text !== undefined) {
+      if (tok.text.trim()) parsed.terms.push(tok.text.trim());
+      continue;
+    }
+    const field = FIELDS[tok.field.toLowerCase()];
+    const value = tok.value.trim();
+    if (!field) {
+      parsed.terms.push(`${tok.field}:${tok.value}`);
+      continue;
+    }
+    if (!value) continue;
+    if (field === 'since') parsed.from = parseTime(value, now);
+    else if (field === 'from' || field === 'to') parsed[field] = parseTime(value, now);
+    else if (field === 'in') parsed.in = value.toLowerCase().startsWith('snap') ? 'snapshots' : 'events';
+    else parsed[field] = value;
+  }
+
+  return parsed;
+}
+
+// Each term becomes a quoted FTS5 phrase so user input can never be parsed as FTS syntax.
+// A trailing `*` is kept as a prefix query.
+export function toFtsMatch(terms) {
+  return terms
+    .map((t) => {
+      const prefix = t.endsWith('*') && t.length > 1;
+      const body = (prefix ? t.slice(0, -1) : t).replaceAll('"', '""');
+      return `"${body}"${prefix ? '*' : ''}`;
+    })
+    .join(' ');
+}
+
+// Payload filters for /api/events (`payload=` parameters):
+//   data.phase=error    equal (the value is read as JSON when it parses, so 3, true and null are typed;
+//                       quote it to force a string)
+//   data.phase!=error   not equal (or missing)
+//   data.error~timeout  contains, case-insensitive
+//   data.attempt>1      numeric comparison; also <, >= and <=
+//   data.error          present and not null
+// Paths are dot-separated keys with optional [n] indexes, optionally starting with `$.`. They start
+// inside the event's `payload`: payloadJson stores the whole gateway frame around it.
+const PAYLOAD_FILTER_RE = /^([^=!~<>]+?)\s*(!=|>=|<=|=|~|>|<)\s*(.*)$/s;
+const NUMERIC_OPS = new Set(['>', '<', '>=', '<=']);
+
+function toJsonPath(path) {
+  const s = path.trim().replace(/^\$\.?/, '');
+  const re = /([^.[\]"]+)|\[(\d+)\]|\./gy;
+  let out = '$';
+  let m;
+  let expectKey = true;
+  while (re.lastIndex < s.length) {
+    if (!(m = re.exec(s))) return null;
+    if (m[1] !== undefined) {
+      if (!expectKey) return null;
+      out += `."${m[1]}"`;
+      expectKey = false;
+    } else if (m[2] !== undefined) {
+      if (expectKey && out === '$') return null;
+      out += `[${m[2]}]`;
+      expectKey = false;
+    } else {
+      if (expectKey) return null;
+      expectKey = true;
+    }
+  }
+  return out === '$' || expectKey ? null : out;
+}
+
+export function parsePayloadFilter(spec) {
+  const raw = String(spec ?? '');
+  const m = PAYLOAD_FILTER_RE.exec(raw);
+  const [pathPart, op, value] = m ? [m[1], m[2], m[3].trim()] : [raw, 'exists', null];
+  const relative = toJsonPath(pathPart);
+  if (!relative) throw new Error(`invalid payload filter: ${raw}`);
+  const path = `$."payload"${relative.slice(1)}`;
+  if (NUMERIC_OPS.has(op) && (value === '' || !Number.isFinite(Number(value)))) {
+    throw new Error(`payload filter ${raw}: ${op} needs a number`);
+  }
+  // An empty substring would match every row.
+  if (op === '~' && value === '') throw new Error(`payload filter ${raw}: ~ needs a value`);
+  if (op === '=' || op === '!=') {
+    let json;
+    try { json = JSON.stringify(JSON.parse(value)); } catch { json = JSON.stringify(value); }
+    return { path, op, value: json };
+  }
+  return { path, op, value: NUMERIC_OPS.has(op) ? Number(value) : value };
+}
+
+// Event list cursors are `<ts>:<id>` of the last row of the previous page.
+export function parseEventCursor(v) {
+  const m = /^(\d+):(\d+)$/.exec(String(v ?? '').trim());
+  return m ? { ts: Number(m[1]), id: Number(m[2]) } : null;
+}
@@ -0,0 +1,376 @@
+import { DEFAULT_GATEWAY_ID } from './gateways.js';
+import { diffSnapshot, itemKey, joinSnapshot, splitSnapshot } from './snapshots.js';
+
+const END_OF_TIME = Number.MAX_SAFE_INTEGER;
+
+// Delta storage for poller snapshots.
+//
+// `snapshots` holds one header row per change: the payload's top-level fields (everything but
+// the keyed list) plus the list order when it changed (`orderJson`, NULL = unchanged).
+// `snapshot_items` holds one row per version of each listed item, valid over [validFrom, validTo).
+// Polls that change nothing only bump the latest header's `checkedAt`.
+// Each (gatewayId, kind) pair is an independent stream.
+export function createSnapshotStore(db, { getMeta, setMeta, highlight }) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS snapshot_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      gatewayId TEXT NOT NULL DEFAULT '${DEFAULT_GATEWAY_ID}',
+      kind TEXT NOT NULL,
+      itemKey TEXT NOT NULL,
+      validFrom INTEGER NOT NULL,
+      validTo INTEGER,
+      payloadJson TEXT NOT NULL
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS snapshot_items_fts USING fts5(
+      kind, itemKey, payloadJson,
+      content='snapshot_items', content_rowid='id'
+    );
+    CREATE TRIGGER IF NOT EXISTS snapshot_items_fts_ai AFTER INSERT ON snapshot_items BEGIN
+      INSERT INTO snapshot_items_fts(rowid, kind, itemKey, payloadJson) VALUES (new.id, new.kind, new.itemKey, new.payloadJson);
+    END;
+    CREATE TRIGGER IF NOT EXISTS snapshot_items_fts_ad AFTER DELETE ON snapshot_items BEGIN
+      INSERT INTO snapshot_items_fts(snapshot_items_fts, rowid, kind, itemKey, payloadJson)
+      VALUES ('delete', old.id, old.kind, old.itemKey, old.payloadJson);
+    END;
+
+    -- Full-payload index from before delta storage; item rows are indexed instead.
+    DROP TRIGGER IF EXISTS snapshots_fts_ai;
+    DROP TRIGGER IF EXISTS snapshots_fts_ad;
+    DROP TABLE IF EXISTS snapshots_fts;
+  `);
+
+  const columns = new Set(db.prepare(`PRAGMA table_info(snapshots)`).all().map((c) => c.name));
+  if (!columns.has('orderJson')) db.exec(`ALTER TABLE snapshots ADD COLUMN orderJson TEXT`);
+  if (!columns.has('checkedAt')) db.exec(`ALTER TABLE snapshots ADD COLUMN checkedAt INTEGER`);
+  if (!columns.has('gatewayId')) {
+    db.exec(`ALTER TABLE snapshots ADD COLUMN gatewayId TEXT NOT NULL DEFAULT '${DEFAULT_GATEWAY_ID}'`);
+  }
+  const itemColumns = new Set(db.prepare(`PRAGMA table_info(snapshot_items)`).all().map((c) => c.name));
+  if (!itemColumns.has('gatewayId')) {
+    db.exec(`ALTER TABLE snapshot_items ADD COLUMN gatewayId TEXT NOT NULL DEFAULT '${DEFAULT_GATEWAY_ID}'`);
+  }
+  db.exec(`
+    DROP INDEX IF EXISTS idx_snapshots_kind_ts;
+    DROP INDEX IF EXISTS idx_snapshot_items_key;
+    DROP INDEX IF EXISTS idx_snapshot_items_from;
+    DROP INDEX IF EXISTS idx_snapshot_items_to;
+    CREATE INDEX IF NOT EXISTS idx_snapshots_stream_ts ON snapshots(gatewayId, kind, ts DESC);
+    CREATE INDEX IF NOT EXISTS idx_snapshot_items_stream_key ON snapshot_items(gatewayId, kind, itemKey, validFrom DESC);
+    CREATE INDEX IF NOT EXISTS idx_snapshot_items_stream_from ON snapshot_items(gatewayId, kind, validFrom);
+    CREATE INDEX IF NOT EXISTS idx_snapshot_items_stream_to ON snapshot_items(gatewayId, kind, validTo);
+  `);
+
+  const insertHeader = db.prepare(`
+    INSERT INTO snapshots (ts, kind, payloadJson, orderJson, checkedAt, gatewayId)
+    VALUES (?1, ?2, ?3, ?4, ?1, ?5)
+  `);
+  const touchHeader = db.prepare(`UPDATE snapshots SET checkedAt = ?2 WHERE id = ?1`);
+  const headerAt = db.prepare(`
+    SELECT id, ts, kind, payloadJson, orderJson, checkedAt
+    FROM snapshots
+    WHERE gatewayId = ?3 AND kind = ?1 AND ts <= ?2
+    ORDER BY ts DESC, id DESC
+    LIMIT 1
+  `);
+  const orderAt = db.prepare(`
+    SELECT orderJson
+    FROM snapshots
+    WHERE gatewayId = ?3 AND kind = ?1 AND ts <= ?2 AND orderJson IS NOT NULL
+    ORDER BY ts DESC, id DESC
+    LIMIT 1
+  `);
+  const itemsAt = db.prepare(`
+    SELECT itemKey, payloadJson
+    FROM snapshot_items
+    WHERE gatewayId = ?3 AND kind = ?1 AND validFrom <= ?2 AND (validTo IS NULL OR validTo > ?2)
+  `);
+  const itemVersions = db.prepare(`
+    SELECT validFrom, validTo, payloadJson
+    FROM snapshot_items
+    WHERE gatewayId = ?5 AND kind = ?1 AND itemKey = ?2 AND validFrom < ?4 AND (validTo IS NULL OR validTo > ?3)
+    ORDER BY validFrom, id
+  `);
+  const closeItem = db.prepare(`
+    UPDATE snapshot_items SET validTo = ?3
+    WHERE gatewayId = ?4 AND kind = ?1 AND itemKey = ?2 AND validTo IS NULL
+  `);
+  const insertItem = db.prepare(`
+    INSERT INTO snapshot_items (kind, itemKey, validFrom, validTo, payloadJson, gatewayId)
+    VALUES (?1, ?2, ?3, NULL, ?4, ?5)
+  `);
+
+  // ?1 match, ?2 kind, ?3 itemKey LIKE, ?4 from, ?5 to, ?6 limit, ?7 gatewayId
+  const searchItemsFts = db.prepare(`
+    SELECT i.id, i.validFrom AS ts, i.validTo, i.gatewayId, i.kind, i.itemKey,
+      snippet(snapshot_items_fts, 2, '${highlight.start}', '${highlight.end}', '…', 24) AS snippet,
+      bm25(snapshot_items_fts) AS rank
+    FROM snapshot_items_fts
+    JOIN snapshot_items i ON i.id = snapshot_items_fts.rowid
+    WHERE snapshot_items_fts MATCH ?1
+      AND (?2 IS NULL OR i.kind = ?2)
+      AND (?3 IS NULL OR i.itemKey LIKE ?3)
+      AND (?4 IS NULL OR i.validTo IS NULL OR i.validTo >= ?4)
+      AND (?5 IS NULL OR i.validFrom <= ?5)
+      AND (?7 IS NULL OR i.gatewayId = ?7)
+    ORDER BY i.validFrom DESC, i.id DESC
+    LIMIT ?6
+  `);
+
+  const fillOrder = db.prepare(`
+    UPDATE snapshots SET orderJson = (
+      SELECT o.orderJson FROM snapshots o
+      WHERE o.gatewayId = snapshots.gatewayId AND o.kind = snapshots.kind AND o.ts <= snapshots.ts AND o.orderJson IS NOT NULL
+      ORDER BY o.ts DESC, o.id DESC
+      LIMIT 1
+    )
+    WHERE id = ?1 AND orderJson IS NULL
+  `);
+  const moveHeader = db.prepare(`UPDATE snapshots SET ts = ?2 WHERE id = ?1`);
+  const pruneHeaders = db.prepare(`DELETE FROM snapshots WHERE gatewayId = ?4 AND kind = ?1 AND ts < ?2 AND id != ?3`);
+  const pruneItems = db.prepare(`
+    DELETE FROM snapshot_items
+    WHERE gatewayId = ?3 AND kind = ?1 AND validTo IS NOT NULL AND validTo <= ?2
+  `);
+
+  // Downsampling: per bucket keep the newest header, and per item the newest closed version
+  // (stretched back to cover the versions it replaces).
+  const keptHeaders = db.prepare(`
+    SELECT MAX(id) AS id FROM snapshots
+    WHERE gatewayId = ?4 AND kind = ?1 AND ts < ?2
+    GROUP BY ts / CAST(?3 AS INTEGER)
+  `);
+  const downsampleHeaders = db.prepare(`
+    DELETE FROM snapshots
+    WHERE gatewayId = ?4 AND kind = ?1 AND ts < ?2
+      AND id NOT IN (
+        SELECT MAX(id) FROM snapshots
+        WHERE gatewayId = ?4 AND kind = ?1 AND ts < ?2
+        GROUP BY ts / CAST(?3 AS INTEGER)
+      )
+  `);
+  const stretchItems = db.prepare(`
+    UPDATE snapshot_items AS k SET validFrom = (
+      SELECT MIN(x.validFrom) FROM snapshot_items x
+      WHERE x.gatewayId = k.gatewayId AND x.kind = k.kind AND x.itemKey = k.itemKey
+        AND x.validTo IS NOT NULL AND x.validTo < ?2
+        AND x.validFrom / CAST(?3 AS INTEGER) = k.validFrom / CAST(?3 AS INTEGER)
+    )
+    WHERE k.id IN (
+      SELECT MAX(id) FROM snapshot_items
+      WHERE gatewayId = ?4 AND kind = ?1 AND validTo IS NOT NULL AND validTo < ?2
+      GROUP BY itemKey, validFrom / CAST(?3 AS INTEGER)
+    )
+  `);
+  const downsampleItems = db.prepare(`
+    DELETE FROM snapshot_items
+    WHERE gatewayId = ?4 AND kind = ?1 AND validTo IS NOT NULL AND validTo < ?2
+      AND id NOT IN (
+        SELECT MAX(id) FROM snapshot_items
+        WHERE gatewayId = ?4 AND kind = ?1 AND validTo IS NOT NULL AND validTo < ?2
+        GROUP BY itemKey, validFrom / CAST(?3 AS INTEGER)
+      )
+  `);
+  const trimCutoff = db.prepare(`
+    SELECT validTo FROM snapshot_items
+    WHERE validTo IS NOT NULL
+    ORDER BY validTo DESC
+    LIMIT 1 OFFSET ?1
+  `);
+  const streams = db.prepare(`SELECT DISTINCT gatewayId, kind FROM snapshots ORDER BY gatewayId, kind`);
+
+  // Latest rebuilt state per stream; avoids re-reading the tables on every poll and API call.
+  const latest = new Map();
+  const streamKey = (gatewayId, kind) => `${gatewayId}\u0000${kind}`;
+
+  function rebuild(gatewayId, kind, at) {
+    const header = headerAt.get(kind, at, gatewayId);
+    if (!header) return null;
+
+    let meta = null;
+    try { meta = JSON.parse(header.payloadJson); } catch { meta = null; }
+    let order = [];
+    try { order = JSON.parse(orderAt.get(kind, at, gatewayId)?.orderJson ?? '[]'); } catch { order = []; }
+
+    const byKey = new Map();
+    for (const row of itemsAt.all(kind, at, gatewayId)) {
+      try { byKey.set(row.itemKey, JSON.parse(row.payloadJson)); } catch {}
+    }
+    const list = [];
+    for (const k of order) {
+      if (!byKey.has(k)) continue;
+      list.push(byKey.get(k));
+      byKey.delete(k);
+    }
+    list.push(...byKey.values());
+
+    return {
+      id: Number(header.id),
+      ts: Number(header.ts),
+      checkedAt: Number(header.checkedAt ?? header.ts),
+      payload: joinSnapshot(kind, meta, list)
+    };
+  }
+
+  function current(gatewayId, kind) {
+    const k = streamKey(gatewayId, kind);
+    if (!latest.has(k)) latest.set(k, rebuild(gatewayId, kind, END_OF_TIME));
+    return latest.get(k);
+  }
+
+  // Caller owns the transaction.
+  function writeDelta(gatewayId, kind, ts, payload, prevPayload) {
+    const diff = diffSnapshot(kind, prevPayload, payload);
+    if (!diff) return null;
+
+    for (const k of diff.removed) closeItem.run(kind, k, ts, gatewayId);
+    for (const item of diff.upserted) {
+      const k = itemKey(kind, item);
+      closeItem.run(kind, k, ts, gatewayId);
+      insertItem.run(kind, k, ts, JSON.stringify(item), gatewayId);
+    }
+    const { meta } = splitSnapshot(kind, payload);
+    const info = insertHeader.run(ts, kind, JSON.stringify(meta), diff.order ? JSON.stringify(diff.order) : null, gatewayId);
+    return Number(info.lastInsertRowid);
+  }
+
+  function inTransaction(fn) {
+    db.exec('BEGIN');
+    try {
+      const out = fn();
+      db.exec('COMMIT');
+      return out;
+    } catch (err) {
+      db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  function toRow(gatewayId, kind, snap) {
+    if (!snap) return null;
+    if (snap.pretty === undefined) snap.pretty = JSON.stringify(snap.payload, null, 2);
+    return { id: snap.id, ts: snap.checkedAt, gatewayId, kind, payloadJson: snap.pretty };
+  }
+
+  // Streams matching the optional filters, as [{ gatewayId, kind }].
+  function listStreams({ kind = null, gatewayId = null } = {}) {
+    return streams.all()
+      .filter((s) => (!kind || s.kind === kind) && (!gatewayId || s.gatewayId === gatewayId))
+      .map((s) => ({ gatewayId: s.gatewayId, kind: s.kind }));
+  }
+
+  function pruneStream(gatewayId, kind, before) {
+    const boundary = headerAt.get(kind, before - 1, gatewayId);
+    if (!boundary) return 0;
+    return inTransaction(() => {
+      // The newest header before the cutoff becomes the state as of `before`.
+      fillOrder.run(boundary.id);
+      moveHeader.run(boundary.id, before);
+      return Number(pruneHeaders.run(kind, before, boundary.id, gatewayId).changes)
+        + Number(pruneItems.run(kind, before, gatewayId).changes);
+    });
+  }
+
+  // Legacy rows stored the full pretty-printed payload on every poll. Replay them once into deltas.
+  function migrateLegacy() {
+    if (getMeta('snapshots.format') === 'delta') return;
+    const maxId = Number(db.prepare(`SELECT MAX(id) AS id FROM snapshots`).get().id ?? 0);
+    if (maxId > 0) {
+      inTransaction(() => {
+        const prevByKind = new Map();
+        const rows = db.prepare(`
+          SELECT ts, kind, payloadJson FROM snapshots WHERE id <= ?1 ORDER BY kind, ts, id
+        `).iterate(maxId);
+        for (const row of rows) {
+          let payload;
+          try { payload = JSON.parse(row.payloadJson); } catch { continue; }
+          writeDelta(DEFAULT_GATEWAY_ID, row.kind, Number(row.ts), payload, prevByKind.get(row.kind) ?? null);
+          prevByKind.set(row.kind, payload);
+        }
+        db.prepare(`DELETE FROM snapshots WHERE id <= ?1`).run(maxId);
+      });
+      db.exec('VACUUM');
+    }
+    setMeta('snapshots.format', 'delta');
+  }
+
+  migrateLegacy();
+
+  return {
+    insertSnapshot({ ts, kind, payload, gatewayId = DEFAULT_GATEWAY_ID }) {
+      const prev = current(gatewayId, kind);
+      const id = inTransaction(() => writeDelta(gatewayId, kind, ts, payload, prev?.payload ?? null));
+      if (id === null) {
+        if (prev) {
+          touchHeader.run(prev.id, ts);
+          prev.checkedAt = ts;
+        }
+        return { changed: false };
+      }
+      latest.set(streamKey(gatewayId, kind), { id, ts, checkedAt: ts, payload });
+      return { changed: true };
+    },
+    latestSnapshot(kind, gatewayId = DEFAULT_GATEWAY_ID) {
+      return toRow(gatewayId, kind, current(gatewayId, kind));
+    },
+    // Rebuild the full payload as it was at `ts` (same row shape as latestSnapshot).
+    snapshotAt(kind, ts, gatewayId = DEFAULT_GATEWAY_ID) {
+      const snap = rebuild(gatewayId, kind, Number(ts));
+      if (!snap) return null;
+      return { id: snap.id, ts: snap.ts, gatewayId, kind, payloadJson: JSON.stringify(snap.payload, null, 2) };
+    },
+    // Versions of one item overlapping [from, to), oldest first.
+    itemHistory({ kind, key, from, to, gatewayId = DEFAULT_GATEWAY_ID }) {
+      const out = [];
+      for (const row of itemVersions.all(kind, String(key), from, to, gatewayId)) {
+        let item;
+        try { item = JSON.parse(row.payloadJson); } catch { continue; }
+        out.push({
+          validFrom: Number(row.validFrom),
+          validTo: row.validTo === null ? null : Number(row.validTo),
+          item
+        });
+      }
+      return out;
+    },
+    searchSnapshots({ match, kind, session, from, to, limit, gateway }) {
+      if (!match) return [];
+      const lim = Math.max(1, Math.min(500, Number(limit ?? 50)));
+      return searchItemsFts.all(match, kind ?? null, session ? `%${session}%` : null, from ?? null, to ?? null, lim, gateway ?? null);
+    },
+    // Omitted filters match every gateway / kind.
+    pruneSnapshots({ before, kind = null, gatewayId = null }) {
+      let n = 0;
+      for (const s of listStreams({ kind, gatewayId })) n += pruneStream(s.gatewayId, s.kind, before);
+      latest.clear();
+      return n;
+    },
+    downsampleSnapshots({ kind, before, bucketMs, gatewayId = null }) {
+      const bucket = Math.max(1, Math.floor(bucketMs));
+      const n = inTransaction(() => {
+        let changes = 0;
+        for (const s of listStreams({ kind, gatewayId })) {
+          for (const row of keptHeaders.all(s.kind, before, bucket, s.gatewayId)) fillOrder.run(row.id);
+          stretchItems.run(s.kind, before, bucket, s.gatewayId);
+          changes += Number(downsampleHeaders.run(s.kind, before, bucket, s.gatewayId).changes)
+            + Number(downsampleItems.run(s.kind, before, bucket, s.gatewayId).changes);
+        }
+        return changes;
+      });
+      latest.clear();
+      return n;
+    },
+    // Drop closed item versions beyond the newest `maxRows` (current state is always kept).
+    trimSnapshots(maxRows) {
+      const cutoff = trimCutoff.get(Math.max(0, Math.floor(maxRows)))?.validTo;
+      if (cutoff === undefined || cutoff === null) return 0;
+      let n = 0;
+      for (const s of listStreams()) n += pruneStream(s.gatewayId, s.kind, Number(cutoff) + 1);
+      latest.clear();
+      return n;
+    },
+    snapshotKinds() {
+      return [...new Set(listStreams().map((s) => s.kind))];
+    }
+  };
+}
@@ -0,0 +1,58 @@
+// Shared helpers for poller snapshots (sessions.list / cron.list payloads).
+// Each kind carries one list whose items are identified by a stable key.
+
+export const SNAPSHOT_LISTS = {
+  sessions: { field: 'sessions', key: (s) => s?.key },
+  cron: { field: 'jobs', key: (j) => j?.id ?? j?.jobId ?? j?.name }
+};
+
+export function itemKey(kind, item) {
+  const keyOf = SNAPSHOT_LISTS[kind]?.key ?? ((x) => x?.id);
+  return String(keyOf(item));
+}
+
+// Split a payload into its keyed list and the remaining top-level fields (`meta`).
+// A bare array payload has `meta: null`.
+export function splitSnapshot(kind, payload) {
+  const spec = SNAPSHOT_LISTS[kind];
+  if (Array.isArray(payload)) return { list: payload, meta: null };
+  if (!spec || !payload || typeof payload !== 'object') return { list: [], meta: payload ?? null };
+  const { [spec.field]: list, ...meta } = payload;
+  return { list: Array.isArray(list) ? list : [], meta };
+}
+
+export function joinSnapshot(kind, meta, list) {
+  if (meta === null || meta === undefined) return list;
+  const field = SNAPSHOT_LISTS[kind]?.field ?? 'items';
+  return { ...meta, [field]: list };
+}
+
+export function diffSnapshot(kind, prev, next) {
+  const a = splitSnapshot(kind, prev);
+  const b = splitSnapshot(kind, next);
+
+  const before = new Map();
+  for (const item of a.list) before.set(itemKey(kind, item), JSON.stringify(item));
+
+  const upserted = [];
+  const order = [];
+  for (const item of b.list) {
+    const k = itemKey(kind, item);
+    order.push(k);
+    if (before.get(k) !== JSON.stringify(item)) upserted.push(item);
+    before.delete(k);
+  }
+  const removed = [...before.keys()];
+
+  const prevOrder = a.list.map((x) => itemKey(kind, x));
+  const orderChanged = prevOrder.length !== order.length || prevOrder.some((k, i) => k !== order[i]);
+  const metaChanged = JSON.stringify(a.meta) !== JSON.stringify(b.meta);
+
+  if (!upserted.length && !removed.length && !orderChanged && !metaChanged) return null;
+  return {
+    upserted,
+    removed,
+    order: orderChanged ? order : undefined,
+    meta: metaChanged ? b.meta : undefined
+  };
+}
@@ -0,0 +1,87 @@
+import { WebSocketServer } from 'ws';
+
+import { diffSnapshot } from './snapshots.js';
+
+export class StreamHub {
+  constructor({ path = '/api/stream', initial, authorize = () => true, allowOrigin = () => true } = {}) {
+    this.path = path;
+    // allowOrigin(req) -> false rejects the upgrade with 403. Browsers let any page open a WebSocket to
+    // any host, so without this a foreign page could read the stream (auth off or cookie sent along).
+    this.allowOrigin = allowOrigin;
+    // authorize(req) -> false rejects the upgrade with 401 (same credentials as the HTTP API).
+    this.authorize = authorize;
+    // initial(topic) -> data sent to a client right after it subscribes (or undefined).
+    this.initial = initial;
+    this.wss = new WebSocketServer({ noServer: true });
+    this.clients = new Map();
+    this.snapshots = new Map();
+
+    this.wss.on('connection', (ws) => {
+      this.clients.set(ws, new Set());
+      ws.on('message', (data) => this._onMessage(ws, data));
+      ws.on('close', () => this.clients.delete(ws));
+      ws.on('error', () => {});
+    });
+  }
+
+  attach(server) {
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url, 'http://localhost');
+      if (url.pathname !== this.path) {
+        socket.destroy();
+        return;
+      }
+      if (!this.allowOrigin(req)) {
+        socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      if (!this.authorize(req)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req));
+    });
+  }
+
+  publish(topic, data) {
+    const msg = JSON.stringify({ topic, data });
+    for (const [ws, topics] of this.clients) {
+      if (topics.has(topic) && ws.readyState === ws.OPEN) ws.send(msg);
+    }
+  }
+
+  // Record a poller snapshot on `topic` and push only what changed since the previous one.
+  // Returns whether anything was published.
+  publishSnapshot(topic, kind, ts, payload) {
+    const prev = this.snapshots.get(topic);
+    this.snapshots.set(topic, { ts, payload });
+    if (!prev) {
+      this.publish(topic, { ts, full: payload });
+      return true;
+    }
+    const diff = diffSnapshot(kind, prev.payload, payload);
+    if (diff) this.publish(topic, { ts, diff });
+    return !!diff;
+  }
+
+  _onMessage(ws, data) {
+    let msg;
+    try { msg = JSON.parse(String(data)); } catch { return; }
+    const topics = this.clients.get(ws);
+    if (!topics || !Array.isArray(msg?.topics)) return;
+
+    if (msg.type === 'unsubscribe') {
+      for (const t of msg.topics) topics.delete(String(t));
+      return;
+    }
+    if (msg.type !== 'subscribe') return;
+
+    for (const t of msg.topics.map(String)) {
+      if (topics.has(t)) continue;
+      topics.add(t);
+      const snap = this.snapshots.get(t);
+      const data = snap ? { ts: snap.ts, full: snap.payload } : this.initial?.(t);
+      if (data !== undefined && ws.readyState === ws.OPEN) ws.send(JSON.stringify({ topic: t, data }));
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// Tool usage over a time window. Calls are paired per run the same way the run view does it (see
+// pairToolCalls in runs.js); tool events without a runId are paired within their session instead.
+//
+// Durations only count calls whose end was seen. Calls still open stay `running` while their run is,
+// and become `incomplete` once the run has finished.
+
+import { pickBucketMs } from './history.js';
+import { pairToolCalls, runStatus } from './runs.js';
+
+// Calls that started shortly before the window still need their start event to be paired.
+const LOOKBACK_MS = 60 * 60 * 1000;
+const TOP_SESSIONS = 5;
+
+// Nearest-rank percentile over an ascending array.
+function percentile(sorted, q) {
+  if (!sorted.length) return null;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))];
+}
+
+function durationStats(durations) {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const totalMs = sorted.reduce((acc, d) => acc + d, 0);
+  return {
+    p50Ms: percentile(sorted, 0.5),
+    p95Ms: percentile(sorted, 0.95),
+    avgMs: sorted.length ? Math.round(totalMs / sorted.length) : null,
+    maxMs: sorted.length ? sorted[sorted.length - 1] : null,
+    totalMs
+  };
+}
+
+const errorRate = (errors, finished) => (finished ? errors / finished : null);
+
+// The window's tool calls, paired from store.toolEvents() rows.
+function windowCalls(rows, from) {
+  const groups = new Map();
+  for (const ev of rows) {
+    const key = ev.runId ? `${ev.gatewayId}|run:${ev.runId}` : `${ev.gatewayId}|session:${ev.sessionKey ?? ''}`;
+    const g = groups.get(key) ?? { gatewayId: ev.gatewayId, runId: ev.runId ?? null, sessionKey: null, events: [], chatState: null };
+    if (ev.sessionKey) g.sessionKey = ev.sessionKey;
+    if (ev.type === 'chat' && !ev.tool) g.chatState = ev.summary;
+    else g.events.push(ev);
+    groups.set(key, g);
+  }
+
+  const calls = [];
+  for (const { gatewayId, runId, sessionKey, events, chatState } of groups.values()) {
+    const finished = runStatus(chatState) !== 'running';
+    for (const call of pairToolCalls(events, (ev, i) => ev.nextTs ?? events[i + 1]?.ts ?? ev.ts)) {
+      if (call.startTs < from) continue;
+      if (call.endTs === null && finished) call.status = 'incomplete';
+      calls.push({
+        tool: call.tool,
+        gatewayId,
+        sessionKey,
+        runId,
+        startTs: call.startTs,
+        durationMs: call.endTs === null ? null : call.endTs - call.startTs,
+        status: call.status
+      });
+    }
+  }
+  return calls;
+}
+
+function bucketTrend(calls, start, to, bucketMs) {
+  const buckets = new Map();
+  for (const c of calls) {
+    const b = start + Math.floor((c.startTs - start) / bucketMs) * bucketMs;
+    const s = buckets.get(b) ?? { calls: 0, errors: 0, durations: [] };
+    s.calls += 1;
+    if (c.status === 'error') s.errors += 1;
+    if (c.durationMs !== null) s.durations.push(c.durationMs);
+    buckets.set(b, s);
+  }
+  const points = [];
+  for (let b = start; b < to; b += bucketMs) {
+    const s = buckets.get(b);
+    points.push({ ts: b, calls: s?.calls ?? 0, errors: s?.errors ?? 0, p95Ms: s ? durationStats(s.durations).p95Ms : null });
+  }
+  return points;
+}
+
+// Per-tool call counts, error rates, duration percentiles, top sessions and trends for [from, to].
+export function toolStats({ store, gatewayIds, from, to, maxEvents = 50_000 }) {
+  const rows = store.toolEvents({ gatewayIds, from: from - LOOKBACK_MS, to, limit: maxEvents });
+  const calls = windowCalls(rows, from);
+  const bucketMs = pickBucketMs(to - from, 96);
+  const start = Math.floor(from / bucketMs) * bucketMs;
+
+  const byTool = new Map();
+  for (const c of calls) {
+    const list = byTool.get(c.tool) ?? [];
+    list.push(c);
+    byTool.set(c.tool, list);
+  }
+
+  const tools = [...byTool.entries()].map(([tool, list]) => {
+    const count = (status) => list.filter((c) => c.status === status).length;
+    const ok = count('ok');
+    const errors = count('error');
+
+    const sessions = new Map();
+    for (const c of list) {
+      const key = `${c.gatewayId}|${c.sessionKey ?? ''}`;
+      const s = sessions.get(key) ?? { gatewayId: c.gatewayId, sessionKey: c.sessionKey, calls: 0, errors: 0, totalMs: 0, lastAt: 0 };
+      s.calls += 1;
+      if (c.status === 'error') s.errors += 1;
+      s.totalMs += c.durationMs ?? 0;
+      s.lastAt = Math.max(s.lastAt, c.startTs);
+      sessions.set(key, s);
+    }
+
+    return {
+      tool,
+      calls: list.length,
+      ok,
+      errors,
+      running: count('running'),
+      incomplete: count('incomplete'),
+      errorRate: errorRate(errors, ok + errors),
+      ...durationStats(list.filter((c) => c.durationMs !== null).map((c) => c.durationMs)),
+      lastAt: list.reduce((acc, c) => Math.max(acc, c.startTs), 0),
+      sessions: sessions.size,
+      topSessions: [...sessions.values()].sort((a, b) => b.calls - a.calls || b.totalMs - a.totalMs).slice(0, TOP_SESSIONS),
+      trend: bucketTrend(list, start, to, bucketMs)
+    };
+  }).sort((a, b) => b.calls - a.calls || b.totalMs - a.totalMs);
+
+  const errors = tools.reduce((acc, t) => acc + t.errors, 0);
+  const finished = tools.reduce((acc, t) => acc + t.ok + t.errors, 0);
+  return {
+    from,
+    to,
+    bucketMs,
+    // The event limit was hit, so the oldest part of the window may be missing.
+    truncated: rows.length >= maxEvents,
+    totals: {
+      tools: tools.length,
+      calls: calls.length,
+      errors,
+      errorRate: errorRate(errors, finished),
+      totalMs: tools.reduce((acc, t) => acc + t.totalMs, 0)
+    },
+    trend: bucketTrend(calls, start, to, bucketMs),
+    tools
+  };
+}
@@ -0,0 +1,181 @@
+import { execFile } from 'node:child_process';
+import { accessSync, constants } from 'node:fs';
+import { delimiter, join } from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_AGE_MS = 60_000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+// Days asked of the gateway on each refresh; older days are already stored.
+const FETCH_DAYS = 30;
+
+const TOKEN_FIELDS = ['input', 'output', 'cacheRead', 'cacheWrite', 'totalTokens'];
+const COST_FIELDS = ['inputCost', 'outputCost', 'cacheReadCost', 'cacheWriteCost', 'totalCost'];
+
+const n = (v) => {
+  const x = Number(v);
+  return Number.isFinite(x) ? x : 0;
+};
+
+export const localDate = (ts) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// OPENCLAW_BIN, else the first `openclaw` on PATH.
+export function findOpenclawBin(env = process.env) {
+  if (env.OPENCLAW_BIN) return env.OPENCLAW_BIN;
+  for (const dir of String(env.PATH ?? '').split(delimiter).filter(Boolean)) {
+    const p = join(dir, process.platform === 'win32' ? 'openclaw.cmd' : 'openclaw');
+    try {
+      accessSync(p, constants.X_OK);
+      return p;
+    } catch {
+      // keep looking
+    }
+  }
+  return null;
+}
+
+function normalizeDay(d) {
+  const input = n(d?.input ?? d?.inputTokens);
+  const output = n(d?.output ?? d?.outputTokens);
+  const cacheRead = n(d?.cacheRead ?? d?.cacheReadTokens);
+  const cacheWrite = n(d?.cacheWrite ?? d?.cacheWriteTokens);
+  return {
+    date: String(d?.date ?? ''),
+    input,
+    output,
+    cacheRead,
+    cacheWrite,
+    totalTokens: n(d?.totalTokens) || input + output + cacheRead + cacheWrite,
+    inputCost: n(d?.inputCost),
+    outputCost: n(d?.outputCost),
+    cacheReadCost: n(d?.cacheReadCost),
+    cacheWriteCost: n(d?.cacheWriteCost),
+    totalCost: n(d?.totalCost ?? d?.cost)
+  };
+}
+
+// usage.cost (RPC) and `gateway usage-cost --json` (CLI) return the same summary; field names have
+// shifted between versions. byModel covers the whole fetched window. -> { daily, byModel }
+export function normalizeUsageCost(raw) {
+  const daily = (Array.isArray(raw?.daily) ? raw.daily : []).map(normalizeDay).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d.date));
+  const source = raw?.breakdown ?? raw?.byModel ?? raw?.models ?? raw?.items ?? null;
+  const entries = Array.isArray(source)
+    ? source
+    : source && typeof source === 'object'
+      ? Object.entries(source).map(([model, v]) => (v && typeof v === 'object' ? { model, ...v } : { model, cost: v }))
+      : [];
+  const byModel = entries
+    .map((e) => ({ model: e?.model ?? e?.modelId ?? e?.id ?? null, totalCost: n(e?.totalCost ?? e?.cost), totalTokens: normalizeDay(e).totalTokens }))
+    .filter((e) => e.model);
+  return { daily, byModel };
+}
+
+function sumDays(days) {
+  const totals = Object.fromEntries([...TOKEN_FIELDS, ...COST_FIELDS].map((f) => [f, 0]));
+  for (const d of days) for (const f of Object.keys(totals)) totals[f] += n(d[f]);
+  return totals;
+}
+
+// Daily token and cost totals per gateway. Each refresh asks the gateway over its monitor connection
+// (`usage.cost`); the openclaw CLI is only tried when that fails, and only for the primary gateway,
+// since the CLI reads the local openclaw config. Every day fetched is upserted into `usage_daily`, so
+// history outlives restarts and the gateway's own window.
+export class UsageCostCollector {
+  constructor({ store, gateways, primaryGatewayId, maxAgeMs = DEFAULT_MAX_AGE_MS, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+    this.store = store;
+    // Map of gateway runtimes ({ id, gw, connected }).
+    this.gateways = gateways;
+    this.primaryGatewayId = primaryGatewayId;
+    this.maxAgeMs = maxAgeMs;
+    this.timeoutMs = timeoutMs;
+    // gatewayId -> { ts, source, error, byModel, inFlight }
+    this.state = new Map();
+  }
+
+  // Re-fetches one gateway when its data is older than maxAgeMs; concurrent callers share the request.
+  refresh(gatewayId, maxAgeMs = this.maxAgeMs) {
+    const st = this.state.get(gatewayId) ?? { ts: 0, source: null, error: null, byModel: [], inFlight: null };
+    this.state.set(gatewayId, st);
+    if (st.inFlight) return st.inFlight;
+    if (Date.now() - st.ts < maxAgeMs) return Promise.resolve();
+    st.inFlight = (async () => {
+      try {
+        const { raw, source } = await this._fetch(gatewayId);
+        const { daily, byModel } = normalizeUsageCost(raw);
+        this.store.upsertUsageDays(gatewayId, daily, { source });
+        Object.assign(st, { source, error: null, byModel });
+      } catch (err) {
+        st.error = String(err?.message ?? err);
+      } finally {
+        st.ts = Date.now();
+        st.inFlight = null;
+      }
+    })();
+    return st.inFlight;
+  }
+
+  async _fetch(gatewayId) {
+    const g = this.gateways.get(gatewayId);
+    let rpcError;
+    try {
+      if (!g?.connected) throw new Error('gateway not connected');
+      return { raw: await g.gw.request('usage.cost', { days: FETCH_DAYS }, { timeoutMs: this.timeoutMs }), source: 'gateway' };
+    } catch (err) {
+      rpcError = String(err?.message ?? err);
+    }
+    if (gatewayId !== this.primaryGatewayId) throw new Error(rpcError);
+    const bin = findOpenclawBin();
+    if (!bin) throw new Error(`${rpcError}; no openclaw CLI on PATH (set OPENCLAW_BIN)`);
+    try {
+      const { stdout } = await execFileAsync(bin, ['gateway', 'usage-cost', '--json'], { timeout: this.timeoutMs, maxBuffer: 1024 * 1024 });
+      return { raw: JSON.parse(stdout.trim() || '{}'), source: 'cli' };
+    } catch (err) {
+      throw new Error(`${rpcError}; CLI: ${String(err?.message ?? err).trim()}`);
+    }
+  }
+
+  // Refreshes the gateways (all when null) and returns their combined summary.
+  async get({ gatewayIds = null, days = FETCH_DAYS } = {}) {
+    const ids = gatewayIds ?? [...this.gateways.keys()];
+    await Promise.all(ids.map((id) => this.refresh(id)));
+    return this.summary({ gatewayIds: ids, days });
+  }
+
+  // Stored totals for the last `days` days (today included), summed over the gateways, without refreshing.
+  // -> { ok, stale, source, data: { updatedAt, days, daily, totals, byModel }, error, gateways }
+  summary({ gatewayIds = null, days = FETCH_DAYS, now = Date.now() } = {}) {
+    const ids = gatewayIds ?? [...this.gateways.keys()];
+    const daily = this.store.listUsageDaily({ gatewayIds: ids, from: localDate(now - (days - 1) * DAY_MS) });
+    const states = ids.map((id) => ({ gatewayId: id, ...(this.state.get(id) ?? { ts: 0, source: null, error: null, byModel: [] }) }));
+    const byModel = new Map();
+    for (const st of states) {
+      for (const m of st.byModel) {
+        const acc = byModel.get(m.model) ?? { model: m.model, totalCost: 0, totalTokens: 0 };
+        acc.totalCost += m.totalCost;
+        acc.totalTokens += m.totalTokens;
+        byModel.set(m.model, acc);
+      }
+    }
+    const errors = states.filter((st) => st.error).map((st) => (ids.length > 1 ? `${st.gatewayId}: ${st.error}` : st.error));
+    const sources = [...new Set(states.map((st) => st.source).filter(Boolean))];
+    return {
+      ok: daily.length > 0 || sources.length > 0,
+      stale: errors.length > 0,
+      source: sources.length === 1 ? sources[0] : sources.length ? 'mixed' : daily.length ? 'history' : null,
+      data: {
+        updatedAt: Math.max(0, ...states.map((st) => st.ts)) || null,
+        days,
+        daily,
+        totals: sumDays(daily),
+        byModel: [...byModel.values()].sort((a, b) => b.totalCost - a.totalCost)
+      },
+      error: errors.length ? errors.join('; ') : null,
+      gateways: states.map((st) => ({ gatewayId: st.gatewayId, source: st.source, updatedAt: st.ts || null, error: st.error }))
+    };
+  }
+}
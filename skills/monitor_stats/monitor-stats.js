@@ -3,14 +3,22 @@
 
 // Monitor Dashboard pretty-printer for Discord.
 // Usage:
-//   node monitor-stats.js summary|cost|models
+//   node monitor-stats.js summary|cost|models|budget
 
 const BASE = process.env.MONITOR_DASHBOARD_URL || 'http://127.0.0.1:5176';
+// Needed once the dashboard has auth turned on (the same token the server reads).
+const TOKEN = process.env.MONITOR_AUTH_TOKEN || '';
 
 async function getJson(path) {
-  const res = await fetch(`${BASE}${path}`, { headers: { 'accept': 'application/json' } });
-  if (!res.ok) throw new Error(`${path} -> HTTP ${res.status}`);
+  const headers = { 'accept': 'application/json' };
+  if (TOKEN) headers.authorization = `Bearer ${TOKEN}`;
+  const res = await fetch(`${BASE}${path}`, { headers });
   const txt = await res.text();
+  if (!res.ok) {
+    let detail = '';
+    try { detail = JSON.parse(txt)?.error || ''; } catch {}
+    throw new Error(`${path} -> HTTP ${res.status}${detail ? ` (${detail})` : ''}`);
+  }
   try { return JSON.parse(txt); } catch (e) {
     throw new Error(`${path} -> invalid JSON: ${String(e.message || e)}`);
   }
@@ -33,6 +41,10 @@ function headroomLine({ remainingTokens, contextTokens }) {
   return `${used}/${contextTokens} (${pct(p)} used)`;
 }
 
+function budgetLabel(b) {
+  return `${b.scope === 'global' ? 'total' : `${b.scope} ${b.match}`} (${b.period})`;
+}
+
 function codeBlock(s) {
   return '```\n' + s.trimEnd() + '\n```';
 }
@@ -69,10 +81,14 @@ async function main() {
   } catch {}
 
   let usage = null;
+  let usageError = null;
   try {
     const u = await getJson('/api/usage-cost');
     if (u?.ok) usage = u;
-  } catch {}
+    else usageError = u?.error || null;
+  } catch (e) {
+    usageError = String(e.message || e);
+  }
 
   let catalog = null;
   try {
@@ -83,7 +99,7 @@ async function main() {
   if (mode === 'cost' || mode === 'summary') {
     out.push('MONITOR COST');
     if (!usage?.data) {
-      out.push('ERROR: usage-cost unavailable');
+      out.push(`ERROR: usage-cost unavailable${usageError ? `: ${usageError}` : ''}`);
     } else {
       const totals = usage.data.totals || {};
       out.push(`Total (last ${usage.data.days ?? '?'} days): $${money(totals.totalCost)}`);
@@ -135,6 +151,34 @@ async function main() {
     out.push('');
   }
 
+  if (mode === 'budget') {
+    out.push('BUDGETS');
+    let budgets = null;
+    let budgetsError = null;
+    try {
+      const b = await getJson('/api/budgets');
+      if (b?.ok) budgets = b.budgets || [];
+      else budgetsError = b?.error || null;
+    } catch (e) {
+      budgetsError = String(e.message || e);
+    }
+    if (!budgets) {
+      out.push(`ERROR: budgets unavailable${budgetsError ? `: ${budgetsError}` : ''}`);
+    } else if (!budgets.length) {
+      out.push('No budgets configured (server/budgets.json or dailySpendCapUsd in model-metadata.json).');
+    } else {
+      // Worst first: over, then warning, then by share of the limit used.
+      const rank = { over: 0, warning: 1, ok: 2 };
+      const sorted = [...budgets].sort((a, b) => rank[a.status] - rank[b.status] || b.usedRatio - a.usedRatio);
+      for (const b of sorted) {
+        const estimate = b.spendSource === 'estimate' ? ' ESTIMATE' : '';
+        out.push(`[${String(b.status).toUpperCase()}] ${budgetLabel(b)}: $${money(b.spentUsd)} / $${money(b.limitUsd)} (${pct(b.usedRatio * 100)})${estimate}`);
+        out.push(`  burn $${money(b.burnUsdPerHour)}/h -> projected $${money(b.projectedUsd)} by ${new Date(b.periodEnd).toLocaleString()}${b.complete ? '' : ' (partial history)'}`);
+      }
+    }
+    out.push('');
+  }
+
   if (mode === 'summary') {
     out.unshift('MONITOR DASHBOARD SUMMARY');
     if (overview?.gateway) {
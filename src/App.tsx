@@ -1,59 +1,447 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { apiGet, ApiModelCatalog, ApiOverview, ApiStatus, ApiUsageCost, EventRow, SnapshotRow } from './api';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActionName,
+  AlertRow,
+  ApiActionResult,
+  ApiAlerts,
+  ApiApprovals,
+  ApiAudit,
+  ApiAuthSession,
+  ApiBudgets,
+  ApiCronRuns,
+  ApiCronStats,
+  ApiCronUpcoming,
+  ApiDevices,
+  ApiEvents,
+  apiGet,
+  ApiModelCatalog,
+  ApiModelErrors,
+  ApiOverview,
+  apiPost,
+  ApprovalRequest,
+  ApiRateLimits,
+  ApiRedaction,
+  ApiRun,
+  ApiRuns,
+  ApiSearch,
+  ApiSessionDetail,
+  ApiSessionHistory,
+  ApiStatus,
+  ApiStorage,
+  ApiToolStats,
+  ApiUsageCost,
+  AuditEntry,
+  BudgetStatus,
+  CronCollision,
+  CronJobStats,
+  EventRow,
+  GatewayInfo,
+  getAuthSession,
+  LiveSnapshot,
+  login,
+  logout,
+  mergeSnapshots,
+  onAuthRequired,
+  onStreamConnection,
+  RateLimitModel,
+  RateLimitResource,
+  RunDetail,
+  RunStatus,
+  SearchEventHit,
+  SearchSnapshotHit,
+  SessionEventRow,
+  SnapshotKind,
+  SnapshotRow,
+  subscribe,
+  subscribeSnapshots,
+  withGateway
+} from './api';
 import modelMetadata from './model-metadata.json';
 
-type Tab = 'overview' | 'sessions' | 'subagents' | 'cron' | 'models' | 'feed' | 'search';
+type Tab = 'overview' | 'sessions' | 'subagents' | 'runs' | 'tools' | 'cron' | 'approvals' | 'devices' | 'models' | 'alerts' | 'feed' | 'search' | 'audit' | 'session';
+
+const TABS: Tab[] = ['overview', 'sessions', 'subagents', 'runs', 'tools', 'cron', 'approvals', 'devices', 'models', 'alerts', 'feed', 'search', 'audit'];
+
+type Route = { tab: Tab; sessionKey: string | null; runId: string | null; gatewayId: string | null };
+
+// Hash routes: #/<tab>, #/session/<encoded key>[?gateway=<id>] and #/runs/<encoded runId>[?gateway=<id>]
+// (shareable deep links).
+function parseHash(hash: string): Route {
+  const [h, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const gatewayId = new URLSearchParams(query).get('gateway');
+  if (h.startsWith('session/')) {
+    try { return { tab: 'session', sessionKey: decodeURIComponent(h.slice('session/'.length)), runId: null, gatewayId }; } catch {}
+  }
+  if (h.startsWith('runs/')) {
+    try { return { tab: 'runs', sessionKey: null, runId: decodeURIComponent(h.slice('runs/'.length)), gatewayId }; } catch {}
+  }
+  return { tab: (TABS as string[]).includes(h) ? (h as Tab) : 'overview', sessionKey: null, runId: null, gatewayId: null };
+}
+
+// Session keys are only unique per gateway, so links carry the gateway when it is known.
+function sessionHref(key: string, gatewayId?: string | null) {
+  const href = `#/session/${encodeURIComponent(key)}`;
+  return gatewayId ? `${href}?gateway=${encodeURIComponent(gatewayId)}` : href;
+}
+
+// Run ids are only unique per gateway too.
+function runHref(runId: string, gatewayId?: string | null) {
+  return withGateway(`#/runs/${encodeURIComponent(runId)}`, gatewayId ?? null);
+}
+
+function SessionLink({ sessionKey, gatewayId, style }: { sessionKey: string; gatewayId?: string | null; style?: React.CSSProperties }) {
+  return <a href={sessionHref(sessionKey, gatewayId)} style={style}>{sessionKey}</a>;
+}
+
+function RedactedBadge({ count }: { count?: number }) {
+  if (!count) return null;
+  return <span className="status warn" style={{ marginLeft: 6 }} title={`${count} value(s) redacted before storage`}>redacted</span>;
+}
+
+// An operator action button: confirms first, then POSTs. Success usually shows up through the live
+// snapshot the server re-polls afterwards (or `onDone`); failures are reported in a dialog.
+function ActionButton({ label, confirmText, path, gatewayId, danger, body, onDone }: {
+  label: string;
+  confirmText: string;
+  path: string;
+  gatewayId?: string | null;
+  danger?: boolean;
+  body?: unknown;
+  onDone?: () => void;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  async function run() {
+    if (!window.confirm(confirmText)) return;
+    setBusy(true);
+    try {
+      const res = await apiPost<ApiActionResult>(withGateway(path, gatewayId ?? null), body);
+      if (!res.ok) window.alert(`${label} failed: ${res.error ?? 'unknown error'}`);
+      else onDone?.();
+    } catch (e: any) {
+      window.alert(`${label} failed: ${String(e?.message ?? e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button disabled={busy} onClick={() => void run()} style={danger ? { color: 'var(--danger)' } : undefined}>
+      {busy ? '…' : label}
+    </button>
+  );
+}
+
+function sessionActionPath(key: string, verb: 'abort' | 'reset' | 'delete') {
+  return `/api/sessions/${encodeURIComponent(key)}/${verb}`;
+}
+
+function cronActionPath(jobId: string, verb: 'enable' | 'disable' | 'run') {
+  return `/api/cron/${encodeURIComponent(jobId)}/${verb}`;
+}
+
+function approvalActionPath(id: string, verb: 'approve' | 'deny') {
+  return `/api/approvals/${encodeURIComponent(id)}/${verb}`;
+}
+
+// What the tabs show: one gateway (`gateway`) or all configured ones (`gateway` null).
+type GatewayScope = { gateway: string | null; gateways: GatewayInfo[] };
+
+function scopeIds(scope: GatewayScope): string[] {
+  return scope.gateway ? [scope.gateway] : scope.gateways.map((g) => g.id);
+}
+
+// A gateway column is only worth its space when rows from several gateways are mixed.
+function showGatewayColumn(scope: GatewayScope) {
+  return !scope.gateway && scope.gateways.length > 1;
+}
+
+function gatewayName(scope: GatewayScope, id: string | null | undefined) {
+  if (!id) return '—';
+  return scope.gateways.find((g) => g.id === id)?.name ?? id;
+}
+
+function inScope(scope: GatewayScope, gatewayId: string | null | undefined) {
+  return !scope.gateway || gatewayId === scope.gateway;
+}
+
+// Live poller snapshot for every gateway in scope, merged (items tagged with gatewayId).
+function useLiveSnapshot(kind: SnapshotKind, scope: GatewayScope) {
+  const [snap, setSnap] = useState<LiveSnapshot | null>(null);
+  const ids = scopeIds(scope);
+  const idsKey = ids.join('\n');
+  useEffect(() => {
+    setSnap(null);
+    return subscribeSnapshots(kind, ids, setSnap);
+  }, [kind, idsKey]);
+  return [snap, setSnap] as const;
+}
+
+async function fetchSnapshot(kind: SnapshotKind, scope: GatewayScope): Promise<LiveSnapshot | null> {
+  const ids = scopeIds(scope);
+  const rows = await Promise.all(ids.map((id) => apiGet<{ snapshot: SnapshotRow | null }>(withGateway(`/api/snapshot/${kind}`, id))));
+  return mergeSnapshots(kind, rows.map((r, i) => [ids[i], snapshotFromRow(r.snapshot)]));
+}
+
+const GATEWAY_STORAGE_KEY = 'monitor.gateway';
+
+const FEED_LIMIT = 100;
+// Live events keep arriving on top; past this many rows the oldest are dropped (and can be scrolled back to).
+const FEED_MAX_ROWS = 2000;
+const FEED_RANGES = ['1h', '6h', '24h', '7d'];
+
+// Comma-separated filter inputs, as the events API takes them.
+function listInput(v: string) {
+  return v.split(',').map((s) => s.trim()).filter(Boolean);
+}
 
 function fmt(ts: number) {
   try { return new Date(ts).toLocaleString(); } catch { return String(ts); }
 }
 
+// Coalesce bursts of stream messages into at most one refresh per `delayMs`.
+function throttled(fn: () => void, delayMs: number) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const kick = () => {
+    if (timer) return;
+    timer = setTimeout(() => { timer = null; fn(); }, delayMs);
+  };
+  kick.cancel = () => { if (timer) clearTimeout(timer); timer = null; };
+  return kick;
+}
+
+function snapshotFromRow(row: SnapshotRow | null): LiveSnapshot | null {
+  if (!row) return null;
+  try { return { ts: row.ts, payload: JSON.parse(row.payloadJson) }; } catch { return null; }
+}
+
 export default function App() {
-  const [tab, setTab] = useState<Tab>('overview');
-  const [status, setStatus] = useState<ApiStatus | null>(null);
+  const [auth, setAuth] = useState<ApiAuthSession | null>(null);
   const [err, setErr] = useState<string | null>(null);
 
-  const [feed, setFeed] = useState<EventRow[]>([]);
-  const [feedType, setFeedType] = useState<string>('');
-  const [feedSessionKey, setFeedSessionKey] = useState<string>('');
-
-  async function refreshStatus() {
+  async function refreshAuth() {
     try {
-      const s = await apiGet<ApiStatus>('/api/status');
-      setStatus(s);
+      setAuth(await getAuthSession());
       setErr(null);
     } catch (e: any) {
       setErr(String(e?.message ?? e));
     }
   }
 
-  async function refreshFeed() {
+  useEffect(() => {
+    void refreshAuth();
+    return onAuthRequired(() => void refreshAuth());
+  }, []);
+
+  if (!auth) return <div className="content small">{err ?? 'Loading…'}</div>;
+  if (auth.enabled && !auth.user) return <Login auth={auth} onLogin={setAuth} />;
+  return <Dashboard auth={auth} onLogout={() => void logout().finally(() => void refreshAuth())} />;
+}
+
+function Login({ auth, onLogin }: { auth: ApiAuthSession; onLogin: (a: ApiAuthSession) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function submit(credentials: Parameters<typeof login>[0]) {
+    setBusy(true);
+    try {
+      const res = await login(credentials);
+      if (res.ok) onLogin(res);
+      else setErr(res.error ?? 'login failed');
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="content" style={{ maxWidth: 380, margin: '10vh auto', display: 'grid', gap: 12 }}>
+      <div className="brandTitle">OpenClaw Monitor</div>
+      {auth.methods.password ? (
+        <form className="card" style={{ display: 'grid', gap: 8 }} onSubmit={(e) => { e.preventDefault(); void submit({ username, password }); }}>
+          <div className="cardTitle">Sign in</div>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="username" autoComplete="username" autoFocus />
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="password" autoComplete="current-password" />
+          <button type="submit" disabled={busy}>Sign in</button>
+        </form>
+      ) : null}
+      {auth.methods.token ? (
+        <form className="card" style={{ display: 'grid', gap: 8 }} onSubmit={(e) => { e.preventDefault(); void submit({ token }); }}>
+          <div className="cardTitle">Access token</div>
+          <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="MONITOR_AUTH_TOKEN" autoComplete="off" />
+          <button type="submit" disabled={busy}>Use token</button>
+        </form>
+      ) : null}
+      {err ? <div style={{ color: 'var(--danger)' }}>{err}</div> : null}
+    </div>
+  );
+}
+
+function Dashboard({ auth, onLogout }: { auth: ApiAuthSession; onLogout: () => void }) {
+  const canOperate = auth.role === 'operator';
+  const [route, setRoute] = useState<Route>(() => parseHash(location.hash));
+  const tab = route.tab;
+  const setTab = (t: Tab) => { location.hash = `#/${t}`; };
+  const [status, setStatus] = useState<ApiStatus | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [gateway, setGateway] = useState<string | null>(() => localStorage.getItem(GATEWAY_STORAGE_KEY) || null);
+
+  const gatewayList = status?.gateways ?? [];
+  const gatewayIdsKey = gatewayList.map((g) => g.id).join('\n');
+  const scope = useMemo<GatewayScope>(() => ({ gateway, gateways: gatewayList }), [gateway, gatewayIdsKey]);
+
+  useEffect(() => {
+    if (gateway) localStorage.setItem(GATEWAY_STORAGE_KEY, gateway);
+    else localStorage.removeItem(GATEWAY_STORAGE_KEY);
+  }, [gateway]);
+
+  // Fall back to all gateways when the remembered one was removed from gateways.json.
+  useEffect(() => {
+    if (gateway && gatewayList.length && !gatewayList.some((g) => g.id === gateway)) setGateway(null);
+  }, [gateway, gatewayIdsKey]);
+
+  const [feed, setFeed] = useState<{ rows: EventRow[]; cursor: string | null }>({ rows: [], cursor: null });
+  const [feedLoading, setFeedLoading] = useState(false);
+  const [feedType, setFeedType] = useState<string>('');
+  const [feedSessionKey, setFeedSessionKey] = useState<string>('');
+  const [feedTool, setFeedTool] = useState<string>('');
+  const [feedRunId, setFeedRunId] = useState<string>('');
+  const [feedPayload, setFeedPayload] = useState<string>('');
+  // '' = latest, a FEED_RANGES entry, or 'custom' for feedFrom/feedTo.
+  const [feedRange, setFeedRange] = useState<string>('');
+  const [feedFrom, setFeedFrom] = useState<string>('');
+  const [feedTo, setFeedTo] = useState<string>('');
+  // Bumped by every refresh so pages requested for older filters are dropped.
+  const feedSeq = useRef(0);
+
+  const feedPayloadFilters = feedPayload.split('\n').map((s) => s.trim()).filter(Boolean);
+  // Live events can only be merged in when the client can tell whether they match.
+  const feedLive = !feedPayloadFilters.length && !(feedRange === 'custom' && feedTo);
+
+  function feedQuery(cursor: string | null) {
     const qs = new URLSearchParams();
-    qs.set('limit', '100');
+    qs.set('limit', String(FEED_LIMIT));
     if (feedType.trim()) qs.set('type', feedType.trim());
     if (feedSessionKey.trim()) qs.set('sessionKey', feedSessionKey.trim());
+    if (feedTool.trim()) qs.set('tool', feedTool.trim());
+    if (feedRunId.trim()) qs.set('runId', feedRunId.trim());
+    for (const f of feedPayloadFilters) qs.append('payload', f);
+    if (FEED_RANGES.includes(feedRange)) qs.set('from', feedRange);
+    if (feedRange === 'custom' && feedFrom) qs.set('from', String(new Date(feedFrom).getTime()));
+    if (feedRange === 'custom' && feedTo) qs.set('to', String(new Date(feedTo).getTime()));
+    if (cursor) qs.set('cursor', cursor);
+    if (gateway) qs.set('gateway', gateway);
+    return `/api/events?${qs.toString()}`;
+  }
 
+  async function refreshFeed() {
+    const seq = ++feedSeq.current;
+    setFeedLoading(true);
     try {
-      const rows = await apiGet<{ events: EventRow[] }>(`/api/events?${qs.toString()}`);
-      setFeed(rows.events);
+      const res = await apiGet<ApiEvents>(feedQuery(null));
+      if (seq !== feedSeq.current) return;
+      if (!res.ok) throw new Error(res.error ?? 'failed to load events');
+      setFeed({ rows: res.events ?? [], cursor: res.nextCursor ?? null });
       setErr(null);
     } catch (e: any) {
-      setErr(String(e?.message ?? e));
+      if (seq === feedSeq.current) setErr(String(e?.message ?? e));
+    } finally {
+      if (seq === feedSeq.current) setFeedLoading(false);
+    }
+  }
+
+  async function loadMoreFeed() {
+    if (!feed.cursor || feedLoading) return;
+    const seq = feedSeq.current;
+    setFeedLoading(true);
+    try {
+      const res = await apiGet<ApiEvents>(feedQuery(feed.cursor));
+      if (seq !== feedSeq.current) return;
+      if (!res.ok) throw new Error(res.error ?? 'failed to load events');
+      setFeed((prev) => {
+        const seen = new Set(prev.rows.map((r) => r.id));
+        return { rows: [...prev.rows, ...(res.events ?? []).filter((r) => !seen.has(r.id))], cursor: res.nextCursor ?? null };
+      });
+    } catch (e: any) {
+      if (seq === feedSeq.current) setErr(String(e?.message ?? e));
+    } finally {
+      if (seq === feedSeq.current) setFeedLoading(false);
     }
   }
 
   useEffect(() => {
-    void refreshStatus();
-    const t = setInterval(() => void refreshStatus(), 4000);
-    return () => clearInterval(t);
+    const onHash = () => setRoute(parseHash(location.hash));
+    window.addEventListener('hashchange', onHash);
+    return () => window.removeEventListener('hashchange', onHash);
+  }, []);
+
+  const [firingAlerts, setFiringAlerts] = useState<Set<string>>(new Set());
+
+  // Track firing alerts app-wide so the nav badge and desktop notifications work on every tab.
+  useEffect(() => {
+    apiGet<ApiAlerts>(withGateway('/api/alerts?limit=1', gateway))
+      .then((res) => setFiringAlerts(new Set((res.firing ?? []).map((a) => a.alertKey))))
+      .catch(() => {});
+    return subscribe('alerts', (a) => {
+      if (gateway && a.gatewayId !== gateway) return;
+      setFiringAlerts((prev) => {
+        const next = new Set(prev);
+        if (a.status === 'firing') next.add(a.alertKey);
+        else next.delete(a.alertKey);
+        return next;
+      });
+      const fresh = a.status === 'firing' && a.notifiedAt !== null && a.lastSeenAt === a.notifiedAt;
+      if (fresh && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification(`${a.severity.toUpperCase()}: ${a.ruleId}`, { body: a.message, tag: a.alertKey });
+      }
+    });
+  }, [gateway]);
+
+  const [pendingApprovals, setPendingApprovals] = useState(0);
+
+  useEffect(() => {
+    const load = () => apiGet<ApiApprovals>(withGateway('/api/approvals', gateway))
+      .then((res) => setPendingApprovals(res.pending?.length ?? 0))
+      .catch(() => {});
+    void load();
+    const kick = throttled(() => void load(), 1000);
+    const off = subscribe('approvals', (c) => { if (!gateway || c.gatewayId === gateway) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [gateway]);
+
+  useEffect(() => {
+    const offStatus = subscribe('status', (s) => setStatus(s));
+    const offConn = onStreamConnection((connected) => setErr(connected ? null : 'Live stream disconnected; reconnecting…'));
+    return () => { offStatus(); offConn(); };
   }, []);
 
   useEffect(() => {
     if (tab !== 'feed') return;
     void refreshFeed();
-    const t = setInterval(() => void refreshFeed(), 2000);
-    return () => clearInterval(t);
-  }, [tab, feedType, feedSessionKey]);
+    if (!feedLive) return;
+    const types = listInput(feedType);
+    const tools = listInput(feedTool);
+    const runIds = listInput(feedRunId);
+    const sessionKey = feedSessionKey.trim();
+    return subscribe('events', (row) => {
+      if (types.length && !types.includes(row.type)) return;
+      if (tools.length && !tools.includes(row.tool ?? '')) return;
+      if (runIds.length && !runIds.includes(row.runId ?? '')) return;
+      if (sessionKey && !(row.sessionKey ?? '').includes(sessionKey)) return;
+      if (gateway && row.gatewayId !== gateway) return;
+      setFeed((prev) => {
+        const rows = [row, ...prev.rows.filter((r) => r.id !== row.id)];
+        if (rows.length <= FEED_MAX_ROWS) return { ...prev, rows };
+        const kept = rows.slice(0, FEED_MAX_ROWS);
+        const last = kept[kept.length - 1];
+        return { rows: kept, cursor: `${last.ts}:${last.id}` };
+      });
+    });
+  }, [tab, feedType, feedSessionKey, feedTool, feedRunId, feedPayload, feedRange, feedFrom, feedTo, gateway]);
 
   const connectedDot = useMemo(() => {
     if (!status) return 'warn';
@@ -74,6 +462,21 @@ export default function App() {
           </span>
         </div>
 
+        {gatewayList.length > 1 ? (
+          <div className="small" style={{ display: 'grid', gap: 6 }}>
+            <select value={gateway ?? ''} onChange={(e) => setGateway(e.target.value || null)}>
+              <option value="">All gateways ({gatewayList.length})</option>
+              {gatewayList.map((g) => <option key={g.id} value={g.id}>{g.name}</option>)}
+            </select>
+            {gatewayList.map((g) => (
+              <div key={g.id} title={g.error ?? g.url}>
+                <span className={`dot ${g.connected ? 'ok' : 'bad'}`}>●</span> {g.name}
+                <span style={{ color: 'var(--muted)' }}> {g.openclawVersion ?? ''}</span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
         <div className="small">
           <div>Gateway: <span style={{ color: 'var(--muted)' }}>{status?.gatewayUrl ?? '—'}</span></div>
           <div>OpenClaw: <span style={{ color: 'var(--muted)' }}>{status?.openclawVersion ?? '—'}</span></div>
@@ -81,29 +484,68 @@ export default function App() {
           {err ? <div style={{ color: 'var(--danger)', marginTop: 6 }}>{err}</div> : null}
         </div>
 
+        {auth.user ? (
+          <div className="small" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+            <span>{auth.user.username} <span className="status">{auth.user.role}</span></span>
+            <button onClick={onLogout}>Log out</button>
+          </div>
+        ) : null}
+
         <div className="nav">
           <button className={tab === 'overview' ? 'active' : ''} onClick={() => setTab('overview')}>Overview</button>
           <button className={tab === 'sessions' ? 'active' : ''} onClick={() => setTab('sessions')}>Sessions</button>
           <button className={tab === 'subagents' ? 'active' : ''} onClick={() => setTab('subagents')}>Sub-agents</button>
+          <button className={tab === 'runs' ? 'active' : ''} onClick={() => setTab('runs')}>Runs</button>
+          <button className={tab === 'tools' ? 'active' : ''} onClick={() => setTab('tools')}>Tools</button>
           <button className={tab === 'cron' ? 'active' : ''} onClick={() => setTab('cron')}>Cron</button>
+          <button className={tab === 'approvals' ? 'active' : ''} onClick={() => setTab('approvals')}>
+            Approvals{pendingApprovals ? <span className="badge" style={{ marginLeft: 6 }}>{pendingApprovals}</span> : null}
+          </button>
+          <button className={tab === 'devices' ? 'active' : ''} onClick={() => setTab('devices')}>Devices</button>
           <button className={tab === 'models' ? 'active' : ''} onClick={() => setTab('models')}>Models</button>
+          <button className={tab === 'alerts' ? 'active' : ''} onClick={() => setTab('alerts')}>
+            Alerts{firingAlerts.size ? <span className="badge" style={{ marginLeft: 6 }}>{firingAlerts.size}</span> : null}
+          </button>
           <button className={tab === 'feed' ? 'active' : ''} onClick={() => setTab('feed')}>Activity Feed</button>
           <button className={tab === 'search' ? 'active' : ''} onClick={() => setTab('search')}>Search</button>
+          <button className={tab === 'audit' ? 'active' : ''} onClick={() => setTab('audit')}>Audit log</button>
         </div>
 
         {tab === 'feed' ? (
           <div className="card">
             <div className="cardTitle">Feed filters</div>
-            <div className="small" style={{ marginBottom: 8 }}>Persisted to SQLite; refreshes every 2s.</div>
+            <div className="small" style={{ marginBottom: 8 }}>Persisted to SQLite; new events stream in live.</div>
             <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-              <input value={feedType} onChange={(e) => setFeedType(e.target.value)} placeholder="type (chat/tool/cron/...)" />
+              <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+                <button className={feedRange === '' ? 'active' : ''} onClick={() => setFeedRange('')}>latest</button>
+                {FEED_RANGES.map((r) => (
+                  <button key={r} className={feedRange === r ? 'active' : ''} onClick={() => setFeedRange(r)}>{r}</button>
+                ))}
+                <button className={feedRange === 'custom' ? 'active' : ''} onClick={() => setFeedRange('custom')}>custom</button>
+              </div>
+              {feedRange === 'custom' ? (
+                <>
+                  <input type="datetime-local" value={feedFrom} onChange={(e) => setFeedFrom(e.target.value)} title="from" />
+                  <input type="datetime-local" value={feedTo} onChange={(e) => setFeedTo(e.target.value)} title="to" />
+                </>
+              ) : null}
+              <input value={feedType} onChange={(e) => setFeedType(e.target.value)} placeholder="type(s), e.g. chat,agent" />
+              <input value={feedTool} onChange={(e) => setFeedTool(e.target.value)} placeholder="tool(s)" />
+              <input value={feedRunId} onChange={(e) => setFeedRunId(e.target.value)} placeholder="runId(s)" />
               <input value={feedSessionKey} onChange={(e) => setFeedSessionKey(e.target.value)} placeholder="sessionKey contains…" />
+              <textarea
+                value={feedPayload}
+                onChange={(e) => setFeedPayload(e.target.value)}
+                rows={2}
+                placeholder={'payload filters, one per line:\ndata.phase=error  data.error~timeout'}
+              />
               <button onClick={() => void refreshFeed()}>Refresh now</button>
+              {!feedLive ? <div className="small">Live updates are paused for payload filters and fixed end times.</div> : null}
             </div>
           </div>
         ) : null}
 
-        <div className="small">Listening on <b>http://localhost:5176/</b></div>
+        <div className="small">Listening on <b>{location.origin}/</b></div>
       </div>
 
       <div className="main">
@@ -113,13 +555,24 @@ export default function App() {
         </div>
 
         <div className="content">
-          {tab === 'overview' ? <Overview /> : null}
-          {tab === 'feed' ? <Feed rows={feed} /> : null}
-          {tab === 'sessions' ? <Sessions /> : null}
-          {tab === 'subagents' ? <Subagents /> : null}
-          {tab === 'cron' ? <Cron /> : null}
-          {tab === 'models' ? <Models /> : null}
-          {tab === 'search' ? <Search /> : null}
+          {tab === 'overview' ? <Overview scope={scope} /> : null}
+          {tab === 'feed' ? (
+            <Feed rows={feed.rows} scope={scope} hasMore={!!feed.cursor} loading={feedLoading} onLoadMore={() => void loadMoreFeed()} />
+          ) : null}
+          {tab === 'sessions' ? <Sessions scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'subagents' ? <Subagents scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'runs' ? <Runs runId={route.runId} gatewayId={route.gatewayId} scope={scope} /> : null}
+          {tab === 'tools' ? <Tools scope={scope} /> : null}
+          {tab === 'cron' ? <Cron scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'approvals' ? <Approvals scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'devices' ? <Devices scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'models' ? <Models scope={scope} /> : null}
+          {tab === 'alerts' ? <Alerts scope={scope} canOperate={canOperate} /> : null}
+          {tab === 'search' ? <Search scope={scope} /> : null}
+          {tab === 'audit' ? <Audit scope={scope} /> : null}
+          {tab === 'session' && route.sessionKey ? (
+            <SessionDetail key={`${route.gatewayId ?? ''}|${route.sessionKey}`} sessionKey={route.sessionKey} gatewayId={route.gatewayId} scope={scope} />
+          ) : null}
         </div>
       </div>
     </div>
@@ -143,19 +596,100 @@ function fmtPct(n: number) {
   return `${n.toFixed(2)}%`;
 }
 
+function fmtBytes(n: number | null | undefined) {
+  const val = Number(n);
+  if (!Number.isFinite(val)) return '—';
+  if (val >= 1024 ** 3) return `${(val / 1024 ** 3).toFixed(2)} GB`;
+  if (val >= 1024 ** 2) return `${(val / 1024 ** 2).toFixed(1)} MB`;
+  if (val >= 1024) return `${(val / 1024).toFixed(1)} KB`;
+  return `${val} B`;
+}
+
 function fmtUsd(n: number | null | undefined) {
   const val = Number(n);
   if (!Number.isFinite(val)) return '—';
   return `$${val.toFixed(4)}`;
 }
 
-function Overview() {
+// Session cost estimate; a trailing "+" marks token kinds pricing.json has no rate for.
+function fmtDriftCost(drift: any) {
+  const unpriced = Array.isArray(drift?.costUnpriced) ? drift.costUnpriced : [];
+  return unpriced.length ? `${fmtUsd(drift?.cost)}+` : fmtUsd(drift?.cost);
+}
+
+const BUDGET_STATUS_CLASS: Record<BudgetStatus['status'], string> = { ok: 'ok', warning: 'warn', over: 'bad' };
+
+// Budgets are global, so every tab shares the same list; usage-cost is cached server-side for a minute.
+function useBudgets() {
+  const [data, setData] = useState<ApiBudgets | null>(null);
+  useEffect(() => {
+    const load = () => apiGet<ApiBudgets>('/api/budgets').then(setData).catch(() => setData(null));
+    void load();
+    const t = setInterval(() => void load(), 60_000);
+    return () => clearInterval(t);
+  }, []);
+  return data?.ok ? data.budgets ?? [] : [];
+}
+
+const budgetLabel = (b: BudgetStatus) => `${b.scope === 'global' ? 'total spend' : `${b.scope} ${b.match}`} (${b.period})`;
+
+function budgetWarning(b: BudgetStatus) {
+  if (b.status === 'over') return `${budgetLabel(b)} is over budget: ${fmtUsd(b.spentUsd)} of ${fmtUsd(b.limitUsd)}.`;
+  return `${budgetLabel(b)} is at ${fmtPct(b.usedRatio * 100)} of ${fmtUsd(b.limitUsd)}, projected ${fmtUsd(b.projectedUsd)} by ${fmt(b.periodEnd)}.`;
+}
+
+function BudgetTable({ budgets }: { budgets: BudgetStatus[] }) {
+  return (
+    <table className="table" style={{ marginTop: 10 }}>
+      <thead>
+        <tr>
+          <th>Budget</th>
+          <th>Spent / limit</th>
+          <th>Burn</th>
+          <th>Projected</th>
+          <th>Status</th>
+        </tr>
+      </thead>
+      <tbody>
+        {budgets.map((b) => (
+          <tr key={b.id}>
+            <td>
+              <div>{budgetLabel(b)}</div>
+              <div className="small">{b.id}{b.source === 'metadata' ? ' · model-metadata.json' : ''}</div>
+            </td>
+            <td>
+              <div className="small">
+                {fmtUsd(b.spentUsd)} / {fmtUsd(b.limitUsd)}
+                {b.spendSource === 'estimate' ? <span title="Local per-session estimate"> · ESTIMATE</span> : null}
+                {!b.complete ? <span title="Session history starts after the period began"> · partial</span> : null}
+              </div>
+              <div className="bar" style={{ width: 160, marginTop: 4 }}>
+                <div className="barFill" style={{
+                  width: `${Math.min(100, b.usedRatio * 100)}%`,
+                  background: b.status === 'over' ? 'var(--danger)' : b.status === 'warning' ? 'var(--warn)' : undefined
+                }} />
+              </div>
+            </td>
+            <td className="small">{fmtUsd(b.burnUsdPerHour)}/h</td>
+            <td className="small" style={{ color: b.projectedUsd > b.limitUsd ? 'var(--warn)' : undefined }}>{fmtUsd(b.projectedUsd)}</td>
+            <td><span className={`status ${BUDGET_STATUS_CLASS[b.status]}`}>{b.status}</span></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Overview({ scope }: { scope: GatewayScope }) {
   const [ov, setOv] = useState<ApiOverview | null>(null);
+  const [storage, setStorage] = useState<ApiStorage | null>(null);
+  const [redaction, setRedaction] = useState<ApiRedaction | null>(null);
   const [err, setErr] = useState<string | null>(null);
+  const budgets = useBudgets();
 
   async function refresh() {
     try {
-      const data = await apiGet<ApiOverview>('/api/overview');
+      const data = await apiGet<ApiOverview>(withGateway('/api/overview', scope.gateway));
       setOv(data);
       setErr(null);
     } catch (e: any) {
@@ -164,23 +698,42 @@ function Overview() {
   }
 
   useEffect(() => {
-    void refresh();
-    const t = setInterval(() => void refresh(), 4000);
-    return () => clearInterval(t);
+    // Row counts scan whole tables; fetch storage stats once per visit.
+    apiGet<ApiStorage>('/api/storage').then(setStorage).catch(() => setStorage(null));
+    apiGet<ApiRedaction>('/api/redaction').then(setRedaction).catch(() => setRedaction(null));
   }, []);
 
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 2000);
+    const offs = [
+      subscribe('status', kick),
+      subscribe('events', (row) => { if (inScope(scope, row.gatewayId)) kick(); }),
+      subscribe('sessions', (c) => { if (inScope(scope, c.gatewayId)) kick(); }),
+      subscribe('cron', (c) => { if (inScope(scope, c.gatewayId)) kick(); })
+    ];
+    return () => { kick.cancel(); for (const off of offs) off(); };
+  }, [scope.gateway]);
+
   const byType = ov?.events?.byType ?? {};
   const maxCount = Math.max(1, ...Object.values(byType));
   const typeRows = Object.entries(byType).sort((a, b) => b[1] - a[1]);
+  const budgetAlerts = budgets.filter((b) => b.status !== 'ok');
 
   return (
     <div style={{ display: 'grid', gap: 12 }}>
       {err ? <div className="card" style={{ borderColor: 'var(--danger)' }}>{err}</div> : null}
+      {budgetAlerts.length ? (
+        <div className="card" style={{ borderColor: budgetAlerts.some((b) => b.status === 'over') ? 'var(--danger)' : 'var(--warn)' }}>
+          <div className="cardTitle">Budgets</div>
+          {budgetAlerts.map((b) => <div key={b.id} className="small">{budgetWarning(b)}</div>)}
+        </div>
+      ) : null}
 
       <div className="cards">
         <div className="card">
           <div className="cardTitle">At-a-glance</div>
-          <div className="small">Ops summary (refreshes every ~4s).</div>
+          <div className="small">Ops summary (refreshes on live updates).</div>
           <div style={{ marginTop: 10, display: 'grid', gap: 6 }}>
             <div>Server uptime: <span style={{ color: 'var(--muted)' }}>{ov ? msToHuman(ov.server.upMs) : '—'}</span></div>
             <div>Gateway: <span style={{ color: ov?.gateway.connected ? 'var(--ok)' : 'var(--danger)' }}>{ov?.gateway.connected ? 'CONNECTED' : 'OFFLINE'}</span></div>
@@ -226,6 +779,53 @@ function Overview() {
         </div>
       </div>
 
+      {budgets.length ? (
+        <div className="card">
+          <div className="cardTitle">Spend budgets</div>
+          <div className="small">Across all gateways. Projection extrapolates the burn rate to the end of each period.</div>
+          <BudgetTable budgets={budgets} />
+        </div>
+      ) : null}
+
+      {(ov?.gateways?.length ?? 0) > 1 ? (
+        <div className="card">
+          <div className="cardTitle">Gateways</div>
+          <div className="small">Uptime is measured since monitor start.</div>
+          <table className="table" style={{ marginTop: 10 }}>
+            <thead>
+              <tr>
+                <th>Gateway</th>
+                <th>Status</th>
+                <th>Uptime</th>
+                <th>Sessions</th>
+                <th>Cron jobs</th>
+                <th>OpenClaw</th>
+                <th>Last snapshot</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ov!.gateways!.map((g) => (
+                <tr key={g.id}>
+                  <td>
+                    <div>{g.name}</div>
+                    <div className="small">{g.url}</div>
+                  </td>
+                  <td>
+                    <span className={`status ${g.connected ? 'ok' : 'bad'}`}>{g.connected ? 'connected' : 'offline'}</span>
+                    {g.error ? <div className="small" style={{ color: 'var(--danger)' }}>{g.error}</div> : null}
+                  </td>
+                  <td className="small">{fmtPct(g.uptimePct)}</td>
+                  <td className="small">{g.sessions}</td>
+                  <td className="small">{g.cronJobs}</td>
+                  <td className="small">{g.openclawVersion ?? '—'}</td>
+                  <td className="small">{g.sessionsTs ? fmt(g.sessionsTs) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
       <div className="cards">
         <div className="card">
           <div className="cardTitle">Top context pressure</div>
@@ -242,8 +842,8 @@ function Overview() {
                 </thead>
                 <tbody>
                   {ov.sessions.topPressure.map((s: any) => (
-                    <tr key={s.key}>
-                      <td style={{ color: 'var(--accent)' }}>{s.key}</td>
+                    <tr key={`${s.gatewayId}|${s.key}`}>
+                      <td><SessionLink sessionKey={s.key} gatewayId={s.gatewayId} /></td>
                       <td className="small">{s.drift?.pressure ?? 0}%</td>
                       <td className="small">{(s.totalTokens ?? 0).toLocaleString()} / {(s.contextTokens ?? 0).toLocaleString()}</td>
                     </tr>
@@ -271,9 +871,9 @@ function Overview() {
                 </thead>
                 <tbody>
                   {ov.sessions.topCost.map((s: any) => (
-                    <tr key={s.key}>
-                      <td style={{ color: 'var(--accent)' }}>{s.key}</td>
-                      <td style={{ color: 'var(--ok)' }}>{fmtUsd(s.drift?.cost)}</td>
+                    <tr key={`${s.gatewayId}|${s.key}`}>
+                      <td><SessionLink sessionKey={s.key} gatewayId={s.gatewayId} /></td>
+                      <td style={{ color: 'var(--ok)' }}>{fmtDriftCost(s.drift)}</td>
                       <td className="small">{s.model ?? '—'}</td>
                     </tr>
                   ))}
@@ -286,6 +886,53 @@ function Overview() {
         </div>
       </div>
 
+      <div className="card">
+        <div className="cardTitle">Storage</div>
+        <div className="small">SQLite size and retention (see server/retention.json).</div>
+        {storage?.ok ? (
+          <div style={{ marginTop: 10, display: 'grid', gap: 6 }}>
+            <div>On disk: <span style={{ color: 'var(--muted)' }}>{fmtBytes(storage.bytes?.db)} (+{fmtBytes(storage.bytes?.wal)} WAL)</span></div>
+            <div>Events: <span style={{ color: 'var(--muted)' }}>{(storage.tables?.events?.rows ?? 0).toLocaleString()} rows</span></div>
+            <div>Snapshots: <span style={{ color: 'var(--muted)' }}>{(storage.tables?.snapshots?.rows ?? 0).toLocaleString()} rows</span></div>
+            <div>Last prune: <span style={{ color: 'var(--muted)' }}>
+              {storage.retention?.lastPrune ? `${fmt(storage.retention.lastPrune.finishedAt)} (${fmtBytes(storage.retention.lastPrune.bytesBefore)} → ${fmtBytes(storage.retention.lastPrune.bytesAfter)})` : 'never'}
+            </span></div>
+            {storage.retention?.lastPrune?.error ? <div style={{ color: 'var(--danger)' }}>{storage.retention.lastPrune.error}</div> : null}
+          </div>
+        ) : (
+          <div className="small" style={{ marginTop: 10 }}>Storage stats unavailable.</div>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="cardTitle">Redaction</div>
+        <div className="small">Applied to event and snapshot payloads before storage (see server/redaction.json). Hits since server start.</div>
+        {redaction?.ok && redaction.enabled ? (
+          <table className="table" style={{ marginTop: 10 }}>
+            <thead>
+              <tr>
+                <th>Rule</th>
+                <th>Action</th>
+                <th>Matches</th>
+                <th>Hits</th>
+              </tr>
+            </thead>
+            <tbody>
+              {redaction.rules.map((r) => (
+                <tr key={r.id}>
+                  <td>{r.id}</td>
+                  <td className="small">{r.action}</td>
+                  <td className="small" style={{ wordBreak: 'break-all' }}>{[...r.paths, ...(r.pattern ? [`/${r.pattern}/`] : [])].join(', ')}</td>
+                  <td className="small">{r.hits.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="small" style={{ marginTop: 10, color: 'var(--warn)' }}>{redaction ? 'Redaction is off; payloads are stored verbatim.' : 'Redaction status unavailable.'}</div>
+        )}
+      </div>
+
       <div className="card">
         <div className="cardTitle">What this is</div>
         <div className="small">
@@ -297,20 +944,41 @@ function Overview() {
   );
 }
 
-function Feed({ rows }: { rows: EventRow[] }) {
+function Feed({ rows, scope, hasMore, loading, onLoadMore }: {
+  rows: EventRow[];
+  scope: GatewayScope;
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}) {
+  const sentinel = useRef<HTMLDivElement | null>(null);
+
+  // Loads the next page once the end of the list scrolls into view.
+  useEffect(() => {
+    const el = sentinel.current;
+    if (!el || !hasMore || loading) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) onLoadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, loading, rows.length]);
+
   return (
     <div>
-      {rows.length === 0 ? <div className="small">No events yet.</div> : null}
+      {rows.length === 0 && !loading ? <div className="small">No events yet.</div> : null}
       {rows.map((r) => (
         <div className="feedItem" key={r.id}>
           <div className="feedTop">
             <div>
               <span className="feedType">{r.type}</span>
               <span className="small">{' '}- {r.event}</span>
+              <RedactedBadge count={r.redacted} />
             </div>
             <div className="small">{fmt(r.ts)}</div>
           </div>
           <div className="small" style={{ marginTop: 6 }}>
+            {showGatewayColumn(scope) ? <span>gateway: <span style={{ color: 'var(--muted)' }}>{gatewayName(scope, r.gatewayId)}</span> </span> : null}
             {r.sessionKey ? <span>session: <span style={{ color: 'var(--muted)' }}>{r.sessionKey}</span> </span> : null}
             {r.tool ? <span>tool: <span style={{ color: 'var(--muted)' }}>{r.tool}</span> </span> : null}
             {r.runId ? <span>run: <span style={{ color: 'var(--muted)' }}>{r.runId}</span></span> : null}
@@ -322,36 +990,135 @@ function Feed({ rows }: { rows: EventRow[] }) {
           </details>
         </div>
       ))}
+      <div ref={sentinel} className="small" style={{ padding: '8px 0' }}>
+        {loading ? 'Loading…' : hasMore ? <a href="#/feed" onClick={(e) => { e.preventDefault(); onLoadMore(); }}>load older events</a> : rows.length ? 'No older events.' : null}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ values, ts, color = 'var(--accent)', format, height = 60 }: {
+  values: Array<number | null>;
+  ts: number[];
+  color?: string;
+  format: (n: number) => string;
+  height?: number;
+}) {
+  const width = 480;
+  const nums = values.filter((v): v is number => v !== null);
+  if (!nums.length) return <div className="small">No data in this window.</div>;
+  const min = Math.min(...nums);
+  const max = Math.max(...nums);
+  const span = max - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  // Gaps (null) split the line into separate segments.
+  const segments: string[] = [];
+  let cur: string[] = [];
+  values.forEach((v, i) => {
+    if (v === null) {
+      if (cur.length) segments.push(cur.join(' '));
+      cur = [];
+      return;
+    }
+    const x = (i * step).toFixed(1);
+    const y = (height - 4 - ((v - min) / span) * (height - 8)).toFixed(1);
+    cur.push(`${cur.length ? 'L' : 'M'}${x},${y}`);
+  });
+  if (cur.length) segments.push(cur.join(' '));
+
+  const lastIdx = values.map((v, i) => (v === null ? -1 : i)).filter((i) => i >= 0).pop() ?? 0;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" style={{ width: '100%', height }}>
+        {segments.map((d, i) => <path key={i} d={d} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />)}
+      </svg>
+      <div className="small" style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <span>{ts.length ? fmt(ts[0]) : ''}</span>
+        <span>min {format(min)} · max {format(max)} · last {format(values[lastIdx] ?? 0)}</span>
+        <span>{ts.length ? fmt(ts[ts.length - 1]) : ''}</span>
+      </div>
     </div>
   );
 }
 
-function parseSnapshotPayload(snap: SnapshotRow | null): any {
-  if (!snap) return null;
-  try { return JSON.parse(snap.payloadJson); } catch { return null; }
+const HISTORY_WINDOWS = ['1h', '6h', '24h', '7d'];
+
+function SessionHistory({ sessionKey, gatewayId }: { sessionKey: string; gatewayId: string | null }) {
+  const [windowSpec, setWindowSpec] = useState('1h');
+  const [hist, setHist] = useState<ApiSessionHistory | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function refresh() {
+      try {
+        const res = await apiGet<ApiSessionHistory>(withGateway(`/api/sessions/${encodeURIComponent(sessionKey)}/history?from=${windowSpec}`, gatewayId));
+        if (cancelled) return;
+        setHist(res);
+        setErr(res.ok ? null : (res.error ?? 'history unavailable'));
+      } catch (e: any) {
+        if (!cancelled) setErr(String(e?.message ?? e));
+      }
+    }
+    void refresh();
+    const kick = throttled(() => void refresh(), 10_000);
+    const off = subscribe('sessions', (c) => { if (!gatewayId || c.gatewayId === gatewayId) kick(); });
+    return () => { cancelled = true; kick.cancel(); off(); };
+  }, [sessionKey, windowSpec, gatewayId]);
+
+  const series = hist?.series ?? [];
+  const ts = series.map((p) => p.ts);
+
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+        <div>
+          <div className="cardTitle">History</div>
+          <div className="small">
+            Model: {hist?.model ?? '—'} · bucket {hist?.bucketMs ? msToHuman(hist.bucketMs) : '—'} · {hist?.versions ?? 0} stored versions
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {HISTORY_WINDOWS.map((w) => (
+            <button key={w} className={w === windowSpec ? 'active' : ''} onClick={() => setWindowSpec(w)}>{w}</button>
+          ))}
+        </div>
+      </div>
+      {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      <div style={{ display: 'grid', gap: 14, marginTop: 12 }}>
+        <div>
+          <div className="small">Total tokens</div>
+          <Sparkline values={series.map((p) => p.totalTokensMax)} ts={ts} format={(n) => Math.round(n).toLocaleString()} />
+        </div>
+        <div>
+          <div className="small">Context pressure</div>
+          <Sparkline values={series.map((p) => p.pressureMax)} ts={ts} color="var(--warn)" format={(n) => `${n.toFixed(1)}%`} />
+        </div>
+        <div>
+          <div className="small">Estimated cost</div>
+          <Sparkline values={series.map((p) => p.costMax)} ts={ts} color="var(--ok)" format={(n) => fmtUsd(n)} />
+        </div>
+      </div>
+    </div>
+  );
 }
 
-function Sessions() {
-  const [snap, setSnap] = useState<SnapshotRow | null>(null);
+function Sessions({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [snap, setSnap] = useLiveSnapshot('sessions', scope);
   const [err, setErr] = useState<string | null>(null);
 
   async function refresh() {
     try {
-      const res = await apiGet<{ snapshot: SnapshotRow | null }>('/api/snapshot/sessions');
-      setSnap(res.snapshot);
+      setSnap(await fetchSnapshot('sessions', scope));
       setErr(null);
     } catch (e: any) {
       setErr(String(e?.message ?? e));
     }
   }
 
-  useEffect(() => {
-    void refresh();
-    const t = setInterval(() => void refresh(), 5000);
-    return () => clearInterval(t);
-  }, []);
-
-  const payload = parseSnapshotPayload(snap);
+  const payload = snap?.payload ?? null;
   const sessions = Array.isArray(payload?.sessions) ? payload.sessions : [];
 
   return (
@@ -361,7 +1128,7 @@ function Sessions() {
           <div>
             <div className="cardTitle">Active sessions</div>
             <div className="small">Latest snapshot: {snap ? fmt(snap.ts) : '—'}</div>
-            <div className="small">Cost is estimated locally; see Models for billed totals.</div>
+            <div className="small">Cost is estimated locally; see Models for billed totals. Click a key for details.</div>
           </div>
           <button onClick={() => void refresh()}>Refresh</button>
         </div>
@@ -371,18 +1138,21 @@ function Sessions() {
       <table className="table">
         <thead>
           <tr>
+            {showGatewayColumn(scope) ? <th>Gateway</th> : null}
             <th>Key</th>
             <th>Model</th>
             <th>Usage</th>
             <th>Pressure</th>
             <th>Cost (est)</th>
             <th>Updated</th>
+            {canOperate ? <th>Actions</th> : null}
           </tr>
         </thead>
         <tbody>
           {sessions.map((s: any) => (
-            <tr key={s.key}>
-              <td style={{ color: 'var(--accent)' }}>{s.key}</td>
+            <tr key={`${s.gatewayId}|${s.key}`}>
+              {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, s.gatewayId)}</td> : null}
+              <td><SessionLink sessionKey={s.key} gatewayId={s.gatewayId} /></td>
               <td className="small">{s.model}</td>
               <td className="small">{(s.totalTokens ?? 0).toLocaleString()}</td>
               <td>
@@ -393,8 +1163,20 @@ function Sessions() {
                   <span className="small">{s.drift?.pressure ?? 0}%</span>
                 </div>
               </td>
-              <td style={{ color: 'var(--ok)' }}>{fmtUsd(s.drift?.cost)}</td>
+              <td style={{ color: 'var(--ok)' }}>{fmtDriftCost(s.drift)}</td>
               <td className="small">{s.updatedAt ? fmt(s.updatedAt) : ''}</td>
+              {canOperate ? (
+                <td>
+                  <div style={{ display: 'flex', gap: 4 }}>
+                    <ActionButton label="Abort" gatewayId={s.gatewayId} path={sessionActionPath(s.key, 'abort')}
+                      confirmText={`Abort the active run in ${s.key}?`} />
+                    <ActionButton label="Reset" gatewayId={s.gatewayId} path={sessionActionPath(s.key, 'reset')}
+                      confirmText={`Reset ${s.key}? Its conversation history is cleared.`} />
+                    <ActionButton label="Delete" danger gatewayId={s.gatewayId} path={sessionActionPath(s.key, 'delete')}
+                      confirmText={`Delete ${s.key}? This cannot be undone.`} />
+                  </div>
+                </td>
+              ) : null}
             </tr>
           ))}
         </tbody>
@@ -402,62 +1184,620 @@ function Sessions() {
 
       <details style={{ marginTop: 12 }}>
         <summary className="small">raw snapshot</summary>
-        <div className="pre">{snap?.payloadJson ?? ''}</div>
+        <div className="pre">{payload ? JSON.stringify(payload, null, 2) : ''}</div>
       </details>
     </div>
   );
 }
 
-function Subagents() {
-  const [rows, setRows] = useState<any[]>([]);
-  const [snapTs, setSnapTs] = useState<number | null>(null);
-
-  async function refresh() {
-    const res = await apiGet<{ subagents: any[]; snapshot: { ts: number } | null }>('/api/subagents');
-    setRows(res.subagents ?? []);
-    setSnapTs(res.snapshot?.ts ?? null);
+type TimelineGroup = { runId: string | null; events: SessionEventRow[] };
+
+// Events with the same runId form one group (in order of first appearance); events without a
+// runId are grouped with their run-less neighbours.
+function groupByRun(events: SessionEventRow[]): TimelineGroup[] {
+  const groups: TimelineGroup[] = [];
+  const byRun = new Map<string, TimelineGroup>();
+  let loose: TimelineGroup | null = null;
+  for (const ev of events) {
+    if (!ev.runId) {
+      if (!loose) {
+        loose = { runId: null, events: [] };
+        groups.push(loose);
+      }
+      loose.events.push(ev);
+      continue;
+    }
+    loose = null;
+    let g = byRun.get(ev.runId);
+    if (!g) {
+      g = { runId: ev.runId, events: [] };
+      byRun.set(ev.runId, g);
+      groups.push(g);
+    }
+    g.events.push(ev);
   }
+  return groups;
+}
 
-  useEffect(() => {
-    void refresh();
-    const t = setInterval(() => void refresh(), 5000);
-    return () => clearInterval(t);
-  }, []);
-
-  const now = Date.now();
-  function statusFor(s: any) {
-    const u = Number(s.updatedAt ?? 0);
-    if (!u) return 'unknown';
-    const age = now - u;
-    if (age < 15_000) return 'running';
-    if (age < 5 * 60_000) return 'idle';
-    return 'stale';
+function TimelineEvent({ ev, startTs }: { ev: SessionEventRow; startTs: number }) {
+  const [payload, setPayload] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+
+  async function toggle() {
+    const next = !open;
+    setOpen(next);
+    if (next && payload === null) {
+      try {
+        const res = await apiGet<{ event: EventRow }>(`/api/events/${ev.id}`);
+        setPayload(res.event.payloadJson);
+      } catch (e: any) {
+        setPayload(String(e?.message ?? e));
+      }
+    }
   }
 
+  const isChat = ev.type === 'chat';
+  const label = ev.tool ? `tool: ${ev.tool}` : (ev.summary ?? ev.event);
   return (
-    <div>
-      <div className="card" style={{ marginBottom: 12 }}>
-        <div className="cardTitle">Sub-agents (sessions_spawn)</div>
-        <div className="small">Latest snapshot: {snapTs ? fmt(snapTs) : '—'}</div>
-        <div className="small">Cost is estimated locally; see Models for billed totals.</div>
+    <div className="timelineItem">
+      <div className="timelineRow" onClick={() => void toggle()}>
+        <span className="small timelineOffset">+{((ev.ts - startTs) / 1000).toFixed(1)}s</span>
+        <span className={`status ${isChat ? 'accent' : ev.tool ? 'warn' : ''}`}>{ev.type}</span>
+        <span style={{ color: ev.tool ? 'var(--warn)' : 'var(--text)' }}>{label}</span>
+        <RedactedBadge count={ev.redacted} />
+        <span className="small" style={{ marginLeft: 'auto' }}>{new Date(ev.ts).toLocaleTimeString()}</span>
       </div>
+      {open ? <div className="pre" style={{ marginTop: 6 }}>{payload ?? 'Loading…'}</div> : null}
+    </div>
+  );
+}
 
-      {rows.length === 0 ? <div className="small">No sub-agents found.</div> : null}
+function SessionDetail({ sessionKey, gatewayId, scope }: { sessionKey: string; gatewayId: string | null; scope: GatewayScope }) {
+  const [detail, setDetail] = useState<ApiSessionDetail | null>(null);
+  const [err, setErr] = useState<string | null>(null);
 
-      <table className="table">
-        <thead>
-          <tr>
-            <th>Label</th>
-            <th>Pressure</th>
-            <th>Cost (est)</th>
-            <th>Key</th>
-            <th>Updated</th>
-            <th>Last event</th>
-          </tr>
-        </thead>
-        <tbody>
+  useEffect(() => {
+    let cancelled = false;
+    async function refresh() {
+      try {
+        const res = await apiGet<ApiSessionDetail>(withGateway(`/api/sessions/${encodeURIComponent(sessionKey)}`, gatewayId));
+        if (cancelled) return;
+        setDetail(res);
+        setErr(res.ok ? null : (res.error ?? 'session unavailable'));
+      } catch (e: any) {
+        if (!cancelled) setErr(String(e?.message ?? e));
+      }
+    }
+    void refresh();
+    const kick = throttled(() => void refresh(), 1500);
+    const offEvents = subscribe('events', (row) => {
+      if (row.sessionKey === sessionKey && (!gatewayId || row.gatewayId === gatewayId)) kick();
+    });
+    const offSessions = subscribe('sessions', (c) => { if (!gatewayId || c.gatewayId === gatewayId) kick(); });
+    return () => { cancelled = true; kick.cancel(); offEvents(); offSessions(); };
+  }, [sessionKey, gatewayId]);
+
+  const s = detail?.session ?? null;
+  const pressure = Number(s?.drift?.pressure ?? 0);
+  const groups = useMemo(() => groupByRun(detail?.events ?? []), [detail?.events]);
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+          <div>
+            <div className="cardTitle">{sessionKey}</div>
+            <div className="small">
+              {detail?.active ? 'In latest snapshot' : (detail?.lastSeenAt ? `Last seen ${fmt(detail.lastSeenAt)}` : 'Not in any stored snapshot')}
+            </div>
+          </div>
+          <a href="#/sessions">← Sessions</a>
+        </div>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+        {s ? (
+          <div style={{ marginTop: 12, display: 'grid', gap: 6 }}>
+            {scope.gateways.length > 1 ? <div>Gateway: <span style={{ color: 'var(--muted)' }}>{gatewayName(scope, detail?.gatewayId)}</span></div> : null}
+            <div>Label: <span style={{ color: 'var(--muted)' }}>{s.label ?? '—'}</span></div>
+            <div>Model: <span style={{ color: 'var(--accent)' }}>{s.model ?? '—'}</span></div>
+            <div>Tokens: <span style={{ color: 'var(--muted)' }}>{(s.totalTokens ?? 0).toLocaleString()} / {(s.contextTokens ?? 0).toLocaleString()}</span></div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              Pressure:
+              <div className="bar" style={{ width: 160 }}>
+                <div className="barFill" style={{ width: `${Math.min(100, pressure)}%`, background: pressure > 80 ? 'var(--danger)' : undefined }} />
+              </div>
+              <span className="small">{pressure}%</span>
+            </div>
+            <div>Cost (est): <span style={{ color: 'var(--ok)' }}>{fmtDriftCost(s.drift)}</span>
+              {s.drift?.costUnpriced?.length ? <span className="small"> (no rate for {s.drift.costUnpriced.join(', ')})</span> : null}
+            </div>
+            <div>Updated: <span style={{ color: 'var(--muted)' }}>{s.updatedAt ? fmt(s.updatedAt) : '—'}</span></div>
+            <details>
+              <summary className="small">all snapshot fields</summary>
+              <div className="pre">{JSON.stringify(s, null, 2)}</div>
+            </details>
+          </div>
+        ) : null}
+      </div>
+
+      <SessionHistory sessionKey={sessionKey} gatewayId={gatewayId ?? detail?.gatewayId ?? null} />
+
+      <div className="card">
+        <div className="cardTitle">Event timeline</div>
+        <div className="small">
+          {detail?.eventStats?.count ?? 0} events
+          {detail?.truncated ? ` (showing newest ${detail.events?.length ?? 0})` : ''}
+          {' '}grouped by run. Click an event for its payload.
+        </div>
+        {groups.length === 0 ? <div className="small" style={{ marginTop: 10 }}>No events recorded for this session.</div> : null}
+        {[...groups].reverse().map((g, i) => {
+          const first = g.events[0];
+          const last = g.events[g.events.length - 1];
+          const chatStates = g.events.filter((e) => e.type === 'chat' && e.summary).map((e) => e.summary as string);
+          const finalState = chatStates[chatStates.length - 1] ?? null;
+          const tools = g.events.filter((e) => e.tool).length;
+          return (
+            <div className="timelineGroup" key={g.runId ?? `loose-${first.id}-${i}`}>
+              <div className="feedTop">
+                <div>
+                  {g.runId ? <a className="feedType" href={runHref(g.runId, first.gatewayId)}>run {g.runId}</a> : <span className="feedType">no run</span>}
+                  <span className="small">{' '}- {g.events.length} events, {tools} tool, {msToHuman(last.ts - first.ts)}</span>
+                </div>
+                <div className="small">{fmt(first.ts)}{finalState ? ` · ${finalState}` : ''}</div>
+              </div>
+              {g.events.map((ev) => <TimelineEvent key={ev.id} ev={ev} startTs={first.ts} />)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const RUN_STATUS_CLASS: Record<RunStatus, string> = { ok: 'ok', error: 'bad', aborted: 'warn', running: 'accent' };
+
+function fmtMs(ms: number) {
+  return ms < 1000 ? `${ms}ms` : ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : msToHuman(ms);
+}
+
+const RUN_WINDOWS = ['1h', '6h', '24h', '7d'];
+
+function Runs({ runId, gatewayId, scope }: { runId: string | null; gatewayId: string | null; scope: GatewayScope }) {
+  const [runs, setRuns] = useState<ApiRuns['runs']>([]);
+  const [err, setErr] = useState<string | null>(null);
+  const [status, setStatus] = useState<string>('');
+  const [session, setSession] = useState<string>('');
+  const [windowKey, setWindowKey] = useState<string>('24h');
+
+  async function refresh() {
+    const qs = new URLSearchParams({ from: windowKey, limit: '200' });
+    if (status) qs.set('status', status);
+    if (session.trim()) qs.set('session', session.trim());
+    if (scope.gateway) qs.set('gateway', scope.gateway);
+    try {
+      const res = await apiGet<ApiRuns>(`/api/runs?${qs.toString()}`);
+      if (!res.ok) throw new Error(res.error ?? 'failed to load runs');
+      setRuns(res.runs ?? []);
+      setErr(null);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 3000);
+    const off = subscribe('events', (row) => { if (row.runId && inScope(scope, row.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [status, session, windowKey, scope.gateway]);
+
+  const list = runs ?? [];
+  const maxDuration = Math.max(1, ...list.map((r) => r.durationMs));
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      {runId ? <RunTrace key={`${gatewayId ?? ''}|${runId}`} runId={runId} gatewayId={gatewayId} scope={scope} /> : null}
+
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <div>
+            <div className="cardTitle">Agent runs</div>
+            <div className="small">Events grouped by runId; status from the last chat state. Click a run for its trace.</div>
+          </div>
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            {RUN_WINDOWS.map((w) => (
+              <button key={w} className={w === windowKey ? 'active' : ''} onClick={() => setWindowKey(w)}>{w}</button>
+            ))}
+            <select value={status} onChange={(e) => setStatus(e.target.value)}>
+              <option value="">any status</option>
+              <option value="ok">ok</option>
+              <option value="error">error</option>
+              <option value="aborted">aborted</option>
+              <option value="running">running</option>
+            </select>
+            <input value={session} onChange={(e) => setSession(e.target.value)} placeholder="session contains…" />
+          </div>
+        </div>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      </div>
+
+      <table className="table">
+        <thead>
+          <tr>
+            <th>Started</th>
+            {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+            <th>Run</th>
+            <th>Session</th>
+            <th>Status</th>
+            <th>Duration</th>
+            <th>Events</th>
+            <th>Tool events</th>
+          </tr>
+        </thead>
+        <tbody>
+          {list.map((r) => (
+            <tr key={`${r.gatewayId}|${r.runId}`} style={r.runId === runId && (!gatewayId || r.gatewayId === gatewayId) ? { background: 'rgba(255,255,255,0.04)' } : undefined}>
+              <td className="small">{fmt(r.startTs)}</td>
+              {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, r.gatewayId)}</td> : null}
+              <td><a href={runHref(r.runId, r.gatewayId)}>{r.runId}</a></td>
+              <td className="small">{r.sessionKey ? <SessionLink sessionKey={r.sessionKey} gatewayId={r.gatewayId} /> : '—'}</td>
+              <td><span className={`status ${RUN_STATUS_CLASS[r.status]}`}>{r.status}</span></td>
+              <td>
+                <div className="small">{fmtMs(r.durationMs)}</div>
+                <div className="bar" style={{ width: 120 }}>
+                  <div className="barFill" style={{ width: `${(r.durationMs / maxDuration) * 100}%` }} />
+                </div>
+              </td>
+              <td className="small">{r.eventCount}</td>
+              <td className="small">{r.toolEvents}</td>
+            </tr>
+          ))}
+          {list.length === 0 ? (
+            <tr><td colSpan={showGatewayColumn(scope) ? 8 : 7} className="small">No runs in this window.</td></tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RunTrace({ runId, gatewayId, scope }: { runId: string; gatewayId: string | null; scope: GatewayScope }) {
+  const [run, setRun] = useState<RunDetail | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function refresh() {
+      try {
+        const res = await apiGet<ApiRun>(withGateway(`/api/runs/${encodeURIComponent(runId)}`, gatewayId));
+        if (cancelled) return;
+        if (!res.ok || !res.run) throw new Error(res.error ?? 'run unavailable');
+        setRun(res.run);
+        setTruncated(!!res.truncated);
+        setErr(null);
+      } catch (e: any) {
+        if (!cancelled) setErr(String(e?.message ?? e));
+      }
+    }
+    void refresh();
+    const kick = throttled(() => void refresh(), 1000);
+    const off = subscribe('events', (row) => { if (row.runId === runId && (!gatewayId || row.gatewayId === gatewayId)) kick(); });
+    return () => { cancelled = true; kick.cancel(); off(); };
+  }, [runId, gatewayId]);
+
+  const span = Math.max(1, run?.durationMs ?? 0);
+  const pct = (ms: number) => `${Math.min(100, (ms / span) * 100)}%`;
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+        <div>
+          <div className="cardTitle">Run {runId}</div>
+          {run ? (
+            <div className="small">
+              {fmt(run.startTs)} · {fmtMs(run.durationMs)} · {run.eventCount} events · {run.toolCalls} tool calls
+              {scope.gateways.length > 1 ? ` · ${gatewayName(scope, run.gatewayId)}` : null}
+              {run.sessionKey ? <> · <SessionLink sessionKey={run.sessionKey} gatewayId={run.gatewayId} /></> : null}
+            </div>
+          ) : null}
+        </div>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          {run ? <span className={`status ${RUN_STATUS_CLASS[run.status]}`}>{run.chatState ?? run.status}</span> : null}
+          <a href="#/runs">close</a>
+        </div>
+      </div>
+      {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      {truncated ? <div className="small" style={{ color: 'var(--warn)', marginTop: 8 }}>Run has more events than shown; trace is partial.</div> : null}
+
+      {run ? (
+        <>
+          <div className="waterfall">
+            <div className="waterfallRow">
+              <div className="waterfallLabel small">run</div>
+              <div className="waterfallTrack">
+                <div className={`waterfallBar ${run.status}`} style={{ left: 0, width: '100%' }} />
+                {run.events.filter((e) => e.type === 'chat').map((e) => (
+                  <div key={e.id} className="waterfallTick" style={{ left: pct(e.offsetMs) }} title={`${e.summary ?? e.event} +${fmtMs(e.offsetMs)}`} />
+                ))}
+              </div>
+              <div className="waterfallTime small">{fmtMs(run.durationMs)}</div>
+            </div>
+            {run.tools.map((c, i) => (
+              <div className="waterfallRow" key={`${c.callId ?? c.tool}-${i}`}>
+                <div className="waterfallLabel small" title={c.callId ?? undefined}>{c.tool}</div>
+                <div className="waterfallTrack">
+                  <div
+                    className={`waterfallBar ${c.status}`}
+                    style={{ left: pct(c.offsetMs), width: `max(2px, ${pct(c.durationMs)})` }}
+                    title={`${c.tool} +${fmtMs(c.offsetMs)} for ${fmtMs(c.durationMs)} (${c.status})`}
+                  />
+                </div>
+                <div className="waterfallTime small">{fmtMs(c.durationMs)}</div>
+              </div>
+            ))}
+            {run.tools.length === 0 ? <div className="small">No tool calls in this run.</div> : null}
+          </div>
+
+          {run.toolStats.length ? (
+            <table className="table" style={{ marginTop: 12 }}>
+              <thead>
+                <tr>
+                  <th>Tool</th>
+                  <th>Calls</th>
+                  <th>Errors</th>
+                  <th>Total</th>
+                  <th>Avg</th>
+                  <th>Max</th>
+                  <th>Share of run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.toolStats.map((t) => (
+                  <tr key={t.tool}>
+                    <td>{t.tool}</td>
+                    <td className="small">{t.calls}</td>
+                    <td className="small" style={{ color: t.errors ? 'var(--danger)' : undefined }}>{t.errors}</td>
+                    <td className="small">{fmtMs(t.totalMs)}</td>
+                    <td className="small">{fmtMs(t.avgMs)}</td>
+                    <td className="small">{fmtMs(t.maxMs)}</td>
+                    <td className="small">{fmtPct((t.totalMs / span) * 100)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+
+          <details style={{ marginTop: 12 }}>
+            <summary className="small">all {run.events.length} events</summary>
+            {run.events.map((ev) => <TimelineEvent key={ev.id} ev={ev} startTs={run.startTs} />)}
+          </details>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function Tools({ scope }: { scope: GatewayScope }) {
+  const [windowKey, setWindowKey] = useState('24h');
+  const [data, setData] = useState<ApiToolStats | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => apiGet<ApiToolStats>(withGateway(`/api/tools/stats?window=${windowKey}`, scope.gateway))
+      .then((res) => { if (!cancelled) setData(res); })
+      .catch((e: any) => { if (!cancelled) setData({ ok: false, error: String(e?.message ?? e) }); });
+    const kick = throttled(() => void load(), 5000);
+    void load();
+    const off = subscribe('events', (row) => { if (row.tool && inScope(scope, row.gatewayId)) kick(); });
+    return () => {
+      cancelled = true;
+      kick.cancel();
+      off();
+    };
+  }, [scope.gateway, windowKey]);
+
+  const tools = data?.tools ?? [];
+  const trend = data?.trend ?? [];
+  const bucket = fmtMs(data?.bucketMs ?? 0);
+  const detail = tools.find((t) => t.tool === selected) ?? null;
+  const maxTotal = Math.max(1, ...tools.map((t) => t.totalMs));
+  const count = (n: number) => String(Math.round(n));
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <div>
+            <div className="cardTitle">Tool usage</div>
+            <div className="small">Tool calls paired start/end within each run. Durations cover calls whose end was seen. Click a tool for its sessions and trend.</div>
+          </div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            {RUN_WINDOWS.map((w) => (
+              <button key={w} className={w === windowKey ? 'active' : ''} onClick={() => setWindowKey(w)}>{w}</button>
+            ))}
+          </div>
+        </div>
+        {data && !data.ok ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{data.error}</div> : null}
+        {data?.truncated ? <div className="small" style={{ color: 'var(--warn)', marginTop: 8 }}>Too many tool events; the start of this window is not counted.</div> : null}
+        {data?.totals ? (
+          <div className="small" style={{ marginTop: 8 }}>
+            {data.totals.calls} calls to {data.totals.tools} tools · {data.totals.errors} errors
+            {data.totals.errorRate !== null ? ` (${fmtPct(data.totals.errorRate * 100)})` : ''} · {fmtMs(data.totals.totalMs)} in tools
+          </div>
+        ) : null}
+        {trend.some((p) => p.calls) ? (
+          <div style={{ marginTop: 10 }}>
+            <div className="small" style={{ fontWeight: 700 }}>Calls per {bucket}</div>
+            <Sparkline values={trend.map((p) => p.calls)} ts={trend.map((p) => p.ts)} format={count} height={40} />
+            <div className="small" style={{ fontWeight: 700, marginTop: 6 }}>Errors per {bucket}</div>
+            <Sparkline values={trend.map((p) => p.errors)} ts={trend.map((p) => p.ts)} color="var(--danger)" format={count} height={40} />
+          </div>
+        ) : null}
+      </div>
+
+      {detail ? (
+        <div className="card">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8 }}>
+            <div className="cardTitle">{detail.tool}</div>
+            <button onClick={() => setSelected(null)}>close</button>
+          </div>
+          <div className="small">
+            {detail.calls} calls in {detail.sessions} session{detail.sessions === 1 ? '' : 's'} · max {fmtMs(detail.maxMs ?? 0)} · last call {fmt(detail.lastAt)}
+            {detail.running ? ` · ${detail.running} running` : ''}
+            {detail.incomplete ? ` · ${detail.incomplete} never finished` : ''}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: 12, marginTop: 10 }}>
+            <div>
+              <div className="small" style={{ fontWeight: 700 }}>Calls per {bucket}</div>
+              <Sparkline values={detail.trend.map((p) => p.calls)} ts={detail.trend.map((p) => p.ts)} format={count} height={40} />
+            </div>
+            <div>
+              <div className="small" style={{ fontWeight: 700 }}>Errors per {bucket}</div>
+              <Sparkline values={detail.trend.map((p) => p.errors)} ts={detail.trend.map((p) => p.ts)} color="var(--danger)" format={count} height={40} />
+            </div>
+            <div>
+              <div className="small" style={{ fontWeight: 700 }}>p95 duration</div>
+              <Sparkline values={detail.trend.map((p) => p.p95Ms)} ts={detail.trend.map((p) => p.ts)} color="var(--warn)" format={fmtMs} height={40} />
+            </div>
+          </div>
+          <table className="table" style={{ marginTop: 10 }}>
+            <thead>
+              <tr>
+                {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+                <th>Top sessions</th>
+                <th>Calls</th>
+                <th>Errors</th>
+                <th>Time in tool</th>
+                <th>Last call</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.topSessions.map((s) => (
+                <tr key={`${s.gatewayId}|${s.sessionKey ?? ''}`}>
+                  {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, s.gatewayId)}</td> : null}
+                  <td className="small">{s.sessionKey ? <SessionLink sessionKey={s.sessionKey} gatewayId={s.gatewayId} /> : '—'}</td>
+                  <td className="small">{s.calls}</td>
+                  <td className="small" style={{ color: s.errors ? 'var(--danger)' : undefined }}>{s.errors}</td>
+                  <td className="small">{fmtMs(s.totalMs)}</td>
+                  <td className="small">{fmt(s.lastAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      <table className="table">
+        <thead>
+          <tr>
+            <th>Tool</th>
+            <th>Calls</th>
+            <th>Error rate</th>
+            <th>p50</th>
+            <th>p95</th>
+            <th>Time in tool</th>
+            <th>Sessions</th>
+            <th>Calls over time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tools.map((t) => (
+            <tr key={t.tool} style={t.tool === selected ? { background: 'rgba(255,255,255,0.04)' } : undefined}>
+              <td>
+                <a href="#/tools" onClick={(e) => { e.preventDefault(); setSelected(t.tool === selected ? null : t.tool); }}>{t.tool}</a>
+              </td>
+              <td className="small">
+                {t.calls}
+                {t.running ? <span className="status accent" style={{ marginLeft: 6 }}>{t.running} running</span> : null}
+              </td>
+              <td>
+                {t.errorRate === null ? '—' : (
+                  <div style={{ display: 'grid', gap: 4 }}>
+                    <div className="small">{fmtPct(t.errorRate * 100)} ({t.errors})</div>
+                    <div className="bar" style={{ width: 100 }}>
+                      <div className="barFill" style={{ width: `${t.errorRate * 100}%`, background: 'var(--danger)' }} />
+                    </div>
+                  </div>
+                )}
+              </td>
+              <td className="small">{t.p50Ms === null ? '—' : fmtMs(t.p50Ms)}</td>
+              <td className="small">{t.p95Ms === null ? '—' : fmtMs(t.p95Ms)}</td>
+              <td>
+                <div className="small">{fmtMs(t.totalMs)}</div>
+                <div className="bar" style={{ width: 100 }}>
+                  <div className="barFill" style={{ width: `${(t.totalMs / maxTotal) * 100}%` }} />
+                </div>
+              </td>
+              <td className="small">{t.sessions}</td>
+              <td style={{ width: 160 }}>
+                <Sparkline values={t.trend.map((p) => p.calls)} ts={t.trend.map((p) => p.ts)} format={count} height={24} />
+              </td>
+            </tr>
+          ))}
+          {data?.ok && tools.length === 0 ? (
+            <tr><td colSpan={8} className="small">No tool calls in this window.</td></tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Subagents({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [rows, setRows] = useState<any[]>([]);
+  const [snapTs, setSnapTs] = useState<number | null>(null);
+
+  async function refresh() {
+    const res = await apiGet<{ subagents: any[]; snapshot: { ts: number } | null }>(withGateway('/api/subagents', scope.gateway));
+    setRows(res.subagents ?? []);
+    setSnapTs(res.snapshot?.ts ?? null);
+  }
+
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 1000);
+    const off = subscribe('sessions', (c) => { if (inScope(scope, c.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [scope.gateway]);
+
+  const now = Date.now();
+  function statusFor(s: any) {
+    const u = Number(s.updatedAt ?? 0);
+    if (!u) return 'unknown';
+    const age = now - u;
+    if (age < 15_000) return 'running';
+    if (age < 5 * 60_000) return 'idle';
+    return 'stale';
+  }
+
+  return (
+    <div>
+      <div className="card" style={{ marginBottom: 12 }}>
+        <div className="cardTitle">Sub-agents (sessions_spawn)</div>
+        <div className="small">Latest snapshot: {snapTs ? fmt(snapTs) : '—'}</div>
+        <div className="small">Cost is estimated locally; see Models for billed totals.</div>
+      </div>
+
+      {rows.length === 0 ? <div className="small">No sub-agents found.</div> : null}
+
+      <table className="table">
+        <thead>
+          <tr>
+            {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+            <th>Label</th>
+            <th>Pressure</th>
+            <th>Cost (est)</th>
+            <th>Key</th>
+            <th>Updated</th>
+            <th>Last event</th>
+            {canOperate ? <th>Actions</th> : null}
+          </tr>
+        </thead>
+        <tbody>
           {rows.map((s: any) => (
-            <tr key={s.key}>
+            <tr key={`${s.gatewayId}|${s.key}`}>
+              {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, s.gatewayId)}</td> : null}
               <td>{s.label ?? ''}</td>
               <td>
                 <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -467,10 +1807,20 @@ function Subagents() {
                   <span className="small">{s.drift?.pressure ?? 0}%</span>
                 </div>
               </td>
-              <td style={{ color: 'var(--ok)' }}>{fmtUsd(s.drift?.cost)}</td>
-              <td style={{ color: 'var(--accent)', fontSize: 11 }}>{s.key}</td>
+              <td style={{ color: 'var(--ok)' }}>{fmtDriftCost(s.drift)}</td>
+              <td style={{ fontSize: 11 }}><SessionLink sessionKey={s.key} gatewayId={s.gatewayId} /></td>
               <td className="small">{s.updatedAt ? fmt(s.updatedAt) : ''}</td>
               <td className="small">{s.lastEvent?.summary ?? s.lastEvent?.event ?? ''}</td>
+              {canOperate ? (
+                <td>
+                  <div style={{ display: 'flex', gap: 4 }}>
+                    <ActionButton label="Abort" gatewayId={s.gatewayId} path={sessionActionPath(s.key, 'abort')}
+                      confirmText={`Abort sub-agent ${s.label ?? s.key}?`} />
+                    <ActionButton label="Delete" danger gatewayId={s.gatewayId} path={sessionActionPath(s.key, 'delete')}
+                      confirmText={`Delete sub-agent session ${s.key}? This cannot be undone.`} />
+                  </div>
+                </td>
+              ) : null}
             </tr>
           ))}
         </tbody>
@@ -479,134 +1829,1305 @@ function Subagents() {
   );
 }
 
-function Cron() {
-  const [snap, setSnap] = useState<SnapshotRow | null>(null);
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function cronTime(minute: string, hour: string) {
+  return /^\d+$/.test(minute) && /^\d+$/.test(hour) ? `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}` : null;
+}
+
+function cronWeekdays(field: string) {
+  const name = (d: string) => WEEKDAYS[Number(d) % 7] ?? d;
+  if (field === '1-5') return 'weekdays';
+  if (field === '0,6' || field === '6,0') return 'weekends';
+  return field.split(',').map((part) => part.split('-').map(name).join('–')).join(', ');
+}
+
+// Plain-English rendering of the common 5-field cron shapes; anything else is shown as written.
+function describeCronExpr(expr: string) {
+  const f = expr.trim().split(/\s+/);
+  if (f.length !== 5) return null;
+  const [minute, hour, dom, month, dow] = f;
+  const step = /^\*\/(\d+)$/;
+  if (month !== '*') return null;
+  if (dom === '*' && dow === '*') {
+    if (step.test(minute) && hour === '*') return `every ${minute.match(step)![1]} min`;
+    if (minute === '*' && hour === '*') return 'every minute';
+    if (/^\d+$/.test(minute) && hour === '*') return `hourly at :${minute.padStart(2, '0')}`;
+    if (/^\d+$/.test(minute) && step.test(hour)) return `every ${hour.match(step)![1]}h at :${minute.padStart(2, '0')}`;
+    const at = cronTime(minute, hour);
+    if (at) return `daily at ${at}`;
+  }
+  const at = cronTime(minute, hour);
+  if (!at) return null;
+  if (dom === '*' && /^[\d,-]+$/.test(dow)) return `${cronWeekdays(dow)} at ${at}`;
+  if (/^\d+$/.test(dom) && dow === '*') return `monthly on day ${dom} at ${at}`;
+  return null;
+}
+
+function describeSchedule(schedule: any): string {
+  if (!schedule) return '—';
+  if (typeof schedule === 'string') return describeCronExpr(schedule) ?? schedule;
+  const tz = schedule.tz ? ` (${schedule.tz})` : '';
+  if (schedule.kind === 'cron' || schedule.expr) {
+    const expr = String(schedule.expr ?? schedule.cron ?? '');
+    const text = describeCronExpr(expr);
+    return `${text ?? `cron ${expr}`}${tz}`;
+  }
+  if (schedule.kind === 'every' || schedule.everyMs) return `every ${msToHuman(Number(schedule.everyMs))}`;
+  if (schedule.kind === 'at' || schedule.atMs) return `once at ${fmt(Number(schedule.atMs ?? schedule.at))}`;
+  return JSON.stringify(schedule);
+}
+
+const CRON_RUN_STATUS_CLASS: Record<string, string> = { ok: 'ok', error: 'bad', missed: 'warn' };
+
+function RunStatusBadge({ status }: { status: string | null | undefined }) {
+  if (!status) return <>—</>;
+  return <span className={`status ${CRON_RUN_STATUS_CLASS[status] ?? ''}`}>{status}</span>;
+}
+
+// Jobs are only unique per gateway.
+const cronJobKey = (gatewayId: string | null | undefined, jobId: string) => `${gatewayId ?? ''}|${jobId}`;
+
+function Cron({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [snap] = useLiveSnapshot('cron', scope);
+  const [stats, setStats] = useState<Map<string, CronJobStats>>(new Map());
+  const [selected, setSelected] = useState<{ gatewayId: string | null; jobId: string; name: string } | null>(null);
+  const [view, setView] = useState<'table' | 'timeline'>('table');
+
+  useEffect(() => {
+    const load = () => apiGet<ApiCronStats>(withGateway('/api/cron/runs?from=7d', scope.gateway))
+      .then((res) => setStats(new Map((res.jobs ?? []).map((j) => [cronJobKey(j.gatewayId, j.jobId), j]))))
+      .catch(() => {});
+    void load();
+    const kick = throttled(() => void load(), 1000);
+    const off = subscribe('cronRuns', (r) => { if (inScope(scope, r.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [scope.gateway]);
+
+  const payload = snap?.payload ?? null;
+  const jobs = Array.isArray(payload?.jobs) ? payload.jobs : (Array.isArray(payload) ? payload : []);
+  const now = Date.now();
+
+  return (
+    <div>
+      <div className="card" style={{ marginBottom: 12 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <div>
+            <div className="cardTitle">Cron jobs</div>
+            <div className="small">Latest snapshot: {snap ? fmt(snap.ts) : '—'}</div>
+            <div className="small">Success rate covers the last 7 days; missed runs count as failures. Click a job for its run history.</div>
+          </div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button className={view === 'table' ? 'active' : ''} onClick={() => setView('table')}>Table</button>
+            <button className={view === 'timeline' ? 'active' : ''} onClick={() => setView('timeline')}>Timeline</button>
+          </div>
+        </div>
+      </div>
+
+      {view === 'timeline' ? <CronTimeline scope={scope} onSelect={setSelected} /> : (
+        <table className="table">
+          <thead>
+            <tr>
+              {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+              <th>Name</th>
+              <th>Enabled</th>
+              <th>Schedule</th>
+              <th>Last run</th>
+              <th>Success (7d)</th>
+              <th>Next</th>
+              {canOperate ? <th>Actions</th> : null}
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map((j: any) => {
+              const jobId = j.id ?? j.jobId ?? null;
+              const name = j.name ?? j.id ?? 'job';
+              const state = j.state ?? {};
+              const lastRunAt = state.lastRunAtMs ?? j.lastRunAtMs ?? null;
+              const next = j.nextRunAtMs ?? state.nextRunAtMs ?? null;
+              const st = jobId ? stats.get(cronJobKey(j.gatewayId, jobId)) : undefined;
+              const overdue = j.enabled !== false && next && next < now - 60_000 && !state.runningAtMs;
+              return (
+                <tr key={`${j.gatewayId}|${j.id ?? j.jobId ?? j.name}`}>
+                  {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, j.gatewayId)}</td> : null}
+                  <td>
+                    {jobId
+                      ? <a href="#/cron" onClick={(e) => { e.preventDefault(); setSelected({ gatewayId: j.gatewayId ?? null, jobId, name }); }}>{name}</a>
+                      : <span style={{ color: 'var(--accent)' }}>{name}</span>}
+                  </td>
+                  <td>{String(j.enabled ?? '')}</td>
+                  <td className="small" title={j.schedule ? JSON.stringify(j.schedule) : undefined}>{describeSchedule(j.schedule)}</td>
+                  <td className="small">
+                    {state.runningAtMs ? <span className="status accent">running</span> : null}
+                    {lastRunAt ? (
+                      <>
+                        {' '}<RunStatusBadge status={state.lastStatus ?? null} /> {fmt(lastRunAt)}
+                        {state.lastDurationMs ? ` (${fmtMs(state.lastDurationMs)})` : ''}
+                        {state.lastError ? <div style={{ color: 'var(--danger)' }}>{String(state.lastError)}</div> : null}
+                      </>
+                    ) : state.runningAtMs ? null : '—'}
+                  </td>
+                  <td className="small">
+                    {st && st.successRate !== null ? `${(st.successRate * 100).toFixed(0)}% of ${st.total}` : '—'}
+                    {st?.missed ? <span className="status warn" style={{ marginLeft: 6 }}>{st.missed} missed</span> : null}
+                  </td>
+                  <td className="small">
+                    {next ? fmt(next) : ''}
+                    {overdue ? <span className="status warn" style={{ marginLeft: 6 }}>overdue</span> : null}
+                  </td>
+                  {canOperate ? (
+                    <td>
+                      {jobId ? (
+                        <div style={{ display: 'flex', gap: 4 }}>
+                          {j.enabled === false
+                            ? <ActionButton label="Enable" gatewayId={j.gatewayId} path={cronActionPath(jobId, 'enable')} confirmText={`Enable cron job ${name}?`} />
+                            : <ActionButton label="Disable" gatewayId={j.gatewayId} path={cronActionPath(jobId, 'disable')} confirmText={`Disable cron job ${name}?`} />}
+                          <ActionButton label="Run now" gatewayId={j.gatewayId} path={cronActionPath(jobId, 'run')}
+                            confirmText={`Run cron job ${name} now?`} />
+                        </div>
+                      ) : null}
+                    </td>
+                  ) : null}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {selected ? (
+        <CronJobHistory key={cronJobKey(selected.gatewayId, selected.jobId)} {...selected} onClose={() => setSelected(null)} />
+      ) : null}
+
+      <details style={{ marginTop: 12 }}>
+        <summary className="small">raw snapshot</summary>
+        <div className="pre">{payload ? JSON.stringify(payload, null, 2) : ''}</div>
+      </details>
+    </div>
+  );
+}
+
+const CRON_TIMELINE_WINDOWS = ['24h', '3d', '7d'];
+
+// Upcoming fire times of every job over the chosen window. Each run is drawn as long as the job usually
+// takes; runs that overlap another job on the same gateway are shown in red.
+function CronTimeline({ scope, onSelect }: {
+  scope: GatewayScope;
+  onSelect: (job: { gatewayId: string | null; jobId: string; name: string }) => void;
+}) {
+  const [windowKey, setWindowKey] = useState('24h');
+  const [agentOnly, setAgentOnly] = useState(false);
+  const [data, setData] = useState<ApiCronUpcoming | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await apiGet<ApiCronUpcoming>(withGateway(`/api/cron/upcoming?window=${windowKey}`, scope.gateway));
+        if (!res.ok) throw new Error(res.error ?? 'failed to load schedule');
+        setData(res);
+        setErr(null);
+      } catch (e: any) {
+        setErr(String(e?.message ?? e));
+      }
+    };
+    void load();
+    const kick = throttled(() => void load(), 5000);
+    const off = subscribe('cron', (c) => { if (inScope(scope, c.gatewayId)) kick(); });
+    // The window starts at "now", so slide it along.
+    const timer = setInterval(() => void load(), 60_000);
+    return () => { kick.cancel(); off(); clearInterval(timer); };
+  }, [scope.gateway, windowKey]);
+
+  const from = data?.from ?? Date.now();
+  const span = Math.max(1, (data?.to ?? from) - from);
+  const pct = (ms: number) => `${Math.min(100, Math.max(0, (ms / span) * 100)).toFixed(3)}%`;
+  const jobs = (data?.jobs ?? []).filter((j) => !agentOnly || j.payloadKind === 'agentTurn');
+  const shown = new Set(jobs.map((j) => cronJobKey(j.gatewayId, j.jobId)));
+  const collisions = (data?.collisions ?? []).filter((c) => c.jobs.filter((j) => shown.has(cronJobKey(c.gatewayId, j.jobId))).length >= 2);
+
+  const collisionsOf = new Map<string, CronCollision[]>();
+  for (const c of collisions) {
+    for (const j of c.jobs) {
+      const k = cronJobKey(c.gatewayId, j.jobId);
+      collisionsOf.set(k, [...(collisionsOf.get(k) ?? []), c]);
+    }
+  }
+
+  const ticks = Array.from({ length: 5 }, (_, i) => from + (span * i) / 4);
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline', flexWrap: 'wrap' }}>
+        <div>
+          <div className="cardTitle">Upcoming runs</div>
+          <div className="small">
+            {data ? `${fmt(from)} – ${fmt(data.to ?? from)} · ${collisions.length} overlap${collisions.length === 1 ? '' : 's'}` : '—'}
+            {data?.collisionsTruncated ? ' (more not shown)' : ''}
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+          {CRON_TIMELINE_WINDOWS.map((w) => (
+            <button key={w} className={w === windowKey ? 'active' : ''} onClick={() => setWindowKey(w)}>{w}</button>
+          ))}
+          <label className="small">
+            <input type="checkbox" checked={agentOnly} onChange={(e) => setAgentOnly(e.target.checked)} /> agent jobs only
+          </label>
+        </div>
+      </div>
+      {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+
+      <div className="waterfall">
+        <div className="waterfallRow">
+          <div className="waterfallLabel small">time</div>
+          <div className="waterfallTrack">
+            {ticks.map((t, i) => (
+              <div key={t} className="small" style={{ position: 'absolute', left: pct(t - from), transform: i === 0 ? undefined : i === 4 ? 'translateX(-100%)' : 'translateX(-50%)', whiteSpace: 'nowrap' }}>
+                {new Date(t).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+              </div>
+            ))}
+          </div>
+          <div />
+        </div>
+        <div className="waterfallRow">
+          <div className="waterfallLabel small">overlaps</div>
+          <div className="waterfallTrack">
+            {collisions.map((c) => (
+              <div
+                key={`${c.gatewayId}|${c.start}`}
+                className="waterfallBar error"
+                style={{ left: pct(c.start - from), width: `max(2px, ${pct(c.end - c.start)})` }}
+                title={`${fmt(c.start)} for ${fmtMs(c.end - c.start)}: ${c.jobs.map((j) => j.name).join(', ')}`}
+              />
+            ))}
+          </div>
+          <div className="waterfallTime small">{collisions.length}</div>
+        </div>
+        {jobs.map((j) => {
+          const k = cronJobKey(j.gatewayId, j.jobId);
+          const own = collisionsOf.get(k) ?? [];
+          const clashes = (t: number) => own.some((c) => t < c.end && t + j.durationMs > c.start);
+          const label = showGatewayColumn(scope) ? `${gatewayName(scope, j.gatewayId)} / ${j.name}` : j.name;
+          return (
+            <div className="waterfallRow" key={k}>
+              <div className="waterfallLabel small" title={`${describeSchedule(j.schedule)}${j.tz ? ` in ${j.tz}` : ''} · ~${fmtMs(j.durationMs)} per run`}>
+                <a href="#/cron" onClick={(e) => { e.preventDefault(); onSelect({ gatewayId: j.gatewayId, jobId: j.jobId, name: j.name }); }}>{label}</a>
+              </div>
+              <div className="waterfallTrack" style={{ opacity: j.enabled ? 1 : 0.4 }}>
+                {j.occurrences.map((t) => (
+                  <div
+                    key={t}
+                    className={`waterfallBar ${clashes(t) ? 'error' : 'ok'}`}
+                    style={{ left: pct(t - from), width: `max(2px, ${pct(j.durationMs)})` }}
+                    title={`${j.name} at ${fmt(t)}${clashes(t) ? ' (overlaps another job)' : ''}`}
+                  />
+                ))}
+              </div>
+              <div className="waterfallTime small" title={j.error ?? undefined} style={{ color: j.error ? 'var(--warn)' : undefined }}>
+                {j.error ? 'invalid' : `${j.occurrences.length}${j.truncated ? '+' : ''}`}
+              </div>
+            </div>
+          );
+        })}
+        {data && jobs.length === 0 ? <div className="small">No jobs scheduled in this window.</div> : null}
+      </div>
+
+      {collisions.length ? (
+        <table className="table" style={{ marginTop: 12 }}>
+          <thead>
+            <tr>
+              <th>Starts</th>
+              {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+              <th>Length</th>
+              <th>Jobs</th>
+              <th>Peak</th>
+            </tr>
+          </thead>
+          <tbody>
+            {collisions.map((c) => (
+              <tr key={`${c.gatewayId}|${c.start}`}>
+                <td className="small">{fmt(c.start)}</td>
+                {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, c.gatewayId)}</td> : null}
+                <td className="small">{fmtMs(c.end - c.start)}</td>
+                <td className="small">{c.jobs.map((j) => j.name).join(', ')}</td>
+                <td>{c.peak}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
+
+function CronJobHistory({ gatewayId, jobId, name, onClose }: { gatewayId: string | null; jobId: string; name: string; onClose: () => void }) {
+  const [data, setData] = useState<ApiCronRuns | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await apiGet<ApiCronRuns>(withGateway(`/api/cron/${encodeURIComponent(jobId)}/runs?from=30d`, gatewayId));
+        if (!res.ok) throw new Error(res.error ?? 'failed to load runs');
+        setData(res);
+        setErr(null);
+      } catch (e: any) {
+        setErr(String(e?.message ?? e));
+      }
+    };
+    void load();
+    const kick = throttled(() => void load(), 1000);
+    const off = subscribe('cronRuns', (r) => { if (r.jobId === jobId && (!gatewayId || r.gatewayId === gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [gatewayId, jobId]);
+
+  const st = data?.stats ?? null;
+
+  return (
+    <div className="card" style={{ marginTop: 12 }}>
+      <div className="row" style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+        <div>
+          <div className="cardTitle">{name}: run history (30d)</div>
+          <div className="small">
+            {st
+              ? `${st.total} runs · ${st.ok} ok · ${st.error} failed · ${st.missed} missed · success ${st.successRate === null ? '—' : `${(st.successRate * 100).toFixed(1)}%`}${st.avgDurationMs !== null ? ` · avg ${fmtMs(st.avgDurationMs)}` : ''}`
+              : 'No runs recorded yet.'}
+          </div>
+        </div>
+        <button onClick={onClose}>Close</button>
+      </div>
+      {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      <table className="table">
+        <thead>
+          <tr><th>Run at</th><th>Status</th><th>Duration</th><th>Error</th><th>Source</th></tr>
+        </thead>
+        <tbody>
+          {(data?.runs ?? []).map((r) => (
+            <tr key={r.id}>
+              <td className="small">{fmt(r.runAt)}</td>
+              <td><RunStatusBadge status={r.status} /></td>
+              <td className="small">{r.durationMs === null ? '—' : fmtMs(r.durationMs)}</td>
+              <td className="small" style={{ color: r.error ? 'var(--danger)' : undefined }}>{r.error ?? ''}</td>
+              <td className="small">{r.source}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Approvals({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [data, setData] = useState<ApiApprovals | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  async function refresh() {
+    try {
+      const res = await apiGet<ApiApprovals>(withGateway('/api/approvals', scope.gateway));
+      if (!res.ok) throw new Error(res.error ?? 'failed to load approvals');
+      setData(res);
+      setErr(null);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 500);
+    const off = subscribe('approvals', (c) => { if (inScope(scope, c.gatewayId)) kick(); });
+    // Re-render every few seconds so ages and expiry countdowns stay current.
+    const timer = setInterval(() => setTick((n) => n + 1), 5000);
+    return () => { kick.cancel(); off(); clearInterval(timer); };
+  }, [scope.gateway]);
+
+  const now = Date.now();
+  const pending: ApprovalRequest[] = data?.pending ?? [];
+  const resolved = data?.resolved ?? [];
+  const label = (a: ApprovalRequest) => a.command ?? a.id;
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div className="cardTitle">Pending approvals ({pending.length})</div>
+        <div className="small">Exec requests waiting for an operator decision, oldest first.</div>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      </div>
+
+      {pending.length === 0 ? <div className="small">Nothing waiting.</div> : (
+        <table className="table">
+          <thead>
+            <tr>
+              {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+              <th>Command</th>
+              <th>Agent</th>
+              <th>Session</th>
+              <th>Age</th>
+              <th>Expires</th>
+              {canOperate ? <th>Decision</th> : null}
+            </tr>
+          </thead>
+          <tbody>
+            {pending.map((a) => (
+              <tr key={`${a.gatewayId}|${a.id}`}>
+                {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, a.gatewayId)}</td> : null}
+                <td>
+                  <code style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>{a.command ?? '—'}</code>
+                  {a.cwd ? <div className="small">in {a.cwd}{a.host ? ` on ${a.host}` : ''}</div> : null}
+                </td>
+                <td className="small">{a.agentId ?? '—'}</td>
+                <td className="small">{a.sessionKey ? <SessionLink sessionKey={a.sessionKey} gatewayId={a.gatewayId} /> : '—'}</td>
+                <td className="small">{msToHuman(now - a.createdAt)}</td>
+                <td className="small">in {msToHuman(Math.max(0, a.expiresAt - now))}</td>
+                {canOperate ? (
+                  <td>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                      <ActionButton label="Allow once" gatewayId={a.gatewayId} path={approvalActionPath(a.id, 'approve')}
+                        confirmText={`Allow ${label(a)} to run once?`} />
+                      <ActionButton label="Deny" danger gatewayId={a.gatewayId} path={approvalActionPath(a.id, 'deny')}
+                        confirmText={`Deny ${label(a)}?`} />
+                    </div>
+                  </td>
+                ) : null}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="card">
+        <div className="cardTitle">Recently resolved</div>
+        <table className="table">
+          <thead>
+            <tr><th>Resolved</th>{showGatewayColumn(scope) ? <th>Gateway</th> : null}<th>Command</th><th>Decision</th><th>By</th><th>Waited</th></tr>
+          </thead>
+          <tbody>
+            {resolved.map((a) => (
+              <tr key={`${a.gatewayId}|${a.id}|${a.resolvedAt}`}>
+                <td className="small">{fmt(a.resolvedAt)}</td>
+                {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, a.gatewayId)}</td> : null}
+                <td className="small"><code>{a.command ?? a.id}</code></td>
+                <td><span className={`status ${a.decision === 'deny' ? 'bad' : a.decision === 'expired' ? 'warn' : 'ok'}`}>{a.decision ?? 'resolved'}</span></td>
+                <td className="small">{a.resolvedBy ?? '—'}</td>
+                <td className="small">{msToHuman(a.resolvedAt - a.createdAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {resolved.length === 0 ? <div className="small">None recently.</div> : null}
+      </div>
+    </div>
+  );
+}
+
+function ShortId({ id }: { id: string | null }) {
+  if (!id) return <>—</>;
+  return <code title={id}>{id.length > 16 ? `${id.slice(0, 12)}…` : id}</code>;
+}
+
+function Devices({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [data, setData] = useState<ApiDevices | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function refresh() {
+    try {
+      const res = await apiGet<ApiDevices>(withGateway('/api/devices', scope.gateway));
+      if (!res.ok) throw new Error(res.error ?? 'failed to load devices');
+      setData(res);
+      setErr(null);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+    // Pairing requests and approvals arrive as device.* events.
+    const kick = throttled(() => void refresh(), 1000);
+    const off = subscribe('events', (row) => { if (row.type === 'device' && inScope(scope, row.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [scope.gateway]);
+
+  const now = Date.now();
+  const multi = showGatewayColumn(scope);
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div className="row" style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+          <div>
+            <div className="cardTitle">Devices</div>
+            <div className="small">Paired devices and pairing requests, read live from each gateway (device.pair.list).</div>
+          </div>
+          <button onClick={() => void refresh()}>Refresh</button>
+        </div>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      </div>
+
+      {(data?.gateways ?? []).map((g) => {
+        const id = g.identity;
+        const title = multi ? ` on ${gatewayName(scope, g.gatewayId)}` : '';
+        return (
+          <React.Fragment key={g.gatewayId}>
+            <div className="card">
+              <div className="row" style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+                <div className="cardTitle">This monitor{title}</div>
+                {canOperate ? (
+                  <ActionButton label="Rotate identity" danger gatewayId={g.gatewayId} path="/api/devices/identity/rotate" onDone={() => void refresh()}
+                    confirmText="Generate a new device key and drop the current device token? The gateway must pair the new device before the monitor reconnects." />
+                ) : null}
+              </div>
+              <div className="small" style={{ display: 'grid', gap: 4, marginTop: 8 }}>
+                <div>Device id: <code>{id.deviceId}</code></div>
+                <div>Fingerprint: <code>{id.fingerprint}</code></div>
+                <div>Created: {id.createdAtMs ? fmt(id.createdAtMs) : '—'}</div>
+                <div>Role: {id.role} · requested scopes: {id.requestedScopes.join(', ')}</div>
+                <div>Granted scopes: {id.grantedScopes ? id.grantedScopes.join(', ') || 'none' : 'not connected'}</div>
+                <div>
+                  Device token: {id.deviceToken
+                    ? `${id.deviceToken.scopes.join(', ') || 'no scopes'}${id.deviceToken.updatedAtMs ? ` (issued ${fmt(id.deviceToken.updatedAtMs)})` : ''}`
+                    : 'none issued'}
+                </div>
+              </div>
+              {g.error ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{g.error}</div> : null}
+            </div>
+
+            <div className="card">
+              <div className="cardTitle">Pending pairing requests{title} ({g.pending.length})</div>
+              {g.pending.length === 0 ? <div className="small">None.</div> : (
+                <table className="table">
+                  <thead>
+                    <tr><th>Device</th><th>Client</th><th>Role</th><th>Scopes</th><th>From</th><th>Waiting</th>{canOperate ? <th>Decision</th> : null}</tr>
+                  </thead>
+                  <tbody>
+                    {g.pending.map((r) => (
+                      <tr key={r.requestId}>
+                        <td>{r.displayName ?? <ShortId id={r.deviceId} />}{r.displayName ? <div className="small"><ShortId id={r.deviceId} /></div> : null}</td>
+                        <td className="small">{[r.clientId, r.clientMode, r.platform].filter(Boolean).join(' · ') || '—'}</td>
+                        <td className="small">{r.role ?? '—'}</td>
+                        <td className="small">{r.scopes.join(', ') || '—'}</td>
+                        <td className="small">{r.remoteIp ?? '—'}</td>
+                        <td className="small">{r.requestedAt ? msToHuman(now - r.requestedAt) : '—'}</td>
+                        {canOperate ? (
+                          <td>
+                            <div style={{ display: 'flex', gap: 4 }}>
+                              <ActionButton label="Approve" gatewayId={g.gatewayId} onDone={() => void refresh()}
+                                path={`/api/devices/pairing/${encodeURIComponent(r.requestId)}/approve`}
+                                confirmText={`Pair ${r.displayName ?? r.deviceId ?? r.requestId} as ${r.role ?? 'requested role'} (${r.scopes.join(', ') || 'no scopes'})?`} />
+                              <ActionButton label="Reject" danger gatewayId={g.gatewayId} onDone={() => void refresh()}
+                                path={`/api/devices/pairing/${encodeURIComponent(r.requestId)}/reject`}
+                                confirmText={`Reject the pairing request from ${r.displayName ?? r.deviceId ?? r.requestId}?`} />
+                            </div>
+                          </td>
+                        ) : null}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="card">
+              <div className="cardTitle">Paired devices{title} ({g.paired.length})</div>
+              <table className="table">
+                <thead>
+                  <tr><th>Device</th><th>Client</th><th>Roles</th><th>Scopes</th><th>Paired</th><th>Last seen</th>{canOperate ? <th>Revoke</th> : null}</tr>
+                </thead>
+                <tbody>
+                  {g.paired.map((d) => {
+                    const self = d.deviceId === id.deviceId;
+                    const activeRoles = d.tokens.length
+                      ? [...new Set(d.tokens.filter((t) => !t.revokedAt && t.role).map((t) => t.role as string))]
+                      : d.roles;
+                    return (
+                      <tr key={d.deviceId}>
+                        <td>
+                          {d.displayName ?? <ShortId id={d.deviceId} />}
+                          {self ? <span className="status accent" style={{ marginLeft: 6 }}>this monitor</span> : null}
+                          {d.displayName ? <div className="small"><ShortId id={d.deviceId} /></div> : null}
+                        </td>
+                        <td className="small">{[d.clientId, d.clientMode, d.platform].filter(Boolean).join(' · ') || '—'}</td>
+                        <td className="small">{d.roles.join(', ') || '—'}</td>
+                        <td className="small">{d.scopes.join(', ') || '—'}</td>
+                        <td className="small">{d.pairedAt ? fmt(d.pairedAt) : '—'}</td>
+                        <td className="small">{d.lastSeenAt ? `${msToHuman(now - d.lastSeenAt)} ago` : '—'}</td>
+                        {canOperate ? (
+                          <td>
+                            <div style={{ display: 'flex', gap: 4 }}>
+                              {activeRoles.map((role) => (
+                                <ActionButton key={role} label={`Revoke ${role}`} danger gatewayId={g.gatewayId} body={{ role }} onDone={() => void refresh()}
+                                  path={`/api/devices/${encodeURIComponent(d.deviceId)}/revoke`}
+                                  confirmText={`Revoke the ${role} token of ${d.displayName ?? d.deviceId}?${self ? ' This is the monitor\'s own device; it will lose access.' : ''}`} />
+                              ))}
+                            </div>
+                          </td>
+                        ) : null}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {g.paired.length === 0 ? <div className="small">{g.error ? 'Unavailable.' : 'No paired devices.'}</div> : null}
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+function Audit({ scope }: { scope: GatewayScope }) {
+  const [data, setData] = useState<ApiAudit | null>(null);
+  const [action, setAction] = useState<ActionName | ''>('');
+  const [err, setErr] = useState<string | null>(null);
+
   async function refresh() {
-    const res = await apiGet<{ snapshot: SnapshotRow | null }>('/api/snapshot/cron');
-    setSnap(res.snapshot);
+    try {
+      const q = new URLSearchParams({ limit: '500' });
+      if (action) q.set('action', action);
+      const res = await apiGet<ApiAudit>(withGateway(`/api/audit?${q}`, scope.gateway));
+      if (!res.ok) throw new Error(res.error ?? 'failed to load audit log');
+      setData(res);
+      setErr(null);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
   }
-  useEffect(() => { void refresh(); const t = setInterval(() => void refresh(), 15000); return () => clearInterval(t); }, []);
 
-  const payload = parseSnapshotPayload(snap);
-  const jobs = Array.isArray(payload?.jobs) ? payload.jobs : (Array.isArray(payload) ? payload : []);
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 1000);
+    const off = subscribe('audit', (a) => { if (inScope(scope, a.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [scope.gateway, action]);
+
+  const entries: AuditEntry[] = data?.entries ?? [];
 
   return (
     <div>
       <div className="card" style={{ marginBottom: 12 }}>
-        <div className="cardTitle">Cron jobs</div>
-        <div className="small">Latest snapshot: {snap ? fmt(snap.ts) : '—'}</div>
+        <div className="row" style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline' }}>
+          <div>
+            <div className="cardTitle">Audit log (30d)</div>
+            <div className="small">Every operator action, including refused ones.</div>
+          </div>
+          <select value={action} onChange={(e) => setAction(e.target.value as ActionName | '')}>
+            <option value="">all actions</option>
+            {(data?.actions ?? []).map((a) => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
       </div>
 
+      {entries.length === 0 ? <div className="small">No actions recorded.</div> : null}
+
       <table className="table">
         <thead>
           <tr>
-            <th>Name</th>
-            <th>Enabled</th>
-            <th>Schedule</th>
-            <th>Next</th>
+            <th>Time</th>
+            <th>Who</th>
+            {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+            <th>Action</th>
+            <th>Target</th>
+            <th>Result</th>
+            <th>Duration</th>
           </tr>
         </thead>
         <tbody>
-          {jobs.map((j: any) => (
-            <tr key={j.id ?? j.jobId ?? j.name}>
-              <td style={{ color: 'var(--accent)' }}>{j.name ?? j.id ?? 'job'}</td>
-              <td>{String(j.enabled ?? '')}</td>
-              <td className="small">{j.schedule ? JSON.stringify(j.schedule) : ''}</td>
-              <td className="small">{j.nextRunAtMs ? fmt(j.nextRunAtMs) : ''}</td>
+          {entries.map((a) => (
+            <tr key={a.id}>
+              <td className="small">{fmt(a.ts)}</td>
+              <td className="small">{a.actor}{a.role ? ` (${a.role})` : ''}{a.ip ? <div>{a.ip}</div> : null}</td>
+              {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, a.gatewayId)}</td> : null}
+              <td className="small">{a.action}</td>
+              <td className="small">
+                {a.target && a.action.startsWith('session.') ? <SessionLink sessionKey={a.target} gatewayId={a.gatewayId} /> : a.target ?? ''}
+              </td>
+              <td>
+                {a.ok
+                  ? <span className="status ok">ok</span>
+                  : <span className="status bad" title={a.error ?? undefined}>failed</span>}
+                {a.error ? <div className="small">{a.error}</div> : null}
+              </td>
+              <td className="small">{a.durationMs === null ? '—' : `${a.durationMs} ms`}</td>
             </tr>
           ))}
         </tbody>
       </table>
-
-      <details style={{ marginTop: 12 }}>
-        <summary className="small">raw snapshot</summary>
-        <div className="pre">{snap?.payloadJson ?? ''}</div>
-      </details>
     </div>
   );
 }
 
-function Search() {
+const SEVERITY_CLASS: Record<string, string> = { critical: 'bad', warning: 'warn', info: 'accent' };
+
+function ruleOptions(rule: Record<string, any>) {
+  const { id, type, name, severity, firing, ...rest } = rule;
+  return Object.entries(rest).map(([k, v]) => `${k}=${typeof v === 'object' ? JSON.stringify(v) : v}`).join(' ');
+}
+
+function Alerts({ scope, canOperate }: { scope: GatewayScope; canOperate: boolean }) {
+  const [data, setData] = useState<ApiAlerts | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [permission, setPermission] = useState<string>(() => ('Notification' in window ? Notification.permission : 'unsupported'));
+
+  async function refresh() {
+    try {
+      const res = await apiGet<ApiAlerts>(withGateway('/api/alerts?limit=200', scope.gateway));
+      if (!res.ok) throw new Error(res.error ?? 'failed to load alerts');
+      setData(res);
+      setErr(null);
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+    const kick = throttled(() => void refresh(), 1000);
+    const off = subscribe('alerts', (a) => { if (inScope(scope, a.gatewayId)) kick(); });
+    return () => { kick.cancel(); off(); };
+  }, [scope.gateway]);
+
+  async function sendTest() {
+    setTestResult('Sending…');
+    try {
+      const res = await apiPost<{ ok: boolean; results: Array<{ type: string; ok?: boolean; skipped?: boolean; error?: string }> }>('/api/alerts/test');
+      setTestResult(res.results.map((r) => `${r.type}: ${r.skipped ? 'skipped' : r.ok ? 'ok' : r.error}`).join(' · ') || 'No sinks configured');
+      void refresh();
+    } catch (e: any) {
+      setTestResult(String(e?.message ?? e));
+    }
+  }
+
+  async function enableDesktop() {
+    if (!('Notification' in window)) return;
+    setPermission(await Notification.requestPermission());
+  }
+
+  const firing: AlertRow[] = data?.firing ?? [];
+  const history: AlertRow[] = data?.alerts ?? [];
+
   return (
-    <div className="card">
-      <div className="cardTitle">Search</div>
-      <div className="small">
-        Coming next: unified search across events/snapshots, then memory/workspace. For now, use Activity Feed filters.
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <div>
+            <div className="cardTitle">Firing ({firing.length})</div>
+            <div className="small">Rules are evaluated on every poll, event and gateway status change (see server/alerts.json).</div>
+          </div>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            {permission === 'granted'
+              ? <span className="small">Desktop notifications on</span>
+              : permission === 'unsupported' ? null
+              : <button onClick={() => void enableDesktop()}>Enable desktop notifications</button>}
+            {canOperate ? <button onClick={() => void sendTest()}>Send test</button> : null}
+          </div>
+        </div>
+        {testResult ? <div className="small" style={{ marginTop: 8 }}>{testResult}</div> : null}
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+        <div style={{ display: 'grid', gap: 8, marginTop: 12 }}>
+          {firing.map((a) => (
+            <div className="feedItem" key={a.alertKey}>
+              <div className="feedTop">
+                <div>
+                  <span className={`status ${SEVERITY_CLASS[a.severity] ?? ''}`}>{a.severity}</span>
+                  <span className="feedType" style={{ marginLeft: 8 }}>{a.ruleId}</span>
+                  {showGatewayColumn(scope) ? <span className="small">{' '}on {gatewayName(scope, a.gatewayId)}</span> : null}
+                </div>
+                <div className="small">since {fmt(a.firedAt)} ({msToHuman(Date.now() - a.firedAt)})</div>
+              </div>
+              <div>{a.message}</div>
+              {a.detail?.sessionKey ? <div className="small">Session: <SessionLink sessionKey={a.detail.sessionKey} gatewayId={a.gatewayId} /></div> : null}
+            </div>
+          ))}
+          {firing.length === 0 ? <div className="small">Nothing firing.</div> : null}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(360px, 1fr))', gap: 12 }}>
+        <div className="card">
+          <div className="cardTitle">Rules</div>
+          <table className="table">
+            <thead>
+              <tr><th>Rule</th><th>Type</th><th>Severity</th><th>Options</th><th>Firing</th></tr>
+            </thead>
+            <tbody>
+              {(data?.rules ?? []).map((r) => (
+                <tr key={r.id}>
+                  <td>{r.name ?? r.id}</td>
+                  <td className="small">{r.type}</td>
+                  <td><span className={`status ${SEVERITY_CLASS[r.severity] ?? ''}`}>{r.severity}</span></td>
+                  <td className="small">{ruleOptions(r)}</td>
+                  <td className="small">{r.firing}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="card">
+          <div className="cardTitle">Sinks</div>
+          <table className="table">
+            <thead>
+              <tr><th>Type</th><th>Target</th><th>Min severity</th><th>Last delivery</th></tr>
+            </thead>
+            <tbody>
+              {(data?.sinks ?? []).map((s, i) => (
+                <tr key={`${s.type}-${i}`}>
+                  <td>{s.type}</td>
+                  <td className="small">{s.target ?? '—'}</td>
+                  <td className="small">{s.minSeverity ?? 'any'}</td>
+                  <td className="small">
+                    {s.lastErrorAt && (!s.lastOkAt || s.lastErrorAt > s.lastOkAt)
+                      ? <span style={{ color: 'var(--danger)' }}>{fmt(s.lastErrorAt)}: {s.lastError}</span>
+                      : s.lastOkAt ? `ok ${fmt(s.lastOkAt)}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="cardTitle">History (7d)</div>
+        <table className="table">
+          <thead>
+            <tr><th>Fired</th>{showGatewayColumn(scope) ? <th>Gateway</th> : null}<th>Rule</th><th>Severity</th><th>Status</th><th>Message</th><th>Duration</th><th>Notified</th></tr>
+          </thead>
+          <tbody>
+            {history.map((a) => (
+              <tr key={a.id}>
+                <td className="small">{fmt(a.firedAt)}</td>
+                {showGatewayColumn(scope) ? <td className="small">{gatewayName(scope, a.gatewayId)}</td> : null}
+                <td>{a.ruleId}</td>
+                <td><span className={`status ${SEVERITY_CLASS[a.severity] ?? ''}`}>{a.severity}</span></td>
+                <td><span className={`status ${a.status === 'firing' ? 'bad' : 'ok'}`}>{a.status}</span></td>
+                <td className="small">{a.message}</td>
+                <td className="small">{msToHuman((a.resolvedAt ?? Date.now()) - a.firedAt)}</td>
+                <td className="small">{a.notifiedAt ? 'yes' : 'cooldown'}</td>
+              </tr>
+            ))}
+            {history.length === 0 ? <tr><td colSpan={showGatewayColumn(scope) ? 8 : 7} className="small">No alerts recorded.</td></tr> : null}
+          </tbody>
+        </table>
       </div>
     </div>
   );
 }
 
-function normalizeUsageCost(raw: any) {
-  if (!raw || typeof raw !== 'object') return { totalCost: null, breakdown: [] as any[] };
-  const totalCost = raw.totalCost ?? raw.total?.cost ?? raw.cost ?? raw.total ?? null;
-  const source = raw.breakdown ?? raw.byModel ?? raw.models ?? raw.items ?? null;
-  if (Array.isArray(source)) return { totalCost, breakdown: source };
-  if (source && typeof source === 'object') {
-    return {
-      totalCost,
-      breakdown: Object.entries(source).map(([key, value]) => {
-        if (value && typeof value === 'object') return { model: key, ...value };
-        return { model: key, cost: value };
-      })
-    };
+function Highlighted({ text, marks }: { text: string; marks?: { start: string; end: string } }) {
+  if (!marks || !text) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let rest = text;
+  let i = 0;
+  while (rest) {
+    const a = rest.indexOf(marks.start);
+    if (a < 0) { parts.push(rest); break; }
+    const b = rest.indexOf(marks.end, a + marks.start.length);
+    if (b < 0) { parts.push(rest.replace(marks.start, '')); break; }
+    if (a > 0) parts.push(rest.slice(0, a));
+    parts.push(<mark className="hl" key={i++}>{rest.slice(a + marks.start.length, b)}</mark>);
+    rest = rest.slice(b + marks.end.length);
   }
-  return { totalCost, breakdown: [] };
+  return <>{parts}</>;
 }
 
-function findModelId(obj: any): string | null {
-  if (!obj) return null;
-  if (typeof obj === 'string') return null;
-  if (typeof obj !== 'object') return null;
-  const direct = obj.model ?? obj.modelId ?? obj.model_id ?? null;
-  if (typeof direct === 'string') return direct;
-  for (const val of Object.values(obj)) {
-    const found = findModelId(val);
-    if (found) return found;
+function SearchEventResult({ hit, marks, scope }: { hit: SearchEventHit; marks?: { start: string; end: string }; scope: GatewayScope }) {
+  const [full, setFull] = useState<EventRow | null>(null);
+  const [open, setOpen] = useState(false);
+
+  async function toggle() {
+    const next = !open;
+    setOpen(next);
+    if (next && !full) {
+      try {
+        const res = await apiGet<{ event: EventRow }>(`/api/events/${hit.id}`);
+        setFull(res.event);
+      } catch {
+        setFull(null);
+      }
+    }
   }
-  return null;
+
+  return (
+    <div className="feedItem">
+      <div className="feedTop">
+        <div>
+          <span className="feedType">{hit.type}</span>
+          <span className="small">{' '}- {hit.event} #{hit.id}</span>
+          <RedactedBadge count={hit.redacted} />
+        </div>
+        <div className="small">{fmt(hit.ts)}</div>
+      </div>
+      <div className="small" style={{ marginTop: 6 }}>
+        {showGatewayColumn(scope) ? <span>gateway: <span style={{ color: 'var(--muted)' }}>{gatewayName(scope, hit.gatewayId)}</span> </span> : null}
+        {hit.sessionKey ? (
+          <span>session: <SessionLink sessionKey={hit.sessionKey} gatewayId={hit.gatewayId} /> </span>
+        ) : null}
+        {hit.tool ? <span>tool: <span style={{ color: 'var(--muted)' }}>{hit.tool}</span> </span> : null}
+        {hit.runId ? <span>run: <span style={{ color: 'var(--muted)' }}>{hit.runId}</span></span> : null}
+      </div>
+      {hit.snippet ? <div className="pre" style={{ marginTop: 8 }}><Highlighted text={hit.snippet} marks={marks} /></div> : null}
+      <details style={{ marginTop: 8 }} open={open}>
+        <summary className="small" onClick={(e) => { e.preventDefault(); void toggle(); }}>payload</summary>
+        <div className="pre">{full?.payloadJson ?? 'Loading…'}</div>
+      </details>
+    </div>
+  );
 }
 
-function extractCapsFromObject(obj: any) {
-  const caps: { rpm?: number; tpm?: number; dailySpendCapUsd?: number } = {};
-  if (!obj || typeof obj !== 'object') return caps;
+function Search({ scope }: { scope: GatewayScope }) {
+  const [q, setQ] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [res, setRes] = useState<ApiSearch | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
 
-  const walk = (node: any) => {
-    if (!node || typeof node !== 'object') return;
-    if (Array.isArray(node)) {
-      for (const item of node) walk(item);
-      return;
-    }
-    for (const [key, value] of Object.entries(node)) {
-      const k = key.toLowerCase();
-      if (k.includes('ratelimit') || k.includes('rate_limit')) {
-        if (typeof value === 'string' || typeof value === 'number') {
-          const n = Number(value);
-          if (Number.isFinite(n)) {
-            if (k.includes('token') || k.includes('tpm')) caps.tpm = caps.tpm ?? n;
-            else if (k.includes('request') || k.includes('rpm')) caps.rpm = caps.rpm ?? n;
-          }
-        }
-      }
-      if (k.includes('daily') || k.includes('spend') || k.includes('budget')) {
-        if (typeof value === 'string' || typeof value === 'number') {
-          const n = Number(value);
-          if (Number.isFinite(n)) caps.dailySpendCapUsd = caps.dailySpendCapUsd ?? n;
-        }
-      }
-      if (typeof value === 'object') walk(value);
+  async function run() {
+    const qs = new URLSearchParams();
+    qs.set('q', q);
+    qs.set('limit', '50');
+    if (from) qs.set('from', String(new Date(from).getTime()));
+    if (to) qs.set('to', String(new Date(to).getTime()));
+    if (scope.gateway) qs.set('gateway', scope.gateway);
+    setBusy(true);
+    try {
+      const data = await apiGet<ApiSearch>(`/api/search?${qs.toString()}`);
+      setRes(data);
+      setErr(data.ok ? null : (data.error ?? 'search failed'));
+    } catch (e: any) {
+      setErr(String(e?.message ?? e));
+    } finally {
+      setBusy(false);
     }
-  };
-  walk(obj);
-  return caps;
+  }
+
+  const events = res?.events ?? [];
+  const snapshots: SearchSnapshotHit[] = res?.snapshots ?? [];
+
+  return (
+    <div style={{ display: 'grid', gap: 12 }}>
+      <div className="card">
+        <div className="cardTitle">Search</div>
+        <div className="small" style={{ marginBottom: 8 }}>
+          Full-text over events and snapshots. Qualifiers: type: tool: session: run: event: kind: in:events|snapshots since:2h. Quote phrases; end a word with * for prefix.
+        </div>
+        <form
+          style={{ display: 'grid', gridTemplateColumns: '1fr auto auto auto', gap: 8 }}
+          onSubmit={(e) => { e.preventDefault(); void run(); }}
+        >
+          <input value={q} onChange={(e) => setQ(e.target.value)} placeholder='type:agent tool:exec "rate limit"' />
+          <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} title="from" />
+          <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} title="to" />
+          <button type="submit" disabled={busy}>{busy ? 'Searching…' : 'Search'}</button>
+        </form>
+        {err ? <div style={{ color: 'var(--danger)', marginTop: 8 }}>{err}</div> : null}
+      </div>
+
+      {res?.ok ? (
+        <div className="card">
+          <div className="cardTitle">Events ({events.length})</div>
+          {events.length === 0 ? <div className="small">No matching events.</div> : null}
+          {events.map((hit) => (
+            <SearchEventResult key={hit.id} hit={hit} marks={res.highlight} scope={scope} />
+          ))}
+        </div>
+      ) : null}
+
+      {res?.ok && snapshots.length ? (
+        <div className="card">
+          <div className="cardTitle">Snapshots ({snapshots.length})</div>
+          {snapshots.map((hit) => (
+            <div className="feedItem" key={hit.id}>
+              <div className="feedTop">
+                <div>
+                  <span className="feedType">{hit.kind}</span>
+                  {showGatewayColumn(scope) ? <span className="small">{' '}@ {gatewayName(scope, hit.gatewayId)}</span> : null}
+                  <span className="small">{' '}- {hit.matches[0] ?? `item #${hit.id}`}</span>
+                </div>
+                <div className="small">{fmt(hit.ts)}</div>
+              </div>
+              <div className="pre"><Highlighted text={hit.snippet} marks={res.highlight} /></div>
+              <div className="small" style={{ marginTop: 8, display: 'flex', gap: 10, flexWrap: 'wrap' }}>
+                {hit.kind === 'sessions'
+                  ? hit.matches.map((key) => (
+                    <SessionLink key={key} sessionKey={key} gatewayId={hit.gatewayId} />
+                  ))
+                  : null}
+                <a href={hit.kind === 'cron' ? '#/cron' : '#/sessions'}>open {hit.kind} tab</a>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const RATE_LIMIT_STATUS_CLASS: Record<RateLimitModel['status'], string> = { ok: 'ok', warning: 'warn', throttled: 'bad' };
+const RATE_LIMIT_WINDOWS = ['1h', '24h', '7d'];
+
+function RateLimitCell({ r, now }: { r: RateLimitResource; now: number }) {
+  if (!r.limit) return <span className="small">—</span>;
+  return (
+    <div style={{ display: 'grid', gap: 4 }}>
+      <div className="small">
+        {r.remaining === null ? '—' : (r.limit - r.remaining).toLocaleString()} / {r.limit.toLocaleString()}
+        {r.capSource === 'manual' ? ' (manual cap)' : ''}
+      </div>
+      {r.usedRatio !== null ? (
+        <div className="bar">
+          <div className="barFill" style={{ width: `${r.usedRatio * 100}%` }} />
+        </div>
+      ) : null}
+      {r.resetAt ? <div className="small">resets in {fmtMs(Math.max(0, r.resetAt - now))}</div> : null}
+    </div>
+  );
+}
+
+function RateLimitsCard({ scope, data, windowSpec, onWindow }: {
+  scope: GatewayScope;
+  data: ApiRateLimits | null;
+  windowSpec: string;
+  onWindow: (w: string) => void;
+}) {
+  const models = data?.models ?? [];
+  const series = data?.history?.series ?? [];
+  const now = data?.ts ?? Date.now();
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+        <div className="cardTitle">Rate limits</div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {RATE_LIMIT_WINDOWS.map((w) => (
+            <button key={w} className={w === windowSpec ? 'active' : ''} onClick={() => onWindow(w)}>{w}</button>
+          ))}
+        </div>
+      </div>
+      <div className="small">Throttles, failovers and provider quota headers seen in gateway events.</div>
+      {data && !data.ok ? <div className="small" style={{ color: 'var(--danger)', marginTop: 8 }}>{data.error}</div> : null}
+      {models.length === 0 ? (
+        <div className="small" style={{ marginTop: 10 }}>No rate-limit signals in this window.</div>
+      ) : (
+        <table className="table" style={{ marginTop: 10 }}>
+          <thead>
+            <tr>
+              <th>Model</th>
+              {showGatewayColumn(scope) ? <th>Gateway</th> : null}
+              <th>Status</th>
+              <th>Requests</th>
+              <th>Tokens</th>
+              <th>Throttles / failovers</th>
+              <th>Usable again</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((m) => (
+              <tr key={`${m.gatewayId}|${m.provider}|${m.model}`}>
+                <td>
+                  <div style={{ color: 'var(--accent)', fontWeight: 700 }}>{m.model ?? '—'}</div>
+                  <div className="small" style={{ marginTop: 4 }}>{m.provider ?? '—'}</div>
+                </td>
+                {showGatewayColumn(scope) ? <td>{gatewayName(scope, m.gatewayId)}</td> : null}
+                <td><span className={`status ${RATE_LIMIT_STATUS_CLASS[m.status]}`}>{m.status.toUpperCase()}</span></td>
+                <td><RateLimitCell r={m.requests} now={now} /></td>
+                <td><RateLimitCell r={m.tokens} now={now} /></td>
+                <td>
+                  <div className="small">{m.throttles} / {m.failovers}</div>
+                  {m.lastThrottleAt ? <div className="small">last throttle {fmt(m.lastThrottleAt)}</div> : null}
+                  {m.lastMessage ? <div className="small" style={{ color: 'var(--muted)' }}>{m.lastMessage}</div> : null}
+                </td>
+                <td className="small">
+                  {m.resetInMs !== null ? `in ${fmtMs(m.resetInMs)}` : m.status === 'throttled' ? 'unknown' : 'now'}
+                  {m.retryAfterMs !== null ? <div>retry-after {fmtMs(m.retryAfterMs)}</div> : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {series.map((s) => {
+        const ts = s.points.map((p) => p.ts);
+        const used = s.points.map((p) => (p.requestsUsed === null && p.tokensUsed === null ? null : Math.max(p.requestsUsed ?? 0, p.tokensUsed ?? 0)));
+        return (
+          <div key={s.provider ?? ''} style={{ marginTop: 12 }}>
+            <div className="small" style={{ fontWeight: 700 }}>{s.provider ?? 'unknown provider'}: throttles and failovers per {fmtMs(data!.history!.bucketMs)}</div>
+            <Sparkline values={s.points.map((p) => p.throttles + p.failovers)} ts={ts} color="var(--danger)" format={(n) => String(Math.round(n))} height={40} />
+            {used.some((v) => v !== null) ? (
+              <>
+                <div className="small" style={{ fontWeight: 700, marginTop: 6 }}>{s.provider ?? 'unknown provider'}: peak limit used</div>
+                <Sparkline values={used} ts={ts} color="var(--warn)" format={(n) => fmtPct(n * 100)} height={40} />
+              </>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const bareModel = (m: string | null | undefined) => String(m ?? '').slice(String(m ?? '').indexOf('/') + 1);
+
+// Error rates, failovers and the most common errors per model, plus how the configured fallback chain
+// (primary, then fallbacks in order) has been used.
+function ModelErrorsCard({ scope, chain }: { scope: GatewayScope; chain: string[] }) {
+  const [windowSpec, setWindowSpec] = useState('24h');
+  const [data, setData] = useState<ApiModelErrors | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => apiGet<ApiModelErrors>(withGateway(`/api/model-errors?window=${windowSpec}`, scope.gateway))
+      .then((res) => { if (!cancelled) setData(res); })
+      .catch((e: any) => { if (!cancelled) setData({ ok: false, error: String(e?.message ?? e) }); });
+    const kick = throttled(() => void load(), 2000);
+    void load();
+    const off = subscribe('modelOutcomes', (o) => { if (inScope(scope, o.gatewayId)) kick(); });
+    return () => {
+      cancelled = true;
+      kick.cancel();
+      off();
+    };
+  }, [scope.gateway, windowSpec]);
+
+  const models = data?.models ?? [];
+  const transitions = data?.transitions ?? [];
+  const points = data?.timeline?.points ?? [];
+  const statsFor = (id: string) => models.find((m) => bareModel(m.model) === bareModel(id)) ?? null;
+  const transitionFor = (from: string, to: string) => transitions.find((t) => bareModel(t.fromModel) === bareModel(from) && bareModel(t.toModel) === bareModel(to));
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+        <div className="cardTitle">Model errors &amp; failovers</div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {RATE_LIMIT_WINDOWS.map((w) => (
+            <button key={w} className={w === windowSpec ? 'active' : ''} onClick={() => setWindowSpec(w)}>{w}</button>
+          ))}
+        </div>
+      </div>
+      <div className="small">Attempts, errors, retries and failovers from chat and agent events.</div>
+      {data && !data.ok ? <div className="small" style={{ color: 'var(--danger)', marginTop: 8 }}>{data.error}</div> : null}
+
+      {chain.length > 1 ? (
+        <table className="table" style={{ marginTop: 10 }}>
+          <thead>
+            <tr>
+              <th>Fallback chain</th>
+              <th>Attempts</th>
+              <th>Error rate</th>
+              <th>Failed over from previous</th>
+            </tr>
+          </thead>
+          <tbody>
+            {chain.map((id, i) => {
+              const st = statsFor(id);
+              const t = i > 0 ? transitionFor(chain[i - 1], id) : null;
+              return (
+                <tr key={id}>
+                  <td>
+                    <div style={{ color: 'var(--accent)', fontWeight: 700 }}>{id}</div>
+                    <div className="small">{i === 0 ? 'primary' : `fallback ${i}`}</div>
+                  </td>
+                  <td>{st ? st.ok + st.errors : 0}</td>
+                  <td>{st?.errorRate !== null && st?.errorRate !== undefined ? fmtPct(st.errorRate * 100) : '—'}</td>
+                  <td className="small">{i === 0 ? '—' : t ? `${t.failovers} (${t.recovered} recovered)` : '0'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : null}
+
+      {models.length === 0 ? (
+        <div className="small" style={{ marginTop: 10 }}>No model attempts in this window.</div>
+      ) : (
+        <table className="table" style={{ marginTop: 10 }}>
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Attempts</th>
+              <th>Error rate</th>
+              <th>Retries</th>
+              <th>Failovers out / in</th>
+              <th>Last error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((m) => (
+              <tr key={`${m.provider}|${m.model}`}>
+                <td>
+                  <div style={{ color: 'var(--accent)', fontWeight: 700 }}>{m.model ?? 'unknown'}</div>
+                  <div className="small" style={{ marginTop: 4 }}>{m.provider ?? '—'}</div>
+                </td>
+                <td>{m.ok + m.errors}</td>
+                <td>
+                  {m.errorRate === null ? '—' : (
+                    <div style={{ display: 'grid', gap: 4 }}>
+                      <div className="small">{fmtPct(m.errorRate * 100)} ({m.errors})</div>
+                      <div className="bar">
+                        <div className="barFill" style={{ width: `${m.errorRate * 100}%`, background: 'var(--danger)' }} />
+                      </div>
+                    </div>
+                  )}
+                </td>
+                <td>{m.retries}</td>
+                <td>{m.failovers} / {m.failoversIn}</td>
+                <td className="small">{m.lastErrorAt ? fmt(m.lastErrorAt) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {transitions.length ? (
+        <div style={{ marginTop: 12 }}>
+          <div className="small" style={{ fontWeight: 700 }}>Failovers</div>
+          {transitions.map((t) => (
+            <div key={`${t.fromModel}|${t.toModel}`} className="small" style={{ display: 'flex', justifyContent: 'space-between', gap: 8, marginTop: 4 }}>
+              <span>{t.fromModel ?? 'unknown'} → {t.toModel ?? 'unknown'}</span>
+              <span style={{ color: 'var(--muted)' }}>{t.failovers}× · {t.recovered} recovered · last {fmt(t.lastAt)}</span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {data?.topErrors?.length ? (
+        <div style={{ marginTop: 12 }}>
+          <div className="small" style={{ fontWeight: 700 }}>Top errors</div>
+          {data.topErrors.map((e, i) => (
+            <div key={i} style={{ display: 'grid', gap: 2, marginTop: 6 }}>
+              <div className="small">
+                <span className="status bad">{e.errorKind ?? 'other'}</span> {e.count}× · {e.models.join(', ') || 'unknown model'} · last {fmt(e.lastAt)}
+              </div>
+              <div className="small" style={{ color: 'var(--muted)' }}>{e.message ?? '—'}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {points.some((p) => p.errors || p.failovers || p.retries) ? (
+        <div style={{ marginTop: 12 }}>
+          <div className="small" style={{ fontWeight: 700 }}>Errors per {fmtMs(data!.timeline!.bucketMs)}</div>
+          <Sparkline values={points.map((p) => p.errors)} ts={points.map((p) => p.ts)} color="var(--danger)" format={(n) => String(Math.round(n))} height={40} />
+          <div className="small" style={{ fontWeight: 700, marginTop: 6 }}>Failovers and retries per {fmtMs(data!.timeline!.bucketMs)}</div>
+          <Sparkline values={points.map((p) => p.failovers + p.retries)} ts={points.map((p) => p.ts)} color="var(--warn)" format={(n) => String(Math.round(n))} height={40} />
+        </div>
+      ) : null}
+    </div>
+  );
 }
 
-function Models() {
+function Models({ scope }: { scope: GatewayScope }) {
   const [catalog, setCatalog] = useState<ApiModelCatalog | null>(null);
   const [usage, setUsage] = useState<ApiUsageCost | null>(null);
-  const [snap, setSnap] = useState<SnapshotRow | null>(null);
-  const [events, setEvents] = useState<EventRow[]>([]);
+  const [snap] = useLiveSnapshot('sessions', scope);
+  const [rateLimitWindow, setRateLimitWindow] = useState('24h');
+  const [rateLimits, setRateLimits] = useState<ApiRateLimits | null>(null);
   const [err, setErr] = useState<string | null>(null);
+  const budgets = useBudgets();
 
   async function refreshCatalog() {
     try {
@@ -620,7 +3141,7 @@ function Models() {
 
   async function refreshUsage() {
     try {
-      const res = await apiGet<ApiUsageCost>('/api/usage-cost');
+      const res = await apiGet<ApiUsageCost>(withGateway('/api/usage-cost', scope.gateway));
       setUsage(res);
       setErr(null);
     } catch (e: any) {
@@ -628,26 +3149,6 @@ function Models() {
     }
   }
 
-  async function refreshSessions() {
-    try {
-      const res = await apiGet<{ snapshot: SnapshotRow | null }>('/api/snapshot/sessions');
-      setSnap(res.snapshot);
-      setErr(null);
-    } catch (e: any) {
-      setErr(String(e?.message ?? e));
-    }
-  }
-
-  async function refreshEvents() {
-    try {
-      const res = await apiGet<{ events: EventRow[] }>('/api/events?limit=200');
-      setEvents(res.events ?? []);
-      setErr(null);
-    } catch (e: any) {
-      setErr(String(e?.message ?? e));
-    }
-  }
-
   useEffect(() => {
     void refreshCatalog();
     const t = setInterval(() => void refreshCatalog(), 60_000);
@@ -658,21 +3159,27 @@ function Models() {
     void refreshUsage();
     const t = setInterval(() => void refreshUsage(), 30_000);
     return () => clearInterval(t);
-  }, []);
-
-  useEffect(() => {
-    void refreshSessions();
-    const t = setInterval(() => void refreshSessions(), 8000);
-    return () => clearInterval(t);
-  }, []);
+  }, [scope.gateway]);
 
+  // New samples arrive on the stream; the interval keeps reset countdowns current.
   useEffect(() => {
-    void refreshEvents();
-    const t = setInterval(() => void refreshEvents(), 15_000);
-    return () => clearInterval(t);
-  }, []);
+    let cancelled = false;
+    const load = () => apiGet<ApiRateLimits>(withGateway(`/api/ratelimits?window=${rateLimitWindow}`, scope.gateway))
+      .then((res) => { if (!cancelled) setRateLimits(res); })
+      .catch((e: any) => { if (!cancelled) setErr(String(e?.message ?? e)); });
+    const kick = throttled(() => void load(), 2000);
+    void load();
+    const t = setInterval(() => void load(), 30_000);
+    const off = subscribe('rateLimits', (r) => { if (inScope(scope, r.gatewayId)) kick(); });
+    return () => {
+      cancelled = true;
+      kick.cancel();
+      clearInterval(t);
+      off();
+    };
+  }, [scope.gateway, rateLimitWindow]);
 
-  const payload = parseSnapshotPayload(snap);
+  const payload = snap?.payload ?? null;
   const sessions = Array.isArray(payload?.sessions) ? payload.sessions : [];
   const modelsFromCatalog = Array.isArray(catalog?.models) ? catalog!.models! : [];
   const modelIdsFromDefaults = [
@@ -689,39 +3196,27 @@ function Models() {
     if (s?.model && !modelMap.has(s.model)) modelMap.set(s.model, { id: s.model });
   }
 
-  const capsByModel = new Map<string, { rpm?: number; tpm?: number; dailySpendCapUsd?: number; source?: string }>();
-  const sortedEvents = [...events].sort((a, b) => b.ts - a.ts);
-  for (const ev of sortedEvents) {
-    let payloadObj: any = null;
-    try { payloadObj = JSON.parse(ev.payloadJson); } catch { payloadObj = null; }
-    if (!payloadObj) continue;
-    const modelId = findModelId(payloadObj);
-    if (!modelId) continue;
-    if (capsByModel.has(modelId)) continue;
-    const caps = extractCapsFromObject(payloadObj);
-    if (caps.rpm || caps.tpm || caps.dailySpendCapUsd) {
-      capsByModel.set(modelId, { ...caps, source: 'auto' });
-    }
+  // Rows come most constrained first, so each model keeps its worst gateway.
+  const rateLimitByModel = new Map<string, RateLimitModel>();
+  for (const r of rateLimits?.models ?? []) {
+    if (r.model && !rateLimitByModel.has(r.model)) rateLimitByModel.set(r.model, r);
   }
 
-  const usageNormalized = normalizeUsageCost(usage?.data);
-  const usageByModel = new Map<string, any>();
-  for (const item of usageNormalized.breakdown) {
-    const id = item?.model ?? item?.modelId ?? item?.id ?? item?.name ?? null;
-    if (!id) continue;
-    const cost = item?.cost ?? item?.totalCost ?? item?.usd ?? item?.amount ?? item?.total ?? null;
-    const inputTokens = item?.inputTokens ?? item?.promptTokens ?? item?.inTokens ?? null;
-    const outputTokens = item?.outputTokens ?? item?.completionTokens ?? item?.outTokens ?? null;
-    const totalTokens = (item?.totalTokens ?? (Number(inputTokens ?? 0) + Number(outputTokens ?? 0))) || null;
-    usageByModel.set(id, { cost, inputTokens, outputTokens, totalTokens });
-  }
+  const today = new Date();
+  const todayKey = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  const usageToday = usage?.data?.daily.find((d) => d.date === todayKey) ?? null;
+  const usageByModel = new Map((usage?.data?.byModel ?? []).map((m) => [m.model, m]));
 
   const rows = [...modelMap.values()].sort((a, b) => String(a.id).localeCompare(String(b.id)));
   const warnings: string[] = [];
-  if (!usage?.ok) warnings.push('Usage cost unavailable; gateway CLI missing or failed.');
-  if (usage?.stale) warnings.push('Usage cost is stale; showing last cached snapshot.');
+  if (usage && !usage.ok) warnings.push(`Usage cost unavailable${usage.error ? `: ${usage.error}` : ''}.`);
+  else if (usage?.stale) warnings.push(`Usage cost refresh failed; showing stored totals${usage.error ? ` (${usage.error})` : ''}.`);
   if (catalog && !catalog.ok) warnings.push('Model catalog unavailable; check ~/.openclaw/openclaw.json.');
-  if (!events.length) warnings.push('Rate limit detection inactive; no recent gateway events.');
+  for (const r of rateLimits?.models ?? []) {
+    if (r.status === 'throttled') warnings.push(`${r.model ?? r.provider ?? 'A model'} is being throttled${r.resetInMs !== null ? ` for another ${fmtMs(r.resetInMs)}` : ''}.`);
+  }
+  const modelBudgets = budgets.filter((b) => b.scope === 'model' || b.scope === 'provider');
+  for (const b of modelBudgets) if (b.status !== 'ok') warnings.push(budgetWarning(b));
 
   let usedManualCaps = false;
   const now = Date.now();
@@ -739,24 +3234,24 @@ function Models() {
       <div className="cards">
         <div className="card">
           <div className="cardTitle">Usage &amp; cost (daily)</div>
-          <div className="small">Gateway totals; refreshes every 30s.</div>
+          <div className="small">
+            Gateway totals; refreshes every 30s.{usage?.source ? ` Source: ${usage.source}.` : ''}
+          </div>
           <div style={{ marginTop: 12 }}>
-            <div style={{ fontSize: 20, fontWeight: 800, color: 'var(--ok)' }}>{fmtUsd(usageNormalized.totalCost)}</div>
-            <div className="small" style={{ marginTop: 6 }}>Total cost today</div>
+            <div style={{ fontSize: 20, fontWeight: 800, color: 'var(--ok)' }}>{fmtUsd(usage?.ok ? usageToday?.totalCost ?? 0 : null)}</div>
+            <div className="small" style={{ marginTop: 6 }}>
+              Total cost today · {fmtUsd(usage?.data?.totals.totalCost ?? null)} over {usage?.data?.days ?? 30} days
+            </div>
           </div>
           <div style={{ marginTop: 12, display: 'grid', gap: 6 }}>
-            {usageNormalized.breakdown.length === 0 ? (
+            {!usage?.data?.byModel.length ? (
               <div className="small">No breakdown available yet.</div>
-            ) : usageNormalized.breakdown.slice(0, 8).map((item, idx) => {
-              const label = item.model ?? item.modelId ?? item.id ?? item.name ?? `item-${idx}`;
-              const cost = item.cost ?? item.totalCost ?? item.usd ?? item.amount ?? item.total ?? null;
-              return (
-                <div key={label} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
-                  <div className="small" style={{ color: 'var(--muted)' }}>{label}</div>
-                  <div className="small" style={{ color: 'var(--ok)' }}>{fmtUsd(cost)}</div>
-                </div>
-              );
-            })}
+            ) : usage.data.byModel.slice(0, 8).map((item) => (
+              <div key={item.model} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <div className="small" style={{ color: 'var(--muted)' }}>{item.model}</div>
+                <div className="small" style={{ color: 'var(--ok)' }}>{fmtUsd(item.totalCost)}</div>
+              </div>
+            ))}
           </div>
         </div>
 
@@ -771,6 +3266,18 @@ function Models() {
         </div>
       </div>
 
+      <RateLimitsCard scope={scope} data={rateLimits} windowSpec={rateLimitWindow} onWindow={setRateLimitWindow} />
+
+      <ModelErrorsCard scope={scope} chain={modelIdsFromDefaults} />
+
+      {modelBudgets.length ? (
+        <div className="card">
+          <div className="cardTitle">Model &amp; provider budgets</div>
+          <div className="small">Daily caps from model-metadata.json plus server/budgets.json.</div>
+          <BudgetTable budgets={modelBudgets} />
+        </div>
+      ) : null}
+
       <div className="card">
         <div className="cardTitle">Models</div>
         <div className="small">Headroom uses max window; caps auto-detected when possible.</div>
@@ -805,10 +3312,18 @@ function Models() {
               const ratio = windowTokens > 0 ? Math.min(1, usedTokens / windowTokens) : 0;
               const headroomPct = windowTokens > 0 ? ((1 - ratio) * 100) : 0;
 
-              let caps = capsByModel.get(m.id);
-              if (!caps) {
-                const manualModel = (modelMetadata as any).models?.[m.id];
-                const manual = manualModel ?? (modelMetadata as any).defaults ?? {};
+              const manualModel = (modelMetadata as any).models?.[m.id];
+              const manual = manualModel ?? (modelMetadata as any).defaults ?? {};
+              const limits = rateLimitByModel.get(m.id);
+              let caps: { rpm?: number | null; tpm?: number | null; dailySpendCapUsd?: number | null; source?: string };
+              if (limits?.requests.capSource === 'headers' || limits?.tokens.capSource === 'headers') {
+                caps = {
+                  rpm: limits.requests.limit,
+                  tpm: limits.tokens.limit,
+                  dailySpendCapUsd: manual?.dailySpendCapUsd,
+                  source: 'headers'
+                };
+              } else {
                 const hasManual = Number.isFinite(manual?.rpm)
                   || Number.isFinite(manual?.tpm)
                   || Number.isFinite(manual?.dailySpendCapUsd);
@@ -816,9 +3331,9 @@ function Models() {
                 if (hasManual) usedManualCaps = true;
               }
 
-              const usageRow = usageByModel.get(m.id) ?? {};
-              const cost = usageRow.cost ?? null;
-              const totalTokens = usageRow.totalTokens ?? null;
+              const usageRow = usageByModel.get(m.id);
+              const cost = usageRow?.totalCost ?? null;
+              const totalTokens = usageRow?.totalTokens || null;
 
               return (
                 <tr key={m.id}>
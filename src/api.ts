@@ -1,9 +1,20 @@
+export type GatewayInfo = {
+  id: string;
+  name: string;
+  url: string;
+  connected: boolean;
+  error: string | null;
+  openclawVersion: string | null;
+};
+
 export type ApiStatus = {
   ok: boolean;
   gatewayConnected: boolean;
   gatewayUrl: string;
+  gatewayError?: string | null;
   openclawVersion?: string;
   updateAvailable?: boolean;
+  gateways?: GatewayInfo[];
   now?: number;
 };
 
@@ -16,9 +27,10 @@ export type ApiOverview = {
     connectedSince: number | null;
     totalConnectedMs: number;
     uptimePct: number;
-    url: string;
+    url: string | null;
     error: any;
   };
+  gateways?: Array<GatewayInfo & { uptimePct: number; sessions: number; cronJobs: number; sessionsTs: number | null }>;
   snapshots: { sessionsTs: number | null; cronTs: number | null };
   sessions: { count: number; topPressure: any[]; topCost: any[] };
   cron: { count: number; next: any | null };
@@ -28,28 +40,209 @@ export type ApiOverview = {
 export type EventRow = {
   id: number;
   ts: number;
+  gatewayId: string;
   event: string;
   type: string;
   sessionKey?: string;
   runId?: string;
   tool?: string;
   summary?: string;
+  /** How many values the server's redaction rules replaced in payloadJson. */
+  redacted: number;
   payloadJson: string;
 };
 
 export type SnapshotRow = {
   id: number;
   ts: number;
+  gatewayId: string;
   kind: string;
   payloadJson: string;
 };
 
+export type UsageTotals = {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  totalTokens: number;
+  inputCost: number;
+  outputCost: number;
+  cacheReadCost: number;
+  cacheWriteCost: number;
+  totalCost: number;
+};
+
+/** One local calendar day (YYYY-MM-DD), summed over the requested gateways. */
+export type UsageDay = UsageTotals & { date: string };
+
+export type UsageCostData = {
+  updatedAt: number | null;
+  days: number;
+  daily: UsageDay[];
+  totals: UsageTotals;
+  /** Per-model totals over the gateway's own fetch window, not per day. */
+  byModel: Array<{ model: string; totalCost: number; totalTokens: number }>;
+};
+
 export type ApiUsageCost = {
   ok: boolean;
-  cached?: boolean;
+  /** True when the last refresh of any gateway failed; data is then what was stored before. */
   stale?: boolean;
-  data?: any;
+  /** `gateway` (usage.cost RPC), `cli` (openclaw CLI fallback), `mixed`, or `history` (stored days only). */
+  source?: 'gateway' | 'cli' | 'mixed' | 'history' | null;
+  data?: UsageCostData | null;
   error?: string | null;
+  gateways?: Array<{ gatewayId: string; source: 'gateway' | 'cli' | null; updatedAt: number | null; error: string | null }>;
+};
+
+export type BudgetScope = 'global' | 'model' | 'provider' | 'agent';
+
+export type BudgetStatus = {
+  id: string;
+  scope: BudgetScope;
+  /** Model, provider or agent id; null for global budgets. */
+  match: string | null;
+  period: 'day' | 'week' | 'month';
+  limitUsd: number;
+  warnAt: number;
+  /** `config` (server/budgets.json) or `metadata` (dailySpendCapUsd in model-metadata.json). */
+  source: 'config' | 'metadata';
+  periodStart: number;
+  periodEnd: number;
+  spentUsd: number;
+  usedRatio: number;
+  burnUsdPerHour: number;
+  projectedUsd: number;
+  /** `gateway` (usage-cost totals) or `estimate` (local per-session estimates). */
+  spendSource: 'gateway' | 'estimate';
+  /** False when session history does not reach the period start. */
+  complete: boolean;
+  status: 'ok' | 'warning' | 'over';
+};
+
+export type ApiBudgets = {
+  ok: boolean;
+  ts?: number;
+  usageCostAvailable?: boolean;
+  usageCostError?: string | null;
+  budgets?: BudgetStatus[];
+  error?: string;
+};
+
+export type RateLimitResource = {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null;
+  /** From the latest provider headers; null when only a manual cap (or nothing) is known. */
+  usedRatio: number | null;
+  /** `headers` (provider rate-limit headers) or `manual` (rpm/tpm in model-metadata.json). */
+  capSource: 'headers' | 'manual' | null;
+  sampledAt: number | null;
+};
+
+export type RateLimitModel = {
+  gatewayId: string;
+  provider: string | null;
+  model: string | null;
+  status: 'ok' | 'warning' | 'throttled';
+  throttles: number;
+  failovers: number;
+  lastThrottleAt: number | null;
+  lastFailoverAt: number | null;
+  lastSeenAt: number;
+  lastMessage: string | null;
+  retryAfterMs: number | null;
+  retryUntil: number | null;
+  requests: RateLimitResource;
+  tokens: RateLimitResource;
+  usedRatio: number | null;
+  /** Until the retry-after hint passes or a nearly used-up limit resets. */
+  resetInMs: number | null;
+};
+
+export type RateLimitPoint = { ts: number; throttles: number; failovers: number; requestsUsed: number | null; tokensUsed: number | null };
+
+export type ApiRateLimits = {
+  ok: boolean;
+  ts?: number;
+  windowMs?: number;
+  models?: RateLimitModel[];
+  history?: { bucketMs: number; from: number; to: number; series: Array<{ provider: string | null; points: RateLimitPoint[] }> };
+  error?: string;
+};
+
+export type RateLimitSample = {
+  id: number;
+  ts: number;
+  gatewayId: string;
+  eventId: number | null;
+  kind: 'throttle' | 'failover' | 'quota';
+  provider: string | null;
+  model: string | null;
+  status: number | null;
+  retryAfterMs: number | null;
+  message: string | null;
+  requests: { limit: number | null; remaining: number | null; resetAt: number | null };
+  tokens: { limit: number | null; remaining: number | null; resetAt: number | null };
+};
+
+export type ModelOutcomeStats = {
+  provider: string | null;
+  model: string | null;
+  ok: number;
+  errors: number;
+  retries: number;
+  /** Failovers away from this model. */
+  failovers: number;
+  failoversIn: number;
+  /** errors / (ok + errors); null without attempts. */
+  errorRate: number | null;
+  lastErrorAt: number | null;
+  lastSeenAt: number;
+};
+
+export type ModelFailoverTransition = {
+  fromModel: string | null;
+  toModel: string | null;
+  failovers: number;
+  /** Failovers whose run still finished ok. */
+  recovered: number;
+  lastAt: number;
+};
+
+export type ModelErrorKind = 'rate_limit' | 'overloaded' | 'timeout' | 'auth' | 'context_length' | 'network' | 'server' | 'other';
+
+export type ApiModelErrors = {
+  ok: boolean;
+  ts?: number;
+  windowMs?: number;
+  models?: ModelOutcomeStats[];
+  transitions?: ModelFailoverTransition[];
+  topErrors?: Array<{ errorKind: ModelErrorKind | null; message: string | null; count: number; lastAt: number; models: string[] }>;
+  timeline?: {
+    bucketMs: number;
+    from: number;
+    to: number;
+    points: Array<{ ts: number; ok: number; errors: number; retries: number; failovers: number }>;
+  };
+  error?: string;
+};
+
+export type ModelOutcome = {
+  id: number;
+  ts: number;
+  gatewayId: string;
+  runId: string | null;
+  sessionKey: string | null;
+  provider: string | null;
+  model: string | null;
+  outcome: 'ok' | 'error' | 'retry' | 'failover';
+  errorKind?: ModelErrorKind | null;
+  message?: string | null;
+  toModel?: string | null;
+  /** `inferred` failovers come from a run switching models without an explicit event. */
+  source: 'event' | 'inferred';
 };
 
 export type ApiModelCatalog = {
@@ -72,8 +265,726 @@ export type ApiModelCatalog = {
   error?: string;
 };
 
+export type SessionEventRow = Omit<EventRow, 'payloadJson'>;
+
+export type ApiSessionDetail = {
+  ok: boolean;
+  key?: string;
+  gatewayId?: string | null;
+  active?: boolean;
+  lastSeenAt?: number | null;
+  session?: any | null;
+  events?: SessionEventRow[];
+  eventStats?: { count: number; firstTs: number | null; lastTs: number | null };
+  truncated?: boolean;
+  error?: string;
+};
+
+export type RunStatus = 'ok' | 'error' | 'aborted' | 'running';
+
+export type RunSummary = {
+  runId: string;
+  gatewayId: string;
+  sessionKey: string | null;
+  startTs: number;
+  endTs: number;
+  durationMs: number;
+  eventCount: number;
+  toolEvents: number;
+  chatState: string | null;
+  status: RunStatus;
+};
+
+export type ApiRuns = {
+  ok: boolean;
+  from?: number | null;
+  to?: number | null;
+  runs?: RunSummary[];
+  error?: string;
+};
+
+export type RunToolCall = {
+  tool: string;
+  callId: string | null;
+  startTs: number;
+  endTs: number;
+  offsetMs: number;
+  durationMs: number;
+  status: 'ok' | 'error' | 'running' | 'incomplete';
+  eventIds: number[];
+};
+
+export type RunToolStat = { tool: string; calls: number; errors: number; totalMs: number; avgMs: number; maxMs: number };
+
+export type RunDetail = {
+  runId: string;
+  gatewayId: string | null;
+  sessionKey: string | null;
+  startTs: number;
+  endTs: number;
+  durationMs: number;
+  status: RunStatus;
+  chatState: string | null;
+  eventCount: number;
+  toolCalls: number;
+  tools: RunToolCall[];
+  toolStats: RunToolStat[];
+  events: Array<SessionEventRow & { offsetMs: number }>;
+};
+
+export type ApiRun = { ok: boolean; run?: RunDetail; truncated?: boolean; error?: string };
+
+export type ToolTrendPoint = { ts: number; calls: number; errors: number; p95Ms: number | null };
+
+export type ToolSessionUsage = { gatewayId: string; sessionKey: string | null; calls: number; errors: number; totalMs: number; lastAt: number };
+
+export type ToolUsageStats = {
+  tool: string;
+  calls: number;
+  ok: number;
+  errors: number;
+  running: number;
+  /** Calls whose end never arrived before their run finished. */
+  incomplete: number;
+  /** errors / (ok + errors); null without finished calls. */
+  errorRate: number | null;
+  /** Duration figures cover calls whose end was seen. */
+  p50Ms: number | null;
+  p95Ms: number | null;
+  avgMs: number | null;
+  maxMs: number | null;
+  totalMs: number;
+  lastAt: number;
+  sessions: number;
+  topSessions: ToolSessionUsage[];
+  trend: ToolTrendPoint[];
+};
+
+export type ApiToolStats = {
+  ok: boolean;
+  ts?: number;
+  windowMs?: number;
+  from?: number;
+  to?: number;
+  bucketMs?: number;
+  truncated?: boolean;
+  totals?: { tools: number; calls: number; errors: number; errorRate: number | null; totalMs: number };
+  trend?: ToolTrendPoint[];
+  tools?: ToolUsageStats[];
+  error?: string;
+};
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRow = {
+  id: number;
+  gatewayId: string;
+  ruleId: string;
+  alertKey: string;
+  severity: AlertSeverity;
+  status: 'firing' | 'resolved';
+  message: string;
+  value: number | null;
+  firedAt: number;
+  lastSeenAt: number;
+  resolvedAt: number | null;
+  notifiedAt: number | null;
+  detail: any | null;
+};
+
+export type AlertRule = {
+  id: string;
+  type: string;
+  name?: string;
+  severity: AlertSeverity;
+  firing: number;
+  [option: string]: any;
+};
+
+export type AlertSink = {
+  type: string;
+  target: string | null;
+  minSeverity: AlertSeverity | null;
+  lastOkAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+};
+
+export type ApiAlerts = {
+  ok: boolean;
+  rules?: AlertRule[];
+  sinks?: AlertSink[];
+  firing?: AlertRow[];
+  alerts?: AlertRow[];
+  error?: string;
+};
+
+export type ActionName =
+  | 'cron.enable' | 'cron.disable' | 'cron.run'
+  | 'session.abort' | 'session.reset' | 'session.delete'
+  | 'approval.approve' | 'approval.deny'
+  | 'device.approve' | 'device.reject' | 'device.revoke' | 'identity.rotate';
+
+export type AuditEntry = {
+  id: number;
+  ts: number;
+  actor: string;
+  role: AuthRole | null;
+  ip: string | null;
+  gatewayId: string | null;
+  action: ActionName;
+  target: string | null;
+  params: Record<string, any> | null;
+  ok: boolean;
+  error: string | null;
+  durationMs: number | null;
+};
+
+export type ApiAudit = {
+  ok: boolean;
+  actions?: ActionName[];
+  entries?: AuditEntry[];
+  error?: string;
+};
+
+/** Result of an operator action POST; `audit` is absent when the request was rejected up front. */
+export type ApiActionResult = {
+  ok: boolean;
+  error?: string | null;
+  result?: any;
+  audit?: AuditEntry;
+};
+
+export type ApprovalRequest = {
+  id: string;
+  gatewayId: string;
+  command: string | null;
+  cwd: string | null;
+  host: string | null;
+  agentId: string | null;
+  sessionKey: string | null;
+  createdAt: number;
+  expiresAt: number;
+};
+
+export type ResolvedApproval = ApprovalRequest & {
+  decision: 'allow-once' | 'allow-always' | 'deny' | 'expired' | string | null;
+  resolvedBy: string | null;
+  resolvedAt: number;
+};
+
+export type ApiApprovals = {
+  ok: boolean;
+  pending?: ApprovalRequest[];
+  resolved?: ResolvedApproval[];
+  error?: string;
+};
+
+/** The monitor's own device identity on one gateway. */
+export type DeviceIdentity = {
+  deviceId: string;
+  publicKey: string;
+  fingerprint: string;
+  createdAtMs: number | null;
+  role: string;
+  requestedScopes: string[];
+  grantedScopes: string[] | null;
+  deviceToken: { scopes: string[]; updatedAtMs: number | null } | null;
+};
+
+export type DeviceToken = {
+  role: string | null;
+  scopes: string[];
+  createdAt: number | null;
+  rotatedAt: number | null;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+};
+
+export type PairedDevice = {
+  deviceId: string;
+  displayName: string | null;
+  platform: string | null;
+  clientId: string | null;
+  clientMode: string | null;
+  roles: string[];
+  scopes: string[];
+  tokens: DeviceToken[];
+  pairedAt: number | null;
+  lastSeenAt: number | null;
+  remoteIp: string | null;
+};
+
+export type PairingRequest = {
+  requestId: string;
+  deviceId: string | null;
+  displayName: string | null;
+  platform: string | null;
+  clientId: string | null;
+  clientMode: string | null;
+  role: string | null;
+  scopes: string[];
+  remoteIp: string | null;
+  requestedAt: number | null;
+};
+
+export type ApiDevices = {
+  ok: boolean;
+  gateways?: Array<{
+    gatewayId: string;
+    identity: DeviceIdentity;
+    pending: PairingRequest[];
+    paired: PairedDevice[];
+    error: string | null;
+  }>;
+  error?: string;
+};
+
+export type CronRunStatus = 'ok' | 'error' | 'missed' | 'skipped' | 'unknown' | string;
+
+export type CronRun = {
+  id: number;
+  gatewayId: string;
+  jobId: string;
+  jobName: string | null;
+  runAt: number;
+  durationMs: number | null;
+  status: CronRunStatus;
+  error: string | null;
+  /** `snapshot` (cron.list state), `event` (cron finished event) or `detector` (missed run). */
+  source: 'snapshot' | 'event' | 'detector';
+};
+
+export type CronJobStats = {
+  gatewayId: string;
+  jobId: string;
+  jobName: string | null;
+  total: number;
+  ok: number;
+  error: number;
+  missed: number;
+  avgDurationMs: number | null;
+  lastRunAt: number | null;
+  successRate: number | null;
+};
+
+export type ApiCronStats = { ok: boolean; from?: number; jobs?: CronJobStats[]; error?: string };
+
+export type ApiCronRuns = {
+  ok: boolean;
+  jobId?: string;
+  gatewayId?: string | null;
+  from?: number;
+  runs?: CronRun[];
+  stats?: CronJobStats | null;
+  error?: string;
+};
+
+export type CronUpcomingJob = {
+  gatewayId: string;
+  jobId: string;
+  name: string;
+  enabled: boolean;
+  /** Cron payload kind, e.g. `agentTurn` or `systemEvent`. */
+  payloadKind: string | null;
+  schedule: any;
+  kind: 'cron' | 'every' | 'at' | null;
+  /** Zone cron expressions were evaluated in. */
+  tz: string | null;
+  /** Expected run length: 7-day average, else the last run, else one minute. */
+  durationMs: number;
+  occurrences: number[];
+  truncated: boolean;
+  /** Number of collision spans the job is part of. */
+  collisions: number;
+  error: string | null;
+};
+
+export type CronCollision = {
+  gatewayId: string;
+  start: number;
+  end: number;
+  /** Most jobs running at the same moment within the span. */
+  peak: number;
+  jobs: Array<{ jobId: string; name: string }>;
+};
+
+export type ApiCronUpcoming = {
+  ok: boolean;
+  from?: number;
+  to?: number;
+  jobs?: CronUpcomingJob[];
+  collisions?: CronCollision[];
+  collisionsTruncated?: boolean;
+  error?: string;
+};
+
+export type SessionHistoryPoint = {
+  ts: number;
+  totalTokens: number | null;
+  totalTokensMax: number | null;
+  contextTokens: number | null;
+  contextTokensMax: number | null;
+  pressure: number | null;
+  pressureMax: number | null;
+  cost: number | null;
+  costMax: number | null;
+};
+
+export type ApiSessionHistory = {
+  ok: boolean;
+  key?: string;
+  gatewayId?: string;
+  from?: number;
+  to?: number;
+  bucketMs?: number;
+  versions?: number;
+  model?: string | null;
+  series?: SessionHistoryPoint[];
+  error?: string;
+};
+
+export type ApiRedaction = {
+  ok: boolean;
+  enabled: boolean;
+  rules: Array<{ id: string; action: 'mask' | 'hash' | 'drop' | 'truncate'; paths: string[]; pattern: string | null; hits: number }>;
+};
+
+export type ApiStorage = {
+  ok: boolean;
+  path?: string;
+  bytes?: { db: number; wal: number; used: number; free: number };
+  tables?: Record<string, { rows: number; oldest: number | null; newest: number | null }>;
+  eventsByType?: Array<{ type: string; rows: number }>;
+  snapshotsByKind?: Array<{ kind: string; rows: number }>;
+  retention?: {
+    config: Record<string, any>;
+    running: boolean;
+    lastPrune: {
+      startedAt: number;
+      finishedAt: number;
+      durationMs: number;
+      deleted: { events: number; snapshots: number; downsampled: number; trimmed: number; rateLimitSamples?: number; modelOutcomes?: number; alerts?: number };
+      vacuumed: boolean;
+      bytesBefore: number;
+      bytesAfter: number;
+      error: string | null;
+    } | null;
+  };
+  error?: string;
+};
+
+export type SearchQuery = {
+  terms: string[];
+  type: string | null;
+  tool: string | null;
+  session: string | null;
+  run: string | null;
+  event: string | null;
+  kind: string | null;
+  in: 'events' | 'snapshots' | null;
+  from: number | null;
+  to: number | null;
+};
+
+export type SearchEventHit = Omit<EventRow, 'payloadJson'> & { snippet?: string | null; rank: number | null };
+
+export type SearchSnapshotHit = {
+  id: number;
+  ts: number;
+  gatewayId: string;
+  kind: string;
+  snippet: string;
+  rank: number;
+  matches: string[];
+};
+
+export type ApiEvents = {
+  ok: boolean;
+  events?: EventRow[];
+  /** Pass back as `cursor` for the next page; null once the filter is exhausted. */
+  nextCursor?: string | null;
+  error?: string;
+};
+
+export type ApiSearch = {
+  ok: boolean;
+  query?: SearchQuery;
+  highlight?: { start: string; end: string };
+  events?: SearchEventHit[];
+  snapshots?: SearchSnapshotHit[];
+  error?: string;
+};
+
+export type AuthRole = 'viewer' | 'operator';
+
+export type ApiAuthSession = {
+  ok: boolean;
+  enabled: boolean;
+  methods: { token: boolean; password: boolean };
+  user: { username: string; role: AuthRole } | null;
+  role: AuthRole | null;
+  csrfToken: string | null;
+  error?: string;
+};
+
+// Sent as x-csrf-token on every POST made with the session cookie.
+let csrfToken: string | null = null;
+const authRequiredHandlers = new Set<() => void>();
+
+/** Called whenever the API answers 401 (no session, or it expired). */
+export function onAuthRequired(handler: () => void): () => void {
+  authRequiredHandlers.add(handler);
+  return () => { authRequiredHandlers.delete(handler); };
+}
+
+function checkResponse(res: Response) {
+  if (res.status === 401) for (const h of authRequiredHandlers) h();
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+}
+
 export async function apiGet<T>(path: string): Promise<T> {
   const res = await fetch(path, { headers: { 'accept': 'application/json' } });
-  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  checkResponse(res);
+  return res.json() as Promise<T>;
+}
+
+export async function apiPost<T>(path: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> = { 'accept': 'application/json', 'content-type': 'application/json' };
+  if (csrfToken) headers['x-csrf-token'] = csrfToken;
+  const res = await fetch(path, { method: 'POST', headers, body: JSON.stringify(body ?? {}) });
+  checkResponse(res);
   return res.json() as Promise<T>;
 }
+
+export async function getAuthSession(): Promise<ApiAuthSession> {
+  const res = await apiGet<ApiAuthSession>('/api/auth/session');
+  csrfToken = res.csrfToken;
+  return res;
+}
+
+/** Log in with a username/password or the static token; failures come back as `ok: false`. */
+export async function login(credentials: { username: string; password: string } | { token: string }): Promise<ApiAuthSession> {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'accept': 'application/json', 'content-type': 'application/json' },
+    body: JSON.stringify(credentials)
+  });
+  const data = await res.json() as ApiAuthSession;
+  if (data.ok) csrfToken = data.csrfToken;
+  return data;
+}
+
+export async function logout(): Promise<void> {
+  await apiPost('/api/auth/logout');
+  csrfToken = null;
+}
+
+/** Append `gateway=<id>` to an API path; null means all gateways. */
+export function withGateway(path: string, gatewayId: string | null): string {
+  if (!gatewayId) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}gateway=${encodeURIComponent(gatewayId)}`;
+}
+
+export type SnapshotKind = 'sessions' | 'cron';
+
+// `sessions@<gatewayId>` carries one gateway's snapshot; bare `sessions` only signals a change somewhere.
+export type SnapshotTopic = `${SnapshotKind}@${string}`;
+
+export type StreamTopic = 'status' | 'events' | SnapshotKind | SnapshotTopic | 'alerts' | 'audit' | 'approvals' | 'cronRuns' | 'rateLimits' | 'modelOutcomes';
+
+export type SnapshotDiff = {
+  upserted: any[];
+  removed: string[];
+  order?: string[];
+  meta?: Record<string, any> | null;
+};
+
+export type SnapshotMessage = { ts: number; full?: any; diff?: SnapshotDiff };
+
+export type SnapshotChange = { gatewayId: string; ts: number };
+
+export type StreamPayloads = {
+  status: ApiStatus;
+  events: EventRow;
+  sessions: SnapshotChange;
+  cron: SnapshotChange;
+  alerts: AlertRow;
+  audit: AuditEntry;
+  approvals: { gatewayId: string; ts: number };
+  cronRuns: CronRun;
+  rateLimits: RateLimitSample;
+  modelOutcomes: ModelOutcome;
+};
+
+type StreamPayload<T extends StreamTopic> = T extends SnapshotTopic
+  ? SnapshotMessage
+  : T extends keyof StreamPayloads ? StreamPayloads[T] : never;
+
+export type LiveSnapshot = { ts: number; payload: any };
+
+type Handler = (data: any) => void;
+
+const streamHandlers = new Map<string, Set<Handler>>();
+const connectionHandlers = new Set<(connected: boolean) => void>();
+let streamSocket: WebSocket | null = null;
+let streamConnected = false;
+let streamRetryMs = 1000;
+let streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function setStreamConnected(next: boolean) {
+  if (streamConnected === next) return;
+  streamConnected = next;
+  for (const h of connectionHandlers) h(next);
+}
+
+function sendStream(msg: { type: 'subscribe' | 'unsubscribe'; topics: string[] }) {
+  if (streamSocket?.readyState === WebSocket.OPEN) streamSocket.send(JSON.stringify(msg));
+}
+
+function openStream() {
+  if (streamSocket || streamRetryTimer) return;
+  const proto = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${proto}//${location.host}/api/stream`);
+  streamSocket = ws;
+
+  ws.onopen = () => {
+    streamRetryMs = 1000;
+    setStreamConnected(true);
+    sendStream({ type: 'subscribe', topics: [...streamHandlers.keys()] });
+  };
+  ws.onmessage = (ev) => {
+    let msg: { topic?: string; data?: unknown };
+    try { msg = JSON.parse(String(ev.data)); } catch { return; }
+    const handlers = msg.topic ? streamHandlers.get(msg.topic) : null;
+    if (!handlers) return;
+    for (const h of handlers) h(msg.data);
+  };
+  ws.onclose = () => {
+    streamSocket = null;
+    setStreamConnected(false);
+    if (!streamHandlers.size) return;
+    streamRetryTimer = setTimeout(() => {
+      streamRetryTimer = null;
+      openStream();
+    }, streamRetryMs);
+    streamRetryMs = Math.min(10_000, streamRetryMs * 2);
+  };
+}
+
+/** Subscribe to a server push topic over `/api/stream`; returns an unsubscribe function. */
+export function subscribe<T extends StreamTopic>(topic: T, handler: (data: StreamPayload<T>) => void): () => void {
+  let set = streamHandlers.get(topic);
+  if (!set) {
+    set = new Set();
+    streamHandlers.set(topic, set);
+    sendStream({ type: 'subscribe', topics: [topic] });
+  }
+  set.add(handler as Handler);
+  openStream();
+
+  return () => {
+    const current = streamHandlers.get(topic);
+    if (!current) return;
+    current.delete(handler as Handler);
+    if (current.size) return;
+    streamHandlers.delete(topic);
+    sendStream({ type: 'unsubscribe', topics: [topic] });
+  };
+}
+
+export function onStreamConnection(handler: (connected: boolean) => void): () => void {
+  connectionHandlers.add(handler);
+  handler(streamConnected);
+  return () => { connectionHandlers.delete(handler); };
+}
+
+const SNAPSHOT_LISTS: Record<SnapshotKind, { field: string; key: (x: any) => unknown }> = {
+  sessions: { field: 'sessions', key: (s) => s?.key },
+  cron: { field: 'jobs', key: (j) => j?.id ?? j?.jobId ?? j?.name }
+};
+
+export function applySnapshotDiff(kind: SnapshotKind, payload: any, diff: SnapshotDiff): any {
+  const spec = SNAPSHOT_LISTS[kind];
+  const bare = Array.isArray(payload);
+  const list: any[] = bare ? payload : (Array.isArray(payload?.[spec.field]) ? payload[spec.field] : []);
+
+  const byKey = new Map<string, any>();
+  for (const item of list) byKey.set(String(spec.key(item)), item);
+  for (const k of diff.removed) byKey.delete(k);
+  for (const item of diff.upserted) byKey.set(String(spec.key(item)), item);
+
+  // The server only omits `order` when the key set and ordering are unchanged.
+  const order = diff.order ?? list.map((x) => String(spec.key(x)));
+  const nextList = order.map((k) => byKey.get(k)).filter((x) => x !== undefined);
+
+  if (bare) return nextList;
+  const meta = diff.meta !== undefined ? (diff.meta ?? {}) : Object.fromEntries(
+    Object.entries(payload ?? {}).filter(([k]) => k !== spec.field)
+  );
+  return { ...meta, [spec.field]: nextList };
+}
+
+const liveSnapshots = new Map<string, LiveSnapshot>();
+const snapshotListeners = new Map<string, { handlers: Set<(snap: LiveSnapshot) => void>; unsubscribe: () => void }>();
+
+/** Keep a live copy of one gateway's poller snapshot: full payload on subscribe, then diffs. */
+export function subscribeSnapshot(kind: SnapshotKind, gatewayId: string, handler: (snap: LiveSnapshot) => void): () => void {
+  const topic: SnapshotTopic = `${kind}@${gatewayId}`;
+  let entry = snapshotListeners.get(topic);
+  if (!entry) {
+    const handlers = new Set<(snap: LiveSnapshot) => void>();
+    const unsubscribe = subscribe(topic, (msg) => {
+      const current = liveSnapshots.get(topic);
+      let next: LiveSnapshot;
+      if (msg.full !== undefined) next = { ts: msg.ts, payload: msg.full };
+      else if (msg.diff && current) next = { ts: msg.ts, payload: applySnapshotDiff(kind, current.payload, msg.diff) };
+      else return;
+      liveSnapshots.set(topic, next);
+      for (const h of handlers) h(next);
+    });
+    entry = { handlers, unsubscribe };
+    snapshotListeners.set(topic, entry);
+  } else {
+    const current = liveSnapshots.get(topic);
+    if (current) handler(current);
+  }
+  entry.handlers.add(handler);
+
+  return () => {
+    const e = snapshotListeners.get(topic);
+    if (!e) return;
+    e.handlers.delete(handler);
+    if (e.handlers.size) return;
+    e.unsubscribe();
+    snapshotListeners.delete(topic);
+    liveSnapshots.delete(topic);
+  };
+}
+
+/**
+ * Merge per-gateway snapshots into one payload, tagging every list item with its `gatewayId`.
+ * `ts` is the newest of the merged snapshots.
+ */
+export function mergeSnapshots(kind: SnapshotKind, byGateway: Array<[string, LiveSnapshot | null]>): LiveSnapshot | null {
+  const field = SNAPSHOT_LISTS[kind].field;
+  const items: any[] = [];
+  let ts = 0;
+  for (const [gatewayId, snap] of byGateway) {
+    if (!snap) continue;
+    ts = Math.max(ts, snap.ts);
+    const list = Array.isArray(snap.payload) ? snap.payload : (Array.isArray(snap.payload?.[field]) ? snap.payload[field] : []);
+    for (const item of list) items.push({ ...item, gatewayId });
+  }
+  return ts ? { ts, payload: { [field]: items } } : null;
+}
+
+/** subscribeSnapshot over several gateways at once; the handler gets the merged payload. */
+export function subscribeSnapshots(kind: SnapshotKind, gatewayIds: string[], handler: (snap: LiveSnapshot | null) => void): () => void {
+  const latest = new Map<string, LiveSnapshot>();
+  const offs = gatewayIds.map((id) => subscribeSnapshot(kind, id, (snap) => {
+    latest.set(id, snap);
+    handler(mergeSnapshots(kind, gatewayIds.map((g) => [g, latest.get(g) ?? null])));
+  }));
+  return () => { for (const off of offs) off(); };
+}
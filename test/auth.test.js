@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { AuthManager } from '../server/auth.js';
+
+const request = (headers) => ({ headers, socket: {} });
+const auth = (opts = {}) => new AuthManager({ config: { allowedOrigins: ['http://localhost:5177', 'https://monitor.example.com'] }, bindHost: '127.0.0.1', ...opts });
+
+test('a spoofed Host is refused even when Origin matches it', () => {
+  const a = auth();
+  const rebinding = request({ host: 'evil.example:5199', origin: 'http://evil.example:5199', 'content-type': 'application/json' });
+  assert.match(a.checkHost(rebinding), /unknown host/);
+  assert.equal(a.checkOrigin(rebinding), 'cross-origin request refused');
+});
+
+test('loopback names, the bind address and allowed origins are known hosts', () => {
+  const a = auth({ bindHost: '192.168.1.20' });
+  for (const host of ['127.0.0.1:5176', 'localhost:5176', '[::1]:5176', '192.168.1.20:5176', 'monitor.example.com']) {
+    assert.equal(a.checkHost(request({ host })), null, host);
+  }
+  for (const host of ['192.168.1.21:5176', 'monitor.example.com:8443', 'localhost.evil.example']) {
+    assert.notEqual(a.checkHost(request({ host })), null, host);
+  }
+  assert.equal(a.checkHost(request({})), null);
+});
+
+test('same-origin and allowed origins pass; others are refused', () => {
+  const a = auth();
+  assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176', origin: 'http://127.0.0.1:5176' })), null);
+  assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176', origin: 'http://localhost:5177' })), null);
+  assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176', referer: 'http://127.0.0.1:5176/#/runs' })), null);
+  assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176' })), null);
+
+  for (const headers of [
+    { origin: 'http://evil.example' },
+    { origin: 'null' },
+    { referer: 'http://evil.example/page' },
+    { origin: 'http://127.0.0.1:5177' }
+  ]) {
+    assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176', ...headers })), 'cross-origin request refused', JSON.stringify(headers));
+  }
+});
+
+test('MONITOR_ALLOWED_ORIGINS extends the allow-list for origins and hosts', (t) => {
+  process.env.MONITOR_ALLOWED_ORIGINS = 'https://proxy.example.net , not a url';
+  t.after(() => { delete process.env.MONITOR_ALLOWED_ORIGINS; });
+  const a = auth();
+  assert.equal(a.checkHost(request({ host: 'proxy.example.net' })), null);
+  assert.equal(a.checkOrigin(request({ host: '127.0.0.1:5176', origin: 'https://proxy.example.net' })), null);
+});
+
+test('failed logins from rotating addresses do not pile up', (t) => {
+  const a = new AuthManager({ config: { token: 'secret' } });
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+
+  for (let i = 0; i < 20; i++) a.login({ token: 'wrong' }, `10.0.0.${i}`);
+  assert.equal(a.failures.size, 20);
+
+  // Once their window has passed, the next failure clears them out.
+  now += 16 * 60_000;
+  a.login({ token: 'wrong' }, '10.0.1.1');
+  assert.deepEqual([...a.failures.keys()], ['10.0.1.1']);
+
+  for (let i = 0; i < 12_000; i++) a.login({ token: 'wrong' }, `10.1.${i >> 8}.${i & 255}`);
+  assert.equal(a.failures.size, 10_000);
+  assert.equal(a.failures.has('10.0.1.1'), false);
+});
+
+test('an address keeps its lockout while others come and go', (t) => {
+  const a = new AuthManager({ config: { token: 'secret' } });
+  for (let i = 0; i < 10; i++) a.login({ token: 'wrong' }, '10.9.9.9');
+  a.login({ token: 'wrong' }, '10.9.9.8');
+  assert.equal(a.login({ token: 'secret' }, '10.9.9.9').status, 429);
+  assert.equal(a.login({ token: 'secret' }, '10.9.9.8').ok, true);
+});
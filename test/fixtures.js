@@ -0,0 +1,32 @@
+// Event rows shaped like the ones server/index.js stores: indexed columns next to payloadJson, which
+// holds the whole gateway frame ({ type, event, payload, seq }).
+
+let nextId = 1;
+let nextSeq = 1;
+
+export function storedRow({ ts, gatewayId = 'default', event = 'agent', type = event, sessionKey = 'agent:main:main', runId = null, tool = null, summary = null, payload }) {
+  const frame = { type: 'event', event, payload: { runId, sessionKey, ...payload }, seq: nextSeq++ };
+  return {
+    id: nextId++,
+    ts,
+    gatewayId,
+    event,
+    type,
+    sessionKey,
+    runId,
+    tool,
+    summary,
+    redacted: 0,
+    payloadJson: JSON.stringify(frame, null, 2)
+  };
+}
+
+export function toolRow({ ts, runId = 'run-1', tool, phase, toolCallId, isError, ...rest }) {
+  const data = { phase, toolCallId };
+  if (isError !== undefined) data.isError = isError;
+  return storedRow({ ts, runId, tool, type: 'agent', ...rest, payload: { stream: 'tool', tool, data } });
+}
+
+export function chatRow({ ts, runId = 'run-1', state, ...rest }) {
+  return storedRow({ ts, event: 'chat', runId, summary: `chat.${state}`, ...rest, payload: { state } });
+}
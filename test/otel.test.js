@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { OtlpExporter } from '../server/otel.js';
+import { chatRow, toolRow } from './fixtures.js';
+
+const durationMs = (span) => Number(BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano)) / 1e6;
+
+// Feeds stored rows to an exporter that never sends, and returns the spans queued once the run settles.
+function exportRun(rows) {
+  const exporter = new OtlpExporter({ tracesUrl: 'http://127.0.0.1:9/v1/traces', runSettleMs: 1000 });
+  for (const row of rows) exporter.observeEvent(row);
+  exporter._finishSettledRuns(rows[rows.length - 1].ts + 1000);
+  return exporter.queue;
+}
+
+test('tool spans carry the paired duration and error status', () => {
+  const [root, ...tools] = exportRun([
+    toolRow({ ts: 1000, tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    chatRow({ ts: 1200, state: 'delta' }),
+    toolRow({ ts: 5000, tool: 'exec', phase: 'result', toolCallId: 'c1', isError: true }),
+    toolRow({ ts: 5100, tool: 'read', phase: 'start', toolCallId: 'c2' }),
+    toolRow({ ts: 5400, tool: 'read', phase: 'result', toolCallId: 'c2' }),
+    chatRow({ ts: 6000, state: 'error' })
+  ]);
+
+  assert.equal(root.name, 'agent.run');
+  assert.equal(root.status.code, 2);
+  assert.equal(durationMs(root), 5000);
+
+  assert.deepEqual(tools.map((s) => [s.name, durationMs(s), s.status.code]), [
+    ['tool exec', 4000, 2],
+    ['tool read', 300, 1]
+  ]);
+  for (const span of tools) {
+    assert.equal(span.traceId, root.traceId);
+    assert.equal(span.parentSpanId, root.spanId);
+  }
+});
+
+test('the same runId on two gateways exports two traces', () => {
+  const spans = exportRun([
+    toolRow({ ts: 0, gatewayId: 'a', tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 100, gatewayId: 'b', tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 300, gatewayId: 'b', tool: 'exec', phase: 'result', toolCallId: 'c1' }),
+    toolRow({ ts: 700, gatewayId: 'a', tool: 'exec', phase: 'result', toolCallId: 'c1' }),
+    chatRow({ ts: 800, gatewayId: 'a', state: 'final' }),
+    chatRow({ ts: 800, gatewayId: 'b', state: 'final' })
+  ]);
+
+  const roots = spans.filter((s) => s.name === 'agent.run');
+  assert.equal(roots.length, 2);
+  assert.notEqual(roots[0].traceId, roots[1].traceId);
+  assert.deepEqual(spans.filter((s) => s.name === 'tool exec').map(durationMs).sort((x, y) => x - y), [200, 700]);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Redactor } from '../server/redact.js';
+
+function rootWith(content) {
+  const root = mkdtempSync(join(tmpdir(), 'redaction-'));
+  mkdirSync(join(root, 'server'));
+  if (content !== undefined) writeFileSync(join(root, 'server', 'redaction.json'), content);
+  return root;
+}
+
+test('a missing redaction.json falls back to no rules', (t) => {
+  const root = rootWith();
+  t.after(() => rmSync(root, { recursive: true, force: true }));
+  const config = Redactor.loadConfig(root);
+  assert.deepEqual(config.rules, []);
+  assert.equal(new Redactor({ config }).enabled, false);
+});
+
+test('a broken redaction.json stops startup instead of disabling redaction', (t) => {
+  for (const content of ['{ "rules": ', '[]', 'null', '{ "rules": {} }']) {
+    const root = rootWith(content);
+    t.after(() => rmSync(root, { recursive: true, force: true }));
+    assert.throws(() => Redactor.loadConfig(root), /redaction config/, content);
+  }
+});
+
+test('an invalid rule is refused when the redactor is built', () => {
+  assert.throws(() => new Redactor({ config: { rules: [{ id: 'x', action: 'erase', paths: ['**.a'] }] } }), /action must be one of/);
+  assert.throws(() => new Redactor({ config: { rules: [{ id: 'x', pattern: '(' }] } }), /invalid pattern/);
+  assert.throws(() => new Redactor({ config: { rules: [{ id: 'x', action: 'hash', pattern: '@' }] } }), /need a secret/);
+});
+
+test('MONITOR_REDACTION_CONFIG must name an existing file', (t) => {
+  const root = rootWith('{}');
+  process.env.MONITOR_REDACTION_CONFIG = join(root, 'missing.json');
+  t.after(() => {
+    delete process.env.MONITOR_REDACTION_CONFIG;
+    rmSync(root, { recursive: true, force: true });
+  });
+  assert.throws(() => Redactor.loadConfig(root), /ENOENT/);
+});
+
+test('the shipped config hashes an email in a session key the same way every time', () => {
+  const config = Redactor.loadConfig(process.cwd());
+  const redactor = new Redactor({ config, secret: 'test' });
+  const frame = { type: 'event', event: 'chat', payload: { sessionKey: 'agent:main:dm:ann@example.com', state: 'final' } };
+  const a = redactor.redact(frame).value.payload.sessionKey;
+  const b = redactor.redact(structuredClone(frame)).value.payload.sessionKey;
+  assert.match(a, /^agent:main:dm:\[HASH:email:[0-9a-f]{12}\]$/);
+  assert.equal(a, b);
+});
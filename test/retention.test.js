@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { RetentionJob } from '../server/retention.js';
+
+function rootWith(content) {
+  const root = mkdtempSync(join(tmpdir(), 'retention-'));
+  mkdirSync(join(root, 'server'));
+  if (content !== undefined) writeFileSync(join(root, 'server', 'retention.json'), content);
+  return root;
+}
+
+test('a missing retention.json falls back to the built-in limits', (t) => {
+  const root = rootWith();
+  t.after(() => rmSync(root, { recursive: true, force: true }));
+  assert.equal(RetentionJob.loadConfig(root).events.maxAgeDays, 30);
+});
+
+test('a broken retention.json stops startup instead of falling back', (t) => {
+  for (const content of ['{ "events": ', '[]', 'null']) {
+    const root = rootWith(content);
+    t.after(() => rmSync(root, { recursive: true, force: true }));
+    assert.throws(() => RetentionJob.loadConfig(root), /retention config/, content);
+  }
+});
+
+test('MONITOR_RETENTION_CONFIG must name an existing file', (t) => {
+  const root = rootWith('{}');
+  process.env.MONITOR_RETENTION_CONFIG = join(root, 'missing.json');
+  t.after(() => {
+    delete process.env.MONITOR_RETENTION_CONFIG;
+    rmSync(root, { recursive: true, force: true });
+  });
+  assert.throws(() => RetentionJob.loadConfig(root), /ENOENT/);
+});
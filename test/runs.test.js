@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildRun, pairToolCalls } from '../server/runs.js';
+import { chatRow, toolRow } from './fixtures.js';
+
+test('a failed exec pairs into one error call spanning start to end', () => {
+  const run = buildRun('run-1', [
+    toolRow({ ts: 1000, tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    chatRow({ ts: 1200, state: 'delta' }),
+    toolRow({ ts: 5000, tool: 'exec', phase: 'result', toolCallId: 'c1', isError: true }),
+    chatRow({ ts: 6000, state: 'error' })
+  ]);
+
+  assert.equal(run.status, 'error');
+  assert.equal(run.toolCalls, 1);
+  assert.equal(run.tools[0].status, 'error');
+  assert.equal(run.tools[0].durationMs, 4000);
+  assert.equal(run.tools[0].callId, 'c1');
+  assert.deepEqual(run.toolStats.map((s) => [s.tool, s.calls, s.errors]), [['exec', 1, 1]]);
+});
+
+test('overlapping calls of the same tool pair by call id', () => {
+  const rows = [
+    toolRow({ ts: 100, tool: 'read', phase: 'start', toolCallId: 'a' }),
+    toolRow({ ts: 150, tool: 'read', phase: 'start', toolCallId: 'b' }),
+    toolRow({ ts: 400, tool: 'read', phase: 'result', toolCallId: 'b' }),
+    toolRow({ ts: 900, tool: 'read', phase: 'result', toolCallId: 'a' })
+  ];
+  const calls = pairToolCalls(rows, (ev) => ev.ts);
+
+  assert.deepEqual(calls.map((c) => [c.callId, c.startTs, c.endTs, c.status]), [
+    ['a', 100, 900, 'ok'],
+    ['b', 150, 400, 'ok']
+  ]);
+});
+
+test('update events join their open call instead of becoming calls', () => {
+  const run = buildRun('run-1', [
+    toolRow({ ts: 0, tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 300, tool: 'exec', phase: 'update', toolCallId: 'c1' }),
+    toolRow({ ts: 700, tool: 'exec', phase: 'result', toolCallId: 'c1' }),
+    chatRow({ ts: 800, state: 'final' })
+  ]);
+
+  assert.equal(run.toolCalls, 1);
+  assert.equal(run.tools[0].eventIds.length, 3);
+  assert.equal(run.tools[0].durationMs, 700);
+});
+
+test('a call whose end never arrived is incomplete once the run has finished', () => {
+  const rows = [
+    toolRow({ ts: 0, tool: 'browser', phase: 'start', toolCallId: 'c1' }),
+    chatRow({ ts: 2500, state: 'aborted' })
+  ];
+
+  const finished = buildRun('run-1', rows);
+  assert.equal(finished.tools[0].status, 'incomplete');
+  assert.equal(finished.tools[0].durationMs, 2500);
+
+  const live = buildRun('run-1', rows.slice(0, 1));
+  assert.equal(live.status, 'running');
+  assert.equal(live.tools[0].status, 'running');
+});
+
+test('phase-less tool events last until the next event', () => {
+  const run = buildRun('run-1', [
+    toolRow({ ts: 0, tool: 'web_search' }),
+    toolRow({ ts: 400, tool: 'web_fetch', isError: true }),
+    chatRow({ ts: 1000, state: 'final' })
+  ]);
+
+  assert.deepEqual(run.tools.map((c) => [c.tool, c.durationMs, c.status]), [
+    ['web_search', 400, 'ok'],
+    ['web_fetch', 600, 'error']
+  ]);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseEventCursor, parsePayloadFilter, parseSearchQuery } from '../server/search.js';
+
+test('payload filters parse into a JSON path, operator and value', () => {
+  assert.deepEqual(parsePayloadFilter('data.phase=error'), { path: '$."payload"."data"."phase"', op: '=', value: '"error"' });
+  assert.deepEqual(parsePayloadFilter('data.attempt = 3'), { path: '$."payload"."data"."attempt"', op: '=', value: '3' });
+  assert.deepEqual(parsePayloadFilter('data.attempt="3"'), { path: '$."payload"."data"."attempt"', op: '=', value: '"3"' });
+  assert.deepEqual(parsePayloadFilter('data.phase!=start'), { path: '$."payload"."data"."phase"', op: '!=', value: '"start"' });
+  assert.deepEqual(parsePayloadFilter('data.error~Timeout'), { path: '$."payload"."data"."error"', op: '~', value: 'Timeout' });
+  assert.deepEqual(parsePayloadFilter('usage.tokens>=1000'), { path: '$."payload"."usage"."tokens"', op: '>=', value: 1000 });
+  assert.deepEqual(parsePayloadFilter('$.items[2].id'), { path: '$."payload"."items"[2]."id"', op: 'exists', value: null });
+});
+
+test('payload filters without a usable value are refused', () => {
+  for (const spec of ['data.error~', 'data.error ~  ', 'data.attempt>', 'data.attempt<=abc']) {
+    assert.throws(() => parsePayloadFilter(spec), /needs a/, spec);
+  }
+});
+
+test('malformed payload filter paths are refused', () => {
+  for (const spec of ['', 'a..b=1', 'a.=1', '[0]=1', 'a b"c=1']) {
+    assert.throws(() => parsePayloadFilter(spec), /payload filter/, JSON.stringify(spec));
+  }
+});
+
+test('event cursors are <ts>:<id>', () => {
+  assert.deepEqual(parseEventCursor('1700000000000:42'), { ts: 1700000000000, id: 42 });
+  assert.equal(parseEventCursor('1700000000000'), null);
+  assert.equal(parseEventCursor('abc:1'), null);
+});
+
+test('search qualifiers split from free text', () => {
+  const q = parseSearchQuery('type:agent tool:exec session:"agent:main" "rate limit" timeout', { now: 0 });
+  assert.equal(q.type, 'agent');
+  assert.equal(q.tool, 'exec');
+  assert.equal(q.session, 'agent:main');
+  assert.deepEqual(q.terms, ['rate limit', 'timeout']);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { toolStats } from '../server/tools.js';
+import { chatRow, toolRow } from './fixtures.js';
+
+// store.toolEvents() returns tool rows plus run chat states, oldest first.
+const storeOf = (rows) => ({ toolEvents: () => rows });
+
+test('error rates and durations come from paired start/result events', () => {
+  const rows = [
+    toolRow({ ts: 10_000, runId: 'r1', tool: 'exec', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 14_000, runId: 'r1', tool: 'exec', phase: 'result', toolCallId: 'c1', isError: true }),
+    chatRow({ ts: 15_000, runId: 'r1', state: 'error' }),
+    toolRow({ ts: 20_000, runId: 'r2', tool: 'exec', phase: 'start', toolCallId: 'c2' }),
+    toolRow({ ts: 21_000, runId: 'r2', tool: 'exec', phase: 'result', toolCallId: 'c2', isError: false }),
+    chatRow({ ts: 22_000, runId: 'r2', state: 'final' })
+  ];
+
+  const stats = toolStats({ store: storeOf(rows), gatewayIds: ['default'], from: 0, to: 60_000 });
+  const exec = stats.tools.find((t) => t.tool === 'exec');
+
+  assert.equal(exec.calls, 2);
+  assert.equal(exec.errors, 1);
+  assert.equal(exec.ok, 1);
+  assert.equal(exec.errorRate, 0.5);
+  assert.equal(exec.p50Ms, 1000);
+  assert.equal(exec.p95Ms, 4000);
+  assert.equal(exec.maxMs, 4000);
+  assert.equal(stats.totals.errorRate, 0.5);
+});
+
+test('open calls are running while their run is, and incomplete after it ends', () => {
+  const rows = [
+    toolRow({ ts: 1000, runId: 'live', tool: 'browser', phase: 'start', toolCallId: 'a' }),
+    toolRow({ ts: 1000, runId: 'done', tool: 'browser', phase: 'start', toolCallId: 'b' }),
+    chatRow({ ts: 3000, runId: 'done', state: 'aborted' })
+  ];
+
+  const [browser] = toolStats({ store: storeOf(rows), gatewayIds: ['default'], from: 0, to: 10_000 }).tools;
+
+  assert.equal(browser.running, 1);
+  assert.equal(browser.incomplete, 1);
+  assert.equal(browser.errorRate, null);
+  assert.equal(browser.p50Ms, null);
+});
+
+test('the same runId on two gateways is paired separately', () => {
+  const rows = [
+    toolRow({ ts: 0, gatewayId: 'a', runId: 'r1', tool: 'read', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 100, gatewayId: 'b', runId: 'r1', tool: 'read', phase: 'start', toolCallId: 'c1' }),
+    toolRow({ ts: 300, gatewayId: 'b', runId: 'r1', tool: 'read', phase: 'result', toolCallId: 'c1' }),
+    toolRow({ ts: 500, gatewayId: 'a', runId: 'r1', tool: 'read', phase: 'result', toolCallId: 'c1' })
+  ];
+
+  const [read] = toolStats({ store: storeOf(rows), gatewayIds: ['a', 'b'], from: 0, to: 10_000 }).tools;
+
+  assert.equal(read.calls, 2);
+  assert.deepEqual([read.p50Ms, read.maxMs], [200, 500]);
+});
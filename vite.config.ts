@@ -12,7 +12,8 @@ export default defineConfig({
     proxy: {
       '/api': {
         target: 'http://127.0.0.1:5176',
-        changeOrigin: true
+        changeOrigin: true,
+        ws: true
       }
     }
   }